@@ -1,13 +1,24 @@
 // Type definitions for imphnen.js framework
 
 // Core types
-export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'OPTIONS';
+export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
+
+type ParamSegment<S extends string> =
+  S extends `${infer Name}(${infer _Constraint})${infer Suffix}`
+    ? ParamSegment<`${Name}${Suffix}`>
+    : S extends `${infer Name}*`
+    ? { [K in Name]: string }
+    : S extends `${infer Name}?`
+    ? { [K in Name]?: string }
+    : { [K in S]: string };
 
 export type RouteParams<T extends string> = 
   T extends `${infer _Start}:${infer Param}/${infer Rest}`
-    ? { [K in Param]: string } & RouteParams<`/${Rest}`>
+    ? ParamSegment<Param> & RouteParams<`/${Rest}`>
     : T extends `${infer _Start}:${infer Param}`
-    ? { [K in Param]: string }
+    ? ParamSegment<Param>
+    : T extends `${infer _Start}/*`
+    ? { '*': string }
     : {};
 
 // File Upload types
@@ -36,10 +47,26 @@ export interface ProxyOptions {
 }
 
 // Core Context type with enhanced features
+export type TypedResponse<T = unknown, TStatus extends number = number> = Response & {
+  readonly '~payload'?: T;
+  readonly '~status'?: TStatus;
+};
+
+export type JsonResponder<TResponse> = unknown extends TResponse
+  ? <T, TStatus extends number = number>(data: T, init?: ResponseInit & { status?: TStatus }) => TypedResponse<T, TStatus>
+  : {
+      <TStatus extends keyof TResponse & number>(
+        data: TResponse[TStatus],
+        init: ResponseInit & { status: TStatus }
+      ): TypedResponse<TResponse[TStatus], TStatus>;
+      (data: TResponse[keyof TResponse], init?: ResponseInit & { status?: undefined }): TypedResponse<TResponse[keyof TResponse]>;
+    };
+
 export type Context<
-  TParams extends Record<string, string> = {},
-  TQuery extends Record<string, string> = {},
-  TBody = unknown
+  TParams extends Record<string, any> = {},
+  TQuery extends Record<string, any> = {},
+  TBody = unknown,
+  TResponse = unknown
 > = {
   req: Request;
   params: TParams;
@@ -47,11 +74,14 @@ export type Context<
   body: TBody;
   headers: Headers;
   files?: UploadedFile[];
+  cookies: Cookies;
+  ip?: string;
+  state: Record<string, any>;
   set: {
     headers: (headers: Record<string, string>) => void;
     status: (status: number) => void;
   };
-  json: <T>(data: T, init?: ResponseInit) => Response;
+  json: JsonResponder<TResponse>;
   text: (text: string, init?: ResponseInit) => Response;
   html: (html: string, init?: ResponseInit) => Response;
   redirect: (url: string, status?: number) => Response;
@@ -60,20 +90,215 @@ export type Context<
 };
 
 export type Handler<
-  TParams extends Record<string, string> = {},
-  TQuery extends Record<string, string> = {},
-  TBody = unknown
-> = (ctx: Context<TParams, TQuery, TBody>) => Response | Promise<Response>;
+  TParams extends Record<string, any> = {},
+  TQuery extends Record<string, any> = {},
+  TBody = unknown,
+  TResponse = unknown
+> = (ctx: Context<TParams, TQuery, TBody, TResponse>) => Response | Promise<Response>;
 
 export type Middleware<
-  TParams extends Record<string, string> = {},
-  TQuery extends Record<string, string> = {},
-  TBody = unknown
+  TParams extends Record<string, any> = {},
+  TQuery extends Record<string, any> = {},
+  TBody = unknown,
+  TResponse = unknown
 > = (
-  ctx: Context<TParams, TQuery, TBody>,
+  ctx: Context<TParams, TQuery, TBody, TResponse>,
   next: () => Promise<Response>
 ) => Response | Promise<Response>;
 
+// Schema validation (Standard Schema v1 compatible)
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaProps<Input, Output>;
+}
+
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (value: unknown) => StandardResult<Output> | Promise<StandardResult<Output>>;
+  readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+}
+
+export type StandardResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardIssue[] };
+
+export interface StandardIssue {
+  readonly message: string;
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] | undefined;
+}
+
+export type InferInput<S extends StandardSchemaV1> = NonNullable<S['~standard']['types']>['input'];
+export type InferOutput<S extends StandardSchemaV1> = NonNullable<S['~standard']['types']>['output'];
+
+export type ResponseSchema = StandardSchemaV1 | { [status: number]: StandardSchemaV1 };
+
+export interface RouteDetail {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+  security?: Record<string, string[]>[];
+  hide?: boolean;
+}
+
+export interface RouteSchema {
+  body?: StandardSchemaV1;
+  query?: StandardSchemaV1;
+  params?: StandardSchemaV1;
+  headers?: StandardSchemaV1;
+  response?: ResponseSchema;
+  detail?: RouteDetail;
+}
+
+type RecordOutput<S, Fallback> = S extends StandardSchemaV1
+  ? InferOutput<S> extends Record<string, any> ? InferOutput<S> : Fallback
+  : Fallback;
+
+type SchemaParams<TPath extends string, TSchema extends RouteSchema> =
+  RecordOutput<TSchema['params'], PathParams<TPath>>;
+type SchemaQuery<TSchema extends RouteSchema> =
+  RecordOutput<TSchema['query'], Record<string, string>>;
+type SchemaBody<TSchema extends RouteSchema> =
+  TSchema['body'] extends StandardSchemaV1 ? InferOutput<TSchema['body']> : unknown;
+type SuccessStatus = 200 | 201 | 202 | 203 | 204 | 205 | 206 | 207 | 208 | 226;
+type SchemaResponse<TSchema extends RouteSchema> =
+  TSchema['response'] extends StandardSchemaV1
+    ? { [K in SuccessStatus]: InferOutput<TSchema['response']> }
+    : TSchema['response'] extends Record<number, StandardSchemaV1>
+    ? { [K in keyof TSchema['response']]: TSchema['response'][K] extends StandardSchemaV1 ? InferOutput<TSchema['response'][K]> : never }
+    : unknown;
+
+type SchemaHandlers<TPath extends string, TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult> = [
+  ...Middleware<SchemaParams<TPath, TSchema>, SchemaQuery<TSchema>, SchemaBody<TSchema>, SchemaResponse<TSchema>>[],
+  (ctx: Context<SchemaParams<TPath, TSchema>, SchemaQuery<TSchema>, SchemaBody<TSchema>, SchemaResponse<TSchema>>) => TResult
+];
+
+export declare abstract class Schema<T = unknown> implements StandardSchemaV1<unknown, T> {
+  readonly '~standard': StandardSchemaProps<unknown, T>;
+  validate(value: unknown, options?: { coerce?: boolean }): StandardResult<T>;
+  optional(): OptionalSchema<T>;
+  nullable(): NullableSchema<T>;
+  toJSONSchema(): JSONSchema;
+}
+
+export interface StringOptions {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  format?: 'email' | 'uuid' | 'url' | 'date-time';
+}
+
+export interface NumberOptions {
+  minimum?: number;
+  maximum?: number;
+  integer?: boolean;
+}
+
+export interface ArrayOptions {
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectOptions {
+  passthrough?: boolean;
+}
+
+type Shape = Record<string, Schema<any>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never }[keyof S];
+export type ObjectOutput<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: S[K] extends Schema<infer T> ? T : never;
+} & {
+  [K in OptionalKeys<S>]?: S[K] extends Schema<infer T> ? T : never;
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+export declare class StringSchema extends Schema<string> { readonly options: StringOptions; }
+export declare class NumberSchema extends Schema<number> { readonly options: NumberOptions; }
+export declare class BooleanSchema extends Schema<boolean> {}
+export declare class LiteralSchema<T extends string | number | boolean | null> extends Schema<T> { readonly value: T; }
+export declare class EnumSchema<T extends string | number> extends Schema<T> { readonly values: readonly T[]; }
+export declare class ArraySchema<T> extends Schema<T[]> { readonly items: Schema<T>; readonly options: ArrayOptions; }
+export declare class ObjectSchema<S extends Shape> extends Schema<ObjectOutput<S>> { readonly shape: S; readonly options: ObjectOptions; }
+export declare class OptionalSchema<T> extends Schema<T | undefined> { readonly inner: Schema<T>; }
+export declare class NullableSchema<T> extends Schema<T | null> { readonly inner: Schema<T>; }
+export declare class UnionSchema<T> extends Schema<T> { readonly options: readonly Schema<any>[]; }
+export declare class UnknownSchema extends Schema<unknown> {}
+
+export declare const t: {
+  string(options?: StringOptions): StringSchema;
+  number(options?: NumberOptions): NumberSchema;
+  integer(options?: Omit<NumberOptions, 'integer'>): NumberSchema;
+  boolean(): BooleanSchema;
+  literal<const T extends string | number | boolean | null>(value: T): LiteralSchema<T>;
+  enum<const T extends string | number>(values: readonly T[]): EnumSchema<T>;
+  array<T>(items: Schema<T>, options?: ArrayOptions): ArraySchema<T>;
+  object<S extends Shape>(shape: S, options?: ObjectOptions): ObjectSchema<S>;
+  optional<T>(schema: Schema<T>): OptionalSchema<T>;
+  nullable<T>(schema: Schema<T>): NullableSchema<T>;
+  union<const S extends readonly Schema<any>[]>(options: S): UnionSchema<S[number] extends Schema<infer T> ? T : never>;
+  unknown(): UnknownSchema;
+};
+
+export type ErrorHandler = (
+  error: unknown,
+  ctx: Context<any, any, any>
+) => Response | Promise<Response>;
+
+export type OnRequestHook = (request: Request, url: URL) => void | Response | Promise<void | Response>;
+export type BeforeHandleHook = (ctx: Context<any, any, any>) => void | Response | Promise<void | Response>;
+export type AfterHandleHook = (
+  ctx: Context<any, any, any>,
+  response: Response
+) => void | Response | Promise<void | Response>;
+export type OnResponseHook = (request: Request, response: Response) => void | Promise<void>;
+
+export interface RouteHooks {
+  beforeHandle?: BeforeHandleHook | BeforeHandleHook[];
+  afterHandle?: AfterHandleHook | AfterHandleHook[];
+  onResponse?: OnResponseHook | OnResponseHook[];
+}
+
+export declare function lifecycle(hooks: RouteHooks): Middleware<any, any, any>;
+
+// Authorization guards
+export type Requirement =
+  | { role: string }
+  | { permission: string }
+  | { all: Requirement[] }
+  | { any: Requirement[] }
+  | { check: string };
+
+export interface Guard<TUser = any> {
+  (ctx: ContextWithState<any, any, any, any>, next: () => Promise<Response>): Promise<Response>;
+  readonly requirement: Requirement;
+  readonly requirements: Requirement[];
+  allows(user: TUser, ctx: ContextWithState<any, any, any, any>): boolean | Promise<boolean>;
+}
+
+export interface GuardOptions<TUser> {
+  roles?: (user: TUser) => readonly string[];
+  permissions?: (user: TUser) => readonly string[];
+}
+
+export declare function createGuards<TUser>(options?: GuardOptions<TUser>): {
+  requireRole: (role: string) => Guard<TUser>;
+  requirePermission: (permission: string) => Guard<TUser>;
+  guard: (name: string, check: (user: TUser, ctx: ContextWithState<any, any, any, any>) => boolean | Promise<boolean>) => Guard<TUser>;
+};
+
+export declare function requireRole(role: string): Guard;
+export declare function requirePermission(permission: string): Guard;
+export declare function guard(name: string, check: (user: any, ctx: ContextWithState<any, any, any, any>) => boolean | Promise<boolean>): Guard;
+export declare function requireAll<TUser>(...guards: Guard<TUser>[]): Guard<TUser>;
+export declare function requireAny<TUser>(...guards: Guard<TUser>[]): Guard<TUser>;
+export declare function describeRequirement(requirement: Requirement): string;
+
+export interface RouteInfo {
+  method: HTTPMethod;
+  path: string;
+  requirements: Requirement[];
+}
+
 export interface RouteDefinition {
   method: HTTPMethod;
   path: string;
@@ -81,24 +306,363 @@ export interface RouteDefinition {
   middlewares: Middleware[];
 }
 
+export type CorsOrigin =
+  | boolean
+  | string
+  | RegExp
+  | (string | RegExp)[]
+  | ((origin: string, request: Request) => boolean | Promise<boolean>);
+
 export interface CorsOptions {
-  origin?: string | string[];
+  origin?: CorsOrigin;
   methods?: string[];
   headers?: string[];
+  exposeHeaders?: string[];
   credentials?: boolean;
+  maxAge?: number;
+  privateNetwork?: boolean;
 }
 
+export interface Cors {
+  preflight(request: Request): Promise<Response | undefined>;
+  apply(request: Request, response: Response): Promise<Response>;
+  headers(request: Request): Promise<Record<string, string>>;
+}
+
+export declare function createCors(options?: CorsOptions): Cors;
+
 export interface ImphnenOptions {
   port?: number;
   hostname?: string;
   development?: boolean;
+  responseValidation?: 'warn' | 'error';
   cors?: boolean | CorsOptions;
   uploads?: UploadOptions;
   staticFiles?: {
     root: string;
     prefix?: string;
   };
-  proxy?: boolean;
+  proxy?: {
+    trustProxy?: boolean | number;
+    timeout?: number;
+  };
+  cookies?: CookieConfig;
+}
+
+// Cookies
+export interface CookieOptions {
+  path?: string;
+  domain?: string;
+  maxAge?: number;
+  expires?: Date;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  secure?: boolean;
+  httpOnly?: boolean;
+  partitioned?: boolean;
+}
+
+export interface CookieConfig {
+  keys?: string[];
+  defaults?: CookieOptions;
+}
+
+export interface Cookies {
+  get(name: string): string | undefined;
+  all(): Record<string, string>;
+  set(name: string, value: string, options?: CookieOptions): void;
+  delete(name: string, options?: Pick<CookieOptions, 'path' | 'domain' | 'secure' | 'sameSite' | 'partitioned'>): void;
+  getSigned(name: string): Promise<string | undefined>;
+  setSigned(name: string, value: string, options?: CookieOptions): Promise<void>;
+  getEncrypted(name: string): Promise<string | undefined>;
+  setEncrypted(name: string, value: string, options?: CookieOptions): Promise<void>;
+}
+
+export declare function parseCookies(header: string | null): Record<string, string>;
+export declare function serializeCookie(name: string, value: string, options?: CookieOptions): string;
+
+// Authentication
+export type Verified<TUser> = TUser | undefined | null | false;
+
+export interface BasicAuthOptions<TUser = { username: string }> {
+  realm?: string;
+  users?: Record<string, string>;
+  verify?: (username: string, password: string, ctx: ContextWithState<any, any, any, {}>) => Verified<TUser> | Promise<Verified<TUser>>;
+}
+
+export interface APIKeyOptions<TUser = { key: string }> {
+  header?: string;
+  query?: string;
+  cookie?: string;
+  verify: (key: string, ctx: ContextWithState<any, any, any, {}>) => Verified<TUser> | Promise<Verified<TUser>>;
+}
+
+export interface TokenAuthOptions<TUser> {
+  verify: (token: string, ctx: ContextWithState<any, any, any, {}>) => Verified<TUser> | Promise<Verified<TUser>>;
+  token?: (ctx: ContextWithState<any, any, any, {}>) => string | undefined;
+}
+
+export declare function timingSafeEqual(input: string, secret: string): boolean;
+
+// JSON Web Tokens
+export type JWTAlgorithm = 'HS256' | 'RS256' | 'ES256' | 'EdDSA';
+
+export interface JWTHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  [parameter: string]: unknown;
+}
+
+export interface JWTPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+export interface JWK {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  crv?: string;
+  [parameter: string]: unknown;
+}
+
+export interface JWKSet {
+  keys: JWK[];
+}
+
+export type JWTKey = string | Uint8Array | CryptoKey | JWK;
+export type KeyResolver = (header: JWTHeader) => JWTKey | Promise<JWTKey>;
+
+export interface JWTVerifyOptions {
+  key: JWTKey | KeyResolver;
+  algorithms?: JWTAlgorithm[];
+  issuer?: string | string[];
+  audience?: string | string[];
+  clockTolerance?: number;
+}
+
+export interface JWTSignOptions {
+  algorithm?: JWTAlgorithm;
+  expiresIn?: number;
+  notBefore?: number;
+  issuer?: string;
+  audience?: string | string[];
+  subject?: string;
+  jwtId?: string;
+  keyId?: string;
+}
+
+export interface RemoteJWKSOptions {
+  cacheMaxAge?: number;
+  cooldown?: number;
+  fetch?: (request: Request) => Response | Promise<Response>;
+}
+
+export interface AuthOptions<TUser = JWTPayload, TClaims extends JWTPayload = JWTPayload> extends Omit<JWTVerifyOptions, 'key'> {
+  key?: JWTKey | KeyResolver;
+  jwks?: string | URL | JWKSet;
+  user?: (claims: TClaims, ctx: ContextWithState<any, any, any, {}>) => TUser | Promise<TUser>;
+  token?: (ctx: ContextWithState<any, any, any, {}>) => string | undefined;
+}
+
+export declare function signJWT(payload: JWTPayload, key: JWTKey, options?: JWTSignOptions): Promise<string>;
+export declare function verifyJWT<T extends JWTPayload = JWTPayload>(token: string, options: JWTVerifyOptions): Promise<T>;
+export declare function decodeJWT<T extends JWTPayload = JWTPayload>(token: string): { header: JWTHeader; payload: T };
+export declare function createLocalJWKS(set: JWKSet): KeyResolver;
+export declare function createRemoteJWKS(url: string | URL, options?: RemoteJWKSOptions): KeyResolver;
+
+// Sessions
+export type SessionData = Record<string, unknown>;
+
+export interface SessionStore {
+  get(id: string): SessionData | undefined | Promise<SessionData | undefined>;
+  set(id: string, data: SessionData, ttl: number): void | Promise<void>;
+  destroy(id: string): void | Promise<void>;
+  touch?(id: string, data: SessionData, ttl: number): void | Promise<void>;
+}
+
+export declare class MemoryStore implements SessionStore {
+  get(id: string): SessionData | undefined;
+  set(id: string, data: SessionData, ttl: number): void;
+  touch(id: string, data: SessionData, ttl: number): void;
+  destroy(id: string): void;
+  readonly size: number;
+}
+
+export declare class CookieStore {
+  constructor(maxSize?: number);
+  load(cookies: Cookies, name: string): Promise<{ id: string; data: SessionData } | undefined>;
+  save(cookies: Cookies, name: string, id: string, data: SessionData, ttl: number, options: CookieOptions): Promise<void>;
+}
+
+export interface SessionOptions {
+  store?: SessionStore | CookieStore;
+  name?: string;
+  maxAge?: number;
+  rolling?: boolean;
+  cookie?: Omit<CookieOptions, 'maxAge' | 'expires'>;
+}
+
+export interface Session<TData extends SessionData = SessionData> {
+  readonly id: string;
+  readonly isNew: boolean;
+  get<K extends keyof TData & string>(key: K): TData[K] | undefined;
+  set<K extends keyof TData & string>(key: K, value: TData[K]): void;
+  delete(key: keyof TData & string): void;
+  has(key: keyof TData & string): boolean;
+  all(): Partial<TData>;
+  flash(key: string, value: unknown): void;
+  getFlash<T = unknown>(key: string): T | undefined;
+  regenerate(): Promise<void>;
+  destroy(): Promise<void>;
+}
+
+// CSRF protection
+export type CSRFStrategy = 'double-submit' | 'cookie' | 'session';
+
+export interface CSRFOptions {
+  strategy?: CSRFStrategy;
+  name?: string;
+  cookie?: Omit<CookieOptions, 'maxAge' | 'expires'>;
+  header?: string;
+  field?: string;
+  origins?: string[];
+  exempt?: string[];
+}
+
+// Security headers
+export type CSPDirectives = Record<string, readonly string[] | boolean>;
+
+export interface CSPOptions {
+  directives?: CSPDirectives;
+  useDefaults?: boolean;
+  reportOnly?: boolean;
+  reportUri?: string;
+}
+
+export interface HSTSOptions {
+  maxAge?: number;
+  includeSubDomains?: boolean;
+  preload?: boolean;
+}
+
+export interface SecurityHeadersOptions {
+  contentSecurityPolicy?: CSPOptions | false;
+  strictTransportSecurity?: HSTSOptions | false;
+  contentTypeOptions?: boolean;
+  frameOptions?: 'DENY' | 'SAMEORIGIN' | false;
+  referrerPolicy?: string | string[] | false;
+  permissionsPolicy?: Record<string, readonly string[]> | false;
+  crossOriginOpenerPolicy?: 'same-origin' | 'same-origin-allow-popups' | 'unsafe-none' | false;
+  crossOriginEmbedderPolicy?: 'require-corp' | 'credentialless' | 'unsafe-none' | false;
+  crossOriginResourcePolicy?: 'same-origin' | 'same-site' | 'cross-origin' | false;
+}
+
+export interface CSPReport {
+  documentURL: string;
+  blockedURL?: string;
+  effectiveDirective: string;
+  originalPolicy: string;
+  disposition: 'enforce' | 'report';
+  sourceFile?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  sample?: string;
+  statusCode?: number;
+  referrer?: string;
+}
+
+export declare function cspReportHandler(onReport?: (report: CSPReport, ctx: Context) => void | Promise<void>): Handler;
+
+// Rate limiting
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export interface TokenBucket {
+  capacity: number;
+  refillRate: number;
+  cost: number;
+  now: number;
+  ttl: number;
+}
+
+export interface RateLimitStore {
+  increment(key: string, amount: number, ttl: number): number | Promise<number>;
+  get(key: string): number | undefined | Promise<number | undefined>;
+  take(key: string, bucket: TokenBucket): { allowed: boolean; tokens: number } | Promise<{ allowed: boolean; tokens: number }>;
+  reset?(key: string): void | Promise<void>;
+}
+
+export declare class MemoryRateLimitStore implements RateLimitStore {
+  constructor(maxKeys?: number);
+  increment(key: string, amount: number, ttl: number): number;
+  get(key: string): number | undefined;
+  take(key: string, bucket: TokenBucket): { allowed: boolean; tokens: number };
+  reset(prefix: string): void;
+  readonly size: number;
+}
+
+export interface RedisCommander {
+  send(command: string, args: string[]): Promise<unknown>;
+}
+
+export declare class RedisRateLimitStore implements RateLimitStore {
+  constructor(client: RedisCommander);
+  increment(key: string, amount: number, ttl: number): Promise<number>;
+  get(key: string): Promise<number | undefined>;
+  take(key: string, bucket: TokenBucket): Promise<{ allowed: boolean; tokens: number }>;
+  reset(prefix: string): Promise<void>;
+}
+
+export interface RateLimitInfo {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;
+  retryAfter: number;
+}
+
+export interface RateLimiterOptions {
+  maxRequests: number;
+  windowMs: number;
+  algorithm?: RateLimitAlgorithm;
+  store?: RateLimitStore;
+  prefix?: string;
+}
+
+export interface RateLimitOptions extends RateLimiterOptions {
+  keyGenerator?: (ctx: ContextWithState<any, any, any, any>) => string | Promise<string>;
+  skip?: (ctx: ContextWithState<any, any, any, any>) => boolean | Promise<boolean>;
+  cost?: number | ((ctx: ContextWithState<any, any, any, any>) => number);
+  headers?: boolean;
+}
+
+export interface RateLimiter {
+  check(key: string, cost?: number): Promise<RateLimitInfo>;
+  reset(key: string): Promise<void>;
+}
+
+export declare function createRateLimiter(options: RateLimiterOptions): RateLimiter;
+
+export interface StopOptions {
+  graceful?: boolean;
+  timeoutMs?: number;
+}
+
+export interface ServerHandle {
+  server: ReturnType<typeof Bun.serve>;
+  port: number;
+  hostname: string;
+  url: URL;
+  readonly pendingRequests: number;
+  readonly pendingWebSockets: number;
+  stop(options?: StopOptions): Promise<void>;
 }
 
 // Pipeline types
@@ -116,6 +680,8 @@ export type ContextWithState<
   body: TBody;
   headers: Headers;
   files?: UploadedFile[];
+  cookies: Cookies;
+  ip?: string;
   state: TState;
   set: {
     headers: (headers: Record<string, string>) => void;
@@ -150,6 +716,8 @@ export type StateHandler<
 // Utility types
 export type AnyRouteParams = Record<string, string>;
 
+export type PathParams<T extends string> = { [K in keyof RouteParams<T>]: string };
+
 // Main classes and functions
 export declare class MiddlewarePipeline<
   TParams extends Record<string, string> = {},
@@ -157,7 +725,7 @@ export declare class MiddlewarePipeline<
   TBody = unknown,
   TState extends MiddlewareState = {}
 > {
-  use<TNewState extends MiddlewareState>(
+  use<TNewState extends MiddlewareState = TState>(
     middleware: PipelineMiddleware<TParams, TQuery, TBody, TState, TNewState>
   ): MiddlewarePipeline<TParams, TQuery, TBody, TNewState>;
   
@@ -165,6 +733,8 @@ export declare class MiddlewarePipeline<
     ...middlewares: PipelineMiddleware<TParams, TQuery, TBody, TState, TNewState>[]
   ): MiddlewarePipeline<TParams, TQuery, TBody, TNewState>;
   
+  requirements(): Requirement[];
+  
   execute(
     ctx: ContextWithState<TParams, TQuery, TBody, {}>,
     handler: StateHandler<TParams, TQuery, TBody, TState>
@@ -178,7 +748,8 @@ export declare class MiddlewarePipeline<
   >(initialState?: TState): MiddlewarePipeline<TParams, TQuery, TBody, TState>;
 }
 
-export declare class Imphnen {
+export declare class Imphnen<TRoutes extends RouteMap = {}> {
+  readonly '~routes'?: TRoutes;
   constructor(options?: ImphnenOptions);
   
   pipeline<TState extends MiddlewareState = {}>(
@@ -186,51 +757,458 @@ export declare class Imphnen {
   ): MiddlewarePipeline<{}, {}, unknown, TState>;
   
   use<TParams extends Record<string, string> = {}, TQuery extends Record<string, string> = {}, TBody = unknown>(
-    middleware: Middleware<TParams, TQuery, TBody> | PipelineMiddleware<{}, {}, unknown, {}, any>
+    middleware: Middleware<TParams, TQuery, TBody> | PipelineMiddleware<{}, {}, unknown, {}, any> | MiddlewarePipeline<any, any, any, any>
   ): this;
   
+  onError(handler: ErrorHandler): this;
+  
+  notFound(handler: Handler<any>): this;
+  
+  onRequest(hook: OnRequestHook): this;
+  beforeHandle(hook: BeforeHandleHook): this;
+  afterHandle(hook: AfterHandleHook): this;
+  onResponse(hook: OnResponseHook): this;
+  
   route<
     TPath extends string,
     TState extends MiddlewareState,
-    TBody = unknown
+    TBody = unknown,
+    TMethod extends HTTPMethod = HTTPMethod,
+    TResult extends HandlerResult = HandlerResult
   >(
-    method: HTTPMethod,
+    method: TMethod,
     path: TPath,
     pipeline: MiddlewarePipeline<RouteParams<TPath>, {}, TBody, TState>,
-    handler: StateHandler<RouteParams<TPath>, {}, TBody, TState>
-  ): this;
+    handler: (ctx: ContextWithState<RouteParams<TPath>, {}, TBody, TState>) => TResult
+  ): Imphnen<AddRoute<TRoutes, TMethod, TPath, PlainEndpoint<TPath, TBody, TResult>>>;
   
-  get<TPath extends string, TState extends MiddlewareState = {}>(
+  get<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
-    ...args: any[]
-  ): this;
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'GET', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  get<TPath extends string, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [...any[], (ctx: any) => TResult]
+  ): Imphnen<AddRoute<TRoutes, 'GET', TPath, PlainEndpoint<TPath, unknown, TResult>>>;
   
-  post<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}>(
+  post<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
-    ...args: any[]
-  ): this;
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'POST', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  post<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [...any[], (ctx: any) => TResult]
+  ): Imphnen<AddRoute<TRoutes, 'POST', TPath, PlainEndpoint<TPath, TBody, TResult>>>;
   
-  put<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}>(
+  put<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
-    ...args: any[]
-  ): this;
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'PUT', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  put<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [...any[], (ctx: any) => TResult]
+  ): Imphnen<AddRoute<TRoutes, 'PUT', TPath, PlainEndpoint<TPath, TBody, TResult>>>;
   
-  delete<TPath extends string, TState extends MiddlewareState = {}>(
+  delete<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
-    ...args: any[]
-  ): this;
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'DELETE', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  delete<TPath extends string, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [...any[], (ctx: any) => TResult]
+  ): Imphnen<AddRoute<TRoutes, 'DELETE', TPath, PlainEndpoint<TPath, unknown, TResult>>>;
   
-  patch<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}>(
+  patch<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
-    ...args: any[]
-  ): this;
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'PATCH', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  patch<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [...any[], (ctx: any) => TResult]
+  ): Imphnen<AddRoute<TRoutes, 'PATCH', TPath, PlainEndpoint<TPath, TBody, TResult>>>;
+  
+  head<TPath extends string, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [...any[], (ctx: any) => TResult]
+  ): Imphnen<AddRoute<TRoutes, 'HEAD', TPath, PlainEndpoint<TPath, unknown, TResult>>>;
+  
+  options<TPath extends string, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [...any[], (ctx: any) => TResult]
+  ): Imphnen<AddRoute<TRoutes, 'OPTIONS', TPath, PlainEndpoint<TPath, unknown, TResult>>>;
   
-  listen(port?: number): Promise<void>;
+  all<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [...any[], (ctx: any) => TResult]
+  ): Imphnen<AddRoute<TRoutes, HTTPMethod, TPath, PlainEndpoint<TPath, TBody, TResult>>>;
+  
+  group<TPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TPrefix,
+    callback: GroupCallback<TPrefix, TGroupRoutes>
+  ): Imphnen<TRoutes & TGroupRoutes>;
+  group<TPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TPrefix,
+    options: GroupOptions,
+    callback: GroupCallback<TPrefix, TGroupRoutes>
+  ): Imphnen<TRoutes & TGroupRoutes>;
+  group<TPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TPrefix,
+    ...args: [...middlewares: GroupMiddleware[], callback: GroupCallback<TPrefix, TGroupRoutes>]
+  ): Imphnen<TRoutes & TGroupRoutes>;
+  group<TPrefix extends string>(prefix: TPrefix, options?: GroupOptions): RouteGroup<TPrefix>;
+  group<TPrefix extends string>(prefix: TPrefix, ...middlewares: GroupMiddleware[]): RouteGroup<TPrefix>;
+  
+  proxy(path: string, options: ProxyOptions, ...middlewares: Middleware<any>[]): this;
+  
+  mount<TPrefix extends string, TMounted extends RouteMap = {}>(
+    prefix: TPrefix,
+    app: Imphnen<TMounted> | ((request: Request) => Response | Promise<Response>)
+  ): Imphnen<TRoutes & PrefixRoutes<TPrefix, TMounted>>;
+  
+  listen(port?: number): Promise<ServerHandle>;
   handler: (request: Request) => Promise<Response>;
   
+  inject(options: InjectOptions): Promise<TestResponse>;
+  request(path: string, options?: RequestOptions): Promise<TestResponse>;
+  injectWebSocket(path: string, options?: WebSocketInjectOptions): Promise<TestWebSocket>;
+  
+  openapi(options: OpenAPIOptions): OpenAPIDocument;
+  listRoutes(): RouteInfo[];
+  docs(options: DocsOptions): this;
+  
   static middleware: typeof BuiltinMiddleware;
 }
 
+// OpenAPI
+export type JSONSchema = Record<string, unknown>;
+
+export interface OpenAPIInfo {
+  title: string;
+  version: string;
+  description?: string;
+  [key: string]: unknown;
+}
+
+export interface OpenAPIOptions {
+  info: OpenAPIInfo;
+  servers?: { url: string; description?: string }[];
+  tags?: { name: string; description?: string }[];
+  components?: {
+    schemas?: Record<string, JSONSchema>;
+    securitySchemes?: Record<string, Record<string, unknown>>;
+  };
+  security?: Record<string, string[]>[];
+}
+
+export interface DocsOptions extends OpenAPIOptions {
+  path?: string;
+  specPath?: string;
+}
+
+export interface OpenAPIParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  schema: JSONSchema;
+}
+
+export interface OpenAPIOperation {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+  security?: Record<string, string[]>[];
+  'x-requires'?: string;
+  parameters?: OpenAPIParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JSONSchema }> };
+  responses: Record<string, { description: string; content?: Record<string, { schema: JSONSchema }> }>;
+}
+
+export interface OpenAPIDocument extends Omit<OpenAPIOptions, 'info'> {
+  openapi: '3.1.0';
+  info: OpenAPIInfo;
+  paths: Record<string, Partial<Record<Lowercase<HTTPMethod>, OpenAPIOperation>>>;
+}
+
+export declare function toJSONSchema(schema: StandardSchemaV1): JSONSchema;
+
+// Typed RPC client
+export interface Endpoint<TParams = {}, TQuery = {}, TBody = unknown, TResponse = ResponseEntry> {
+  params: TParams;
+  query: TQuery;
+  body: TBody;
+  response: TResponse;
+}
+
+export interface ResponseEntry<TStatus extends number = number, TData = unknown> {
+  status: TStatus;
+  data: TData;
+}
+
+export type RouteMap = { [path: string]: { [method: string]: Endpoint<any, any, any, any> } };
+
+type HandlerResult = Response | Promise<Response>;
+
+type AddRoute<TRoutes, TMethod extends HTTPMethod, TPath extends string, TEndpoint> =
+  TRoutes & { [P in TPath]: { [M in TMethod]: TEndpoint } };
+
+type PrefixRoutes<TPrefix extends string, TRoutes> = {
+  [P in keyof TRoutes & string as JoinPaths<TPrefix, P>]: TRoutes[P]
+};
+
+type ResponseEntries<R> = R extends Response
+  ? '~status' extends keyof R
+    ? R extends TypedResponse<infer T, infer S> ? ResponseEntry<S, T> : never
+    : ResponseEntry
+  : never;
+type SchemaEntries<M> = { [S in keyof M & number]: ResponseEntry<S, M[S]> }[keyof M & number];
+
+type PlainEndpoint<TPath extends string, TBody, TResult> =
+  Endpoint<PathParams<TPath>, Record<string, string>, TBody, ResponseEntries<Awaited<TResult>>>;
+type SchemaEndpoint<TPath extends string, TSchema extends RouteSchema, TResult> = Endpoint<
+  SchemaParams<TPath, TSchema>,
+  SchemaQuery<TSchema>,
+  SchemaBody<TSchema>,
+  TSchema['response'] extends object ? SchemaEntries<SchemaResponse<TSchema>> : ResponseEntries<Awaited<TResult>>
+>;
+
+export type AppRoutes<TApp> = TApp extends Imphnen<infer TRoutes> ? TRoutes : never;
+
+type QueryValue = string | number | boolean;
+type ClientParams<P> = { [K in keyof P]: P[K] extends string ? string | number : P[K] };
+type ClientQuery<Q> = { [K in keyof Q]: Q[K] extends string ? QueryValue | QueryValue[] : Q[K] };
+
+export type ClientRequestOptions<E extends Endpoint<any, any, any, any>> =
+  (keyof E['params'] extends never
+    ? { params?: {} }
+    : {} extends E['params'] ? { params?: ClientParams<E['params']> } : { params: ClientParams<E['params']> }) &
+  ({} extends E['query'] ? { query?: ClientQuery<E['query']> } : { query: ClientQuery<E['query']> }) &
+  (unknown extends E['body'] ? { json?: unknown } : undefined extends E['body'] ? { json?: E['body'] } : { json: E['body'] }) & {
+    headers?: Record<string, string>;
+    init?: Omit<RequestInit, 'method' | 'headers' | 'body'>;
+  };
+
+export type ClientResponse<TEntry> = TEntry extends ResponseEntry<infer S, infer T>
+  ? { status: S; ok: boolean; headers: Headers; data: T; raw: Response }
+  : never;
+
+type PathsFor<TRoutes, M extends HTTPMethod> = {
+  [P in keyof TRoutes & string]: M extends keyof TRoutes[P] ? P : never
+}[keyof TRoutes & string];
+type EndpointAt<TRoutes, P, M extends HTTPMethod> = P extends keyof TRoutes
+  ? M extends keyof TRoutes[P] ? TRoutes[P][M] extends Endpoint<any, any, any, any> ? TRoutes[P][M] : never : never
+  : never;
+type MethodCall<TRoutes, M extends HTTPMethod> = <P extends PathsFor<TRoutes, M>>(
+  path: P,
+  ...args: {} extends ClientRequestOptions<EndpointAt<TRoutes, P, M>>
+    ? [options?: ClientRequestOptions<EndpointAt<TRoutes, P, M>>]
+    : [options: ClientRequestOptions<EndpointAt<TRoutes, P, M>>]
+) => Promise<ClientResponse<EndpointAt<TRoutes, P, M>['response']>>;
+
+export type Client<TRoutes> = {
+  get: MethodCall<TRoutes, 'GET'>;
+  post: MethodCall<TRoutes, 'POST'>;
+  put: MethodCall<TRoutes, 'PUT'>;
+  delete: MethodCall<TRoutes, 'DELETE'>;
+  patch: MethodCall<TRoutes, 'PATCH'>;
+  head: MethodCall<TRoutes, 'HEAD'>;
+  options: MethodCall<TRoutes, 'OPTIONS'>;
+};
+
+export interface ClientOptions {
+  fetch?: (request: Request) => Response | Promise<Response>;
+  headers?: Record<string, string>;
+}
+
+export declare function createClient<TApp extends Imphnen<any>>(baseUrl: string, options?: ClientOptions): Client<AppRoutes<TApp>>;
+
+// In-process testing
+export interface InjectOptions {
+  method?: string;
+  path: string;
+  query?: Record<string, string | number | boolean | (string | number | boolean)[] | undefined>;
+  headers?: Record<string, string>;
+  json?: unknown;
+  form?: Record<string, string | Blob | (string | Blob)[]>;
+  files?: Record<string, Blob | Blob[]>;
+  body?: RequestInit['body'];
+  cookies?: Record<string, string>;
+  jar?: CookieJar;
+  ip?: string;
+}
+
+export type RequestOptions = Omit<InjectOptions, 'path'>;
+export type WebSocketInjectOptions = Pick<InjectOptions, 'query' | 'headers' | 'cookies' | 'jar'>;
+
+export declare class CookieJar {
+  get(name: string): string | undefined;
+  set(name: string, value: string): this;
+  delete(name: string): boolean;
+  clear(): void;
+  store(response: Response): void;
+  toJSON(): Record<string, string>;
+}
+
+export declare class TestResponse {
+  readonly raw: Response;
+  readonly status: number;
+  readonly ok: boolean;
+  readonly headers: Headers;
+  readonly cookies: Record<string, string>;
+  constructor(raw: Response);
+  text(): Promise<string>;
+  json(): Promise<any>;
+  expectStatus(status: number): this;
+  expectHeader(name: string, expected?: string | RegExp): this;
+}
+
+export declare class TestWebSocket {
+  readonly messages: (string | Buffer)[];
+  readonly closed: boolean;
+  closeCode?: number;
+  closeReason?: string;
+  send(message: string | Buffer): Promise<void>;
+  close(code?: number, reason?: string): Promise<void>;
+  nextMessage(timeoutMs?: number): Promise<string | Buffer>;
+}
+
+export type GroupMiddleware = Middleware<any> | MiddlewarePipeline<any, any, any, any>;
+
+export type GroupCallback<TPrefix extends string, TGroupRoutes extends RouteMap = {}> =
+  (group: RouteGroup<TPrefix>) => RouteGroup<TPrefix, TGroupRoutes> | void;
+
+type GroupWithRoute<TPrefix extends string, TRoutes extends RouteMap, TMethod extends HTTPMethod, TPath extends string, TEndpoint extends Endpoint<any, any, any, any>> =
+  RouteGroup<TPrefix, AddRoute<TRoutes, TMethod, JoinPaths<TPrefix, TPath>, TEndpoint>>;
+
+export interface GroupOptions {
+  middleware?: GroupMiddleware | GroupMiddleware[];
+}
+
+type TrimSlash<P extends string> = P extends `${infer Base}/` ? Base : P;
+
+export type JoinPaths<TPrefix extends string, TPath extends string> =
+  TPath extends '' | '/'
+    ? (TrimSlash<TPrefix> extends '' ? '/' : TrimSlash<TPrefix>)
+    : TPath extends `/${string}` ? `${TrimSlash<TPrefix>}${TPath}` : `${TrimSlash<TPrefix>}/${TPath}`;
+
+export declare class RouteGroup<TPrefix extends string = '', TRoutes extends RouteMap = {}> {
+  readonly '~routes'?: TRoutes;
+
+  use(middleware: GroupMiddleware): this;
+  
+  group<TSubPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TSubPrefix,
+    callback: GroupCallback<JoinPaths<TPrefix, TSubPrefix>, TGroupRoutes>
+  ): RouteGroup<TPrefix, TRoutes & TGroupRoutes>;
+  group<TSubPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TSubPrefix,
+    options: GroupOptions,
+    callback: GroupCallback<JoinPaths<TPrefix, TSubPrefix>, TGroupRoutes>
+  ): RouteGroup<TPrefix, TRoutes & TGroupRoutes>;
+  group<TSubPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TSubPrefix,
+    ...args: [...middlewares: GroupMiddleware[], callback: GroupCallback<JoinPaths<TPrefix, TSubPrefix>, TGroupRoutes>]
+  ): RouteGroup<TPrefix, TRoutes & TGroupRoutes>;
+  group<TSubPrefix extends string>(prefix: TSubPrefix, options?: GroupOptions): RouteGroup<JoinPaths<TPrefix, TSubPrefix>>;
+  group<TSubPrefix extends string>(prefix: TSubPrefix, ...middlewares: GroupMiddleware[]): RouteGroup<JoinPaths<TPrefix, TSubPrefix>>;
+  
+  get<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): GroupWithRoute<TPrefix, TRoutes, 'GET', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  get<TPath extends string, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown>) => TResult]
+  ): GroupWithRoute<TPrefix, TRoutes, 'GET', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, unknown, TResult>>;
+  get<TPath extends string, TState extends MiddlewareState, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, unknown, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown, TState>) => TResult
+  ): GroupWithRoute<TPrefix, TRoutes, 'GET', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, unknown, TResult>>;
+  
+  post<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): GroupWithRoute<TPrefix, TRoutes, 'POST', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  post<TPath extends string, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>) => TResult]
+  ): GroupWithRoute<TPrefix, TRoutes, 'POST', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  post<TPath extends string, TState extends MiddlewareState, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, TBody, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody, TState>) => TResult
+  ): GroupWithRoute<TPrefix, TRoutes, 'POST', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  
+  put<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): GroupWithRoute<TPrefix, TRoutes, 'PUT', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  put<TPath extends string, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>) => TResult]
+  ): GroupWithRoute<TPrefix, TRoutes, 'PUT', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  put<TPath extends string, TState extends MiddlewareState, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, TBody, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody, TState>) => TResult
+  ): GroupWithRoute<TPrefix, TRoutes, 'PUT', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  
+  delete<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): GroupWithRoute<TPrefix, TRoutes, 'DELETE', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  delete<TPath extends string, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown>) => TResult]
+  ): GroupWithRoute<TPrefix, TRoutes, 'DELETE', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, unknown, TResult>>;
+  delete<TPath extends string, TState extends MiddlewareState, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, unknown, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown, TState>) => TResult
+  ): GroupWithRoute<TPrefix, TRoutes, 'DELETE', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, unknown, TResult>>;
+  
+  patch<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): GroupWithRoute<TPrefix, TRoutes, 'PATCH', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  patch<TPath extends string, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>) => TResult]
+  ): GroupWithRoute<TPrefix, TRoutes, 'PATCH', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  patch<TPath extends string, TState extends MiddlewareState, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, TBody, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody, TState>) => TResult
+  ): GroupWithRoute<TPrefix, TRoutes, 'PATCH', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  
+  route<
+    TPath extends string,
+    TState extends MiddlewareState,
+    TBody = unknown,
+    TMethod extends HTTPMethod = HTTPMethod,
+    TResult extends HandlerResult = HandlerResult
+  >(
+    method: TMethod,
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, any, TBody, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, any, TBody, TState>) => TResult
+  ): GroupWithRoute<TPrefix, TRoutes, TMethod, TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  
+  proxy(path: string, options: ProxyOptions): this;
+}
+
 export declare function createStateMiddleware<
   TParams extends Record<string, string> = {},
   TQuery extends Record<string, string> = {},
@@ -245,19 +1223,21 @@ export declare function createStateMiddleware<
 ): PipelineMiddleware<TParams, TQuery, TBody, TInputState, TOutputState>;
 
 export declare const BuiltinMiddleware: {
-  auth: <TUser = { id: string; email: string }>() => PipelineMiddleware<any, any, any, {}, { user: TUser }>;
-  cors: (options?: CorsOptions) => PipelineMiddleware<any, any, any, any, any>;
+  auth: <TUser = JWTPayload, TClaims extends JWTPayload = JWTPayload>(options: AuthOptions<TUser, TClaims>) => PipelineMiddleware<any, any, any, {}, { user: TUser }>;
+  basicAuth: <TUser = { username: string }>(options: BasicAuthOptions<TUser>) => PipelineMiddleware<any, any, any, {}, { user: TUser }>;
+  apiKey: <TUser = { key: string }>(options: APIKeyOptions<TUser>) => PipelineMiddleware<any, any, any, {}, { user: TUser }>;
+  tokenAuth: <TUser>(options: TokenAuthOptions<TUser>) => PipelineMiddleware<any, any, any, {}, { user: TUser }>;
+  session: <TData extends SessionData = SessionData>(options?: SessionOptions) => PipelineMiddleware<any, any, any, {}, { session: Session<TData> }>;
+  csrf: (options?: CSRFOptions) => PipelineMiddleware<any, any, any, {}, { csrfToken: string }>;
+  securityHeaders: (options?: SecurityHeadersOptions) => PipelineMiddleware<any, any, any, {}, { cspNonce: string }>;
+  cors: (options?: CorsOptions) => (ctx: ContextWithState<any, any, any, any>, next: () => Promise<Response>) => Promise<Response>;
   logger: (prefix?: string) => PipelineMiddleware<any, any, any, any, any>;
-  rateLimit: (options: { 
-    windowMs: number;
-    maxRequests: number;
-    keyGenerator?: (ctx: any) => string;
-  }) => PipelineMiddleware<any, any, any, any, any>;
-  validate: <TSchema>(schema: {
-    body?: (data: unknown) => data is TSchema;
-    query?: (data: unknown) => boolean;
-    params?: (data: unknown) => boolean;
-  }) => PipelineMiddleware<any, any, any, {}, { validatedBody: TSchema }>;
+  rateLimit: (options: RateLimitOptions) => (ctx: ContextWithState<any, any, any, any>, next: () => Promise<Response>) => Promise<Response>;
+  validate: <TSchema, TQuery = Record<string, string>, TParams = Record<string, string>>(schema: {
+    body?: ((data: unknown) => data is TSchema) | StandardSchemaV1<unknown, TSchema>;
+    query?: ((data: unknown) => boolean) | StandardSchemaV1<unknown, TQuery>;
+    params?: ((data: unknown) => boolean) | StandardSchemaV1<unknown, TParams>;
+  }) => PipelineMiddleware<any, any, any, {}, { validatedBody: TSchema; validatedQuery: TQuery; validatedParams: TParams }>;
   fileUpload: (options?: UploadOptions) => PipelineMiddleware<any, any, any, any, any>;
   static: (options: { root: string; prefix?: string }) => PipelineMiddleware<any, any, any, any, any>;
   proxy: (options: ProxyOptions) => PipelineMiddleware<any, any, any, any, any>;
@@ -272,6 +1252,63 @@ export declare const combine: typeof combineMiddleware;
 
 export declare type MiddlewareChain<T extends MiddlewareState = {}> = PipelineMiddleware<any, any, any, {}, T>[];
 
+// HTTP errors
+export interface HttpErrorOptions {
+  details?: unknown;
+  headers?: Record<string, string>;
+  cause?: unknown;
+}
+
+export declare class HttpError extends Error {
+  readonly status: number;
+  readonly details?: unknown;
+  readonly headers: Record<string, string>;
+  constructor(status: number, message?: string, options?: HttpErrorOptions);
+  toJSON(): { error: string; status: number; details?: unknown };
+}
+
+export declare class BadRequestError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class UnauthorizedError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class ForbiddenError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class NotFoundError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class MethodNotAllowedError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class ConflictError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class PayloadTooLargeError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class UnsupportedMediaTypeError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class UnprocessableEntityError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class TooManyRequestsError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class InternalServerError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+export declare class ServiceUnavailableError extends HttpError { constructor(message?: string, options?: HttpErrorOptions); }
+
+export interface ValidationIssue {
+  in: 'body' | 'query' | 'params' | 'headers' | 'response';
+  path: string;
+  message: string;
+}
+
+export declare class ValidationError extends HttpError {
+  readonly issues: ValidationIssue[];
+  constructor(issues: ValidationIssue[], status?: 400 | 422, options?: Omit<HttpErrorOptions, 'details'>);
+}
+
+export type JWTErrorCode =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'invalid_signature'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'no_matching_key'
+  | 'invalid_key';
+
+export declare class JWTError extends UnauthorizedError {
+  readonly code: JWTErrorCode;
+  constructor(code: JWTErrorCode, message: string, options?: Omit<HttpErrorOptions, 'headers'>);
+}
+
+export declare function isHttpError(error: unknown): error is HttpError;
+
 // Main factory functions
 export declare function createApp(options?: ImphnenOptions): Imphnen;
 export declare const createEnhancedApp: typeof createApp;
@@ -5,6 +5,7 @@ import type {
   Handler, 
   Middleware, 
   RouteDefinition, 
+  RouteInfo,
   ImphnenOptions,
   RouteParams,
   UploadedFile,
@@ -12,10 +13,34 @@ import type {
   CombinedMiddleware,
   WebSocketHandler,
   WebSocketRoute,
-  WebSocketContext
+  WebSocketData,
+  ErrorHandler,
+  Context,
+  OnRequestHook,
+  BeforeHandleHook,
+  AfterHandleHook,
+  OnResponseHook,
+  ServerHandle
 } from './types.js';
-import { matchRoute, parseURLParams, parseQuery, parseBody, combineMiddleware, MiddlewareChain, proxyRequest } from './utils.js';
-import { createContext } from './context.js';
+import { parseQuery, parseBody, parsesBody, combineMiddleware, MiddlewareChain, proxyRequest, stripBody } from './utils.js';
+import { Router } from './router.js';
+import { applyErrorHeaders, errorResponse, isHttpError } from './errors.js';
+import { createHooks, runOnRequest, runHandleHooks, scheduleOnResponse } from './hooks.js';
+import { ConnectionTracker, createServerHandle } from './server.js';
+import { buildRequest, TestResponse, TestWebSocket } from './testing.js';
+import type { InjectOptions, RequestOptions, WebSocketInjectOptions } from './testing.js';
+import { isRouteSchema, validateRequest, validateResponse } from './schema.js';
+import type { RouteSchema, SchemaHandlers } from './schema.js';
+import { createOpenAPIDocument, docsPage, docsPagePolicy } from './openapi.js';
+import type { DocsOptions, OpenAPIDocument, OpenAPIOptions, OperationSource } from './openapi.js';
+import type { AddRoute, HandlerResult, PlainEndpoint, PrefixRoutes, RouteMap, SchemaEndpoint } from './client.js';
+import { RouteGroup, parseGroupArgs, runGroupCallback, joinPaths } from './group.js';
+import type { GroupCallback, GroupMiddleware, GroupOptions, RouteRegistrar } from './group.js';
+import { createContext, createWebSocketContext, runWebSocketEvent } from './context.js';
+import { CookieKeyring, RequestCookies } from './cookies.js';
+import { createCors } from './cors.js';
+import type { Cors } from './cors.js';
+import { requirementsOf } from './guards.js';
 import { 
   MiddlewarePipeline, 
   BuiltinMiddleware,
@@ -34,19 +59,88 @@ interface PipelineRouteDefinition {
   handler: StateHandler<any, any, any, any>;
 }
 
-export class Imphnen {
+const ALL_METHODS: HTTPMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+// Sub-application or foreign fetch handler mounted under a path prefix
+interface MountDefinition {
+  prefix: string;
+  app?: Imphnen<any>;
+  fetch: (request: Request) => Response | Promise<Response>;
+}
+
+type CompiledRoute =
+  | { kind: 'pipeline'; route: PipelineRouteDefinition }
+  | { kind: 'route'; route: RouteDefinition }
+  | { kind: 'mount'; mount: MountDefinition };
+
+// Default 404, answering in JSON when the client asks for it
+const defaultNotFound: Handler<any> = (ctx) => {
+  const accept = ctx.headers.get('accept') || '';
+  return accept.includes('application/json')
+    ? ctx.json({ error: 'Not Found', status: 404 }, { status: 404 })
+    : ctx.text('Not Found', { status: 404 });
+};
+
+// Socket addresses of incoming requests, kept across rewrites and mounts
+const clientAddresses = new WeakMap<Request, string>();
+
+// A copy of `request` for another URL, keeping its client address
+function forward(request: Request, url: URL): Request {
+  const forwarded = new Request(url.toString(), request);
+  const address = clientAddresses.get(request);
+  if (address) clientAddresses.set(forwarded, address);
+  return forwarded;
+}
+
+// Path the mounted app sees, or null when the path is outside the prefix
+function stripPrefix(prefix: string, pathname: string): string | null {
+  if (prefix === '') return pathname;
+  if (pathname === prefix) return '/';
+  return pathname.startsWith(`${prefix}/`) ? pathname.slice(prefix.length) : null;
+}
+
+export class Imphnen<TRoutes extends RouteMap = {}> {
+  // Type-only record of the registered routes, read by `createClient()`
+  declare readonly '~routes'?: TRoutes;
+
   private routes: RouteDefinition[] = [];
   private pipelineRoutes: PipelineRouteDefinition[] = [];
   private globalMiddlewares: Middleware[] = [];
   private globalPipeline: MiddlewarePipeline = MiddlewarePipeline.create();
-  private options: ImphnenOptions;
+  private config: ImphnenOptions;
   private wsRoutes: WebSocketRoute[] = [];
+  private mounts: MountDefinition[] = [];
+  private errorHandler: ErrorHandler | null = null;
+  private notFoundHandler: Handler<any> = defaultNotFound;
+  private hooks = createHooks();
+  private router: Router<CompiledRoute> | null = null;
+  private wsRouter: Router<WebSocketRoute> | null = null;
+  private keyring: CookieKeyring | null = null;
+  private cors: Cors | null;
+
+  // Registration entry points handed to route groups
+  private registrar: RouteRegistrar = {
+    route: (method, path, middlewares, handler, schema) => {
+      this.addRoute(method, path, [...middlewares, handler], schema);
+    },
+    pipelineRoute: (method, path, pipeline, handler) => {
+      this.route(method, path, pipeline, handler);
+    },
+    proxy: (path, options, middlewares) => {
+      this.proxy(path, options, ...middlewares);
+    },
+    ws: (path, handler) => {
+      this.ws(path, handler);
+    },
+    validation: (schema) => this.schemaMiddlewares(schema)
+  };
 
   constructor(options: ImphnenOptions = {}) {
-    this.options = {
+    this.config = {
       port: 3000,
       hostname: 'localhost',
-      development: true,
+      // Error responses include stack traces in development, so it is never on by accident
+      development: process.env.NODE_ENV === 'development',
       cors: false,
       uploads: {
         maxFileSize: 10 * 1024 * 1024, // 10MB default
@@ -65,6 +159,8 @@ export class Imphnen {
       },
       ...options
     };
+    const { cors } = this.config;
+    this.cors = cors ? createCors(cors === true ? {} : cors) : null;
   }
 
   // Create a pipeline with initial state
@@ -76,14 +172,14 @@ export class Imphnen {
 
   // Add global middleware
   use<TParams extends Record<string, string> = {}, TQuery extends Record<string, string> = {}, TBody = unknown>(
-    middleware: Middleware<TParams, TQuery, TBody> | PipelineMiddleware<{}, {}, unknown, {}, any> | CombinedMiddleware<TParams, TQuery, TBody>
+    middleware: Middleware<TParams, TQuery, TBody> | PipelineMiddleware<{}, {}, unknown, {}, any> | CombinedMiddleware<TParams, TQuery, TBody> | MiddlewarePipeline<any, any, any, any>
   ): this {
     if (Array.isArray(middleware)) {
       // Handle combined middleware array
       this.globalMiddlewares.push(...(middleware as Middleware[]));
     } else if ('execute' in middleware) {
       // Handle pipeline middleware - add to global pipeline
-      this.globalPipeline = this.globalPipeline.use(middleware as any);
+      this.globalPipeline = this.globalPipeline.concat(middleware);
     } else {
       // Handle regular middleware
       this.globalMiddlewares.push(middleware as Middleware);
@@ -91,6 +187,39 @@ export class Imphnen {
     return this;
   }
 
+  // Central error handler for anything thrown while handling a request
+  onError(handler: ErrorHandler): this {
+    this.errorHandler = handler;
+    return this;
+  }
+
+  // Handler for requests that match no route; runs through global middleware
+  notFound(handler: Handler<any>): this {
+    this.notFoundHandler = handler;
+    return this;
+  }
+
+  // Lifecycle hooks
+  onRequest(hook: OnRequestHook): this {
+    this.hooks.onRequest.push(hook);
+    return this;
+  }
+
+  beforeHandle(hook: BeforeHandleHook): this {
+    this.hooks.beforeHandle.push(hook);
+    return this;
+  }
+
+  afterHandle(hook: AfterHandleHook): this {
+    this.hooks.afterHandle.push(hook);
+    return this;
+  }
+
+  onResponse(hook: OnResponseHook): this {
+    this.hooks.onResponse.push(hook);
+    return this;
+  }
+
   // Middleware combination utilities
   combine<TParams extends Record<string, string> = {}, TQuery extends Record<string, string> = {}, TBody = unknown>(
     ...middlewares: Middleware<TParams, TQuery, TBody>[]
@@ -106,20 +235,23 @@ export class Imphnen {
   route<
     TPath extends string,
     TState extends MiddlewareState,
-    TBody = unknown
+    TBody = unknown,
+    TMethod extends HTTPMethod = HTTPMethod,
+    TResult extends HandlerResult = HandlerResult
   >(
-    method: HTTPMethod,
+    method: TMethod,
     path: TPath,
     pipeline: MiddlewarePipeline<any, any, TBody, TState>,
-    handler: StateHandler<any, any, TBody, TState>
-  ): this {
+    handler: (ctx: ContextWithState<any, any, TBody, TState>) => TResult
+  ): Imphnen<AddRoute<TRoutes, TMethod, TPath, PlainEndpoint<TPath, TBody, TResult>>> {
     this.pipelineRoutes.push({
       method,
       path,
       pipeline,
       handler
     });
-    return this;
+    this.router = null;
+    return this as Imphnen<any>;
   }
 
   // WebSocket route registration
@@ -131,174 +263,258 @@ export class Imphnen {
       path,
       handler: handler as WebSocketHandler<any>
     });
+    this.wsRouter = null;
     return this;
   }
 
   // Proxy routes
-  proxy(path: string, options: ProxyOptions): this {
-    this.routes.push({
-      method: 'GET',
-      path,
-      handler: async (ctx) => {
-        return await ctx.proxy(options);
-      },
-      middlewares: []
-    });
-
-    // Also handle other HTTP methods for proxy
-    const proxyMethods: HTTPMethod[] = ['POST', 'PUT', 'DELETE', 'PATCH'];
+  proxy(path: string, options: ProxyOptions, ...middlewares: Middleware<any>[]): this {
+    // Every method except HEAD/OPTIONS, which are answered automatically
+    const proxyMethods: HTTPMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
     proxyMethods.forEach(method => {
-      this.routes.push({
-        method,
-        path,
-        handler: async (ctx) => {
+      this.addRoute(method, path, [
+        ...middlewares,
+        async (ctx) => {
           return await ctx.proxy(options);
-        },
-        middlewares: []
-      });
+        }
+      ]);
     });
 
     return this;
   }
 
-  // HTTP method handlers with enhanced overloads
-  get<TPath extends string, TState extends MiddlewareState = {}>(
+  // Delegate every request under the prefix to another app or fetch handler
+  mount<TPrefix extends string, TMounted extends RouteMap = {}>(
+    prefix: TPrefix,
+    app: Imphnen<TMounted> | ((request: Request) => Response | Promise<Response>)
+  ): Imphnen<TRoutes & PrefixRoutes<TPrefix, TMounted>> {
+    const normalized = prefix.endsWith('/') ? prefix.slice(0, -1) : prefix;
+
+    this.mounts.push(app instanceof Imphnen
+      ? { prefix: normalized, app, fetch: app.handler }
+      : { prefix: normalized, fetch: app }
+    );
+    this.router = null;
+    return this as Imphnen<any>;
+  }
+
+  // Route group sharing a path prefix and middlewares
+  // With a callback, the app is returned with the routes the callback chained
+  group<TPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TPrefix,
+    callback: GroupCallback<TPrefix, TGroupRoutes>
+  ): Imphnen<TRoutes & TGroupRoutes>;
+  group<TPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TPrefix,
+    options: GroupOptions,
+    callback: GroupCallback<TPrefix, TGroupRoutes>
+  ): Imphnen<TRoutes & TGroupRoutes>;
+  group<TPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TPrefix,
+    ...args: [...middlewares: GroupMiddleware[], callback: GroupCallback<TPrefix, TGroupRoutes>]
+  ): Imphnen<TRoutes & TGroupRoutes>;
+  group<TPrefix extends string>(prefix: TPrefix, options?: GroupOptions): RouteGroup<TPrefix>;
+  group<TPrefix extends string>(prefix: TPrefix, ...middlewares: GroupMiddleware[]): RouteGroup<TPrefix>;
+  group(prefix: string, ...args: unknown[]): RouteGroup<any> | Imphnen<any> {
+    const { middlewares, callback } = parseGroupArgs(args);
+    const group = new RouteGroup(this.registrar, prefix, middlewares);
+    if (!callback) return group;
+    runGroupCallback(callback, group);
+    return this;
+  }
+
+
+  // HTTP method handlers with enhanced overloads; each registration adds the
+  // route to the app type for `createClient()`
+  get<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'GET', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  get<TPath extends string, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
     ...args: [
       ...Middleware<any>[],
-      Handler<any>
+      (ctx: Context<any>) => TResult
     ] | [
       MiddlewarePipeline<any, {}, unknown, TState>,
-      StateHandler<any, {}, unknown, TState>
+      (ctx: ContextWithState<any, {}, unknown, TState>) => TResult
     ] | [
-      StateHandler<any, {}, unknown, {}>
+      (ctx: ContextWithState<any, {}, unknown, {}>) => TResult
     ]
-  ): this {
-    if (args.length === 2 && 'execute' in args[0]) {
-      // Pipeline + handler
-      const [pipeline, handler] = args as [MiddlewarePipeline<any, {}, unknown, TState>, StateHandler<any, {}, unknown, TState>];
-      return this.route('GET', path, pipeline, handler);
-    } else if (args.length === 1) {
-      // Just handler
-      const [handler] = args as [Handler<any>];
-      return this.addRoute('GET', path, [handler]);
-    } else {
-      // Middlewares + handler
-      const allArgs = args as [...Middleware<any>[], Handler<any>];
-      return this.addRoute('GET', path, allArgs);
-    }
+  ): Imphnen<AddRoute<TRoutes, 'GET', TPath, PlainEndpoint<TPath, unknown, TResult>>>;
+  get(path: string, ...args: unknown[]): Imphnen<any> {
+    return this.register('GET', path, args);
   }
 
-  post<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}>(
+  post<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'POST', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  post<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
     ...args: [
       ...Middleware<any, {}, TBody>[],
-      Handler<any, {}, TBody>
+      (ctx: Context<any, {}, TBody>) => TResult
     ] | [
       MiddlewarePipeline<any, {}, TBody, TState>,
-      StateHandler<any, {}, TBody, TState>
+      (ctx: ContextWithState<any, {}, TBody, TState>) => TResult
     ] | [
-      Handler<any, {}, TBody>
+      (ctx: Context<any, {}, TBody>) => TResult
     ]
-  ): this {
-    if (args.length === 2 && 'execute' in args[0]) {
-      // Pipeline + handler
-      const [pipeline, handler] = args as [MiddlewarePipeline<any, {}, TBody, TState>, StateHandler<any, {}, TBody, TState>];
-      return this.route('POST', path, pipeline, handler);
-    } else if (args.length === 1) {
-      // Just handler
-      const [handler] = args as [Handler<any, {}, TBody>];
-      return this.addRoute('POST', path, [handler as Handler]);
-    } else {
-      // Middlewares + handler
-      const allArgs = args as [...Middleware<any, {}, TBody>[], Handler<any, {}, TBody>];
-      return this.addRoute('POST', path, allArgs as [...Middleware[], Handler]);
-    }
+  ): Imphnen<AddRoute<TRoutes, 'POST', TPath, PlainEndpoint<TPath, TBody, TResult>>>;
+  post(path: string, ...args: unknown[]): Imphnen<any> {
+    return this.register('POST', path, args);
   }
 
-  put<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}>(
+  put<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'PUT', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  put<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
     ...args: [
       ...Middleware<any, {}, TBody>[],
-      Handler<any, {}, TBody>
+      (ctx: Context<any, {}, TBody>) => TResult
     ] | [
       MiddlewarePipeline<any, {}, TBody, TState>,
-      StateHandler<any, {}, TBody, TState>
+      (ctx: ContextWithState<any, {}, TBody, TState>) => TResult
     ] | [
-      Handler<any, {}, TBody>
+      (ctx: Context<any, {}, TBody>) => TResult
     ]
-  ): this {
-    if (args.length === 2 && 'execute' in args[0]) {
-      // Pipeline + handler
-      const [pipeline, handler] = args as [MiddlewarePipeline<any, {}, TBody, TState>, StateHandler<any, {}, TBody, TState>];
-      return this.route('PUT', path, pipeline, handler);
-    } else if (args.length === 1) {
-      // Just handler
-      const [handler] = args as [Handler<any, {}, TBody>];
-      return this.addRoute('PUT', path, [handler as Handler]);
-    } else {
-      // Middlewares + handler
-      const allArgs = args as [...Middleware<any, {}, TBody>[], Handler<any, {}, TBody>];
-      return this.addRoute('PUT', path, allArgs as [...Middleware[], Handler]);
-    }
+  ): Imphnen<AddRoute<TRoutes, 'PUT', TPath, PlainEndpoint<TPath, TBody, TResult>>>;
+  put(path: string, ...args: unknown[]): Imphnen<any> {
+    return this.register('PUT', path, args);
   }
 
-  delete<TPath extends string, TState extends MiddlewareState = {}>(
+  delete<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'DELETE', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  delete<TPath extends string, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
     ...args: [
       ...Middleware<any>[],
-      Handler<any>
+      (ctx: Context<any>) => TResult
     ] | [
       MiddlewarePipeline<any, {}, unknown, TState>,
-      StateHandler<any, {}, unknown, TState>
+      (ctx: ContextWithState<any, {}, unknown, TState>) => TResult
     ] | [
-      StateHandler<any, {}, unknown, {}>
+      (ctx: ContextWithState<any, {}, unknown, {}>) => TResult
     ]
-  ): this {
-    if (args.length === 2 && 'execute' in args[0]) {
-      const [pipeline, handler] = args as [MiddlewarePipeline<any, {}, unknown, TState>, StateHandler<any, {}, unknown, TState>];
-      return this.route('DELETE', path, pipeline, handler);
-    } else if (args.length === 1) {
-      const [handler] = args as [Handler<any>];
-      return this.addRoute('DELETE', path, [handler]);
-    } else {
-      const allArgs = args as [...Middleware<any>[], Handler<any>];
-      return this.addRoute('DELETE', path, allArgs);
-    }
+  ): Imphnen<AddRoute<TRoutes, 'DELETE', TPath, PlainEndpoint<TPath, unknown, TResult>>>;
+  delete(path: string, ...args: unknown[]): Imphnen<any> {
+    return this.register('DELETE', path, args);
   }
 
-  patch<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}>(
+  patch<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<TPath, TSchema, TResult>
+  ): Imphnen<AddRoute<TRoutes, 'PATCH', TPath, SchemaEndpoint<TPath, TSchema, TResult>>>;
+  patch<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
     path: TPath,
     ...args: [
       ...Middleware<any, {}, TBody>[],
-      Handler<any, {}, TBody>
+      (ctx: Context<any, {}, TBody>) => TResult
     ] | [
       MiddlewarePipeline<any, {}, TBody, TState>,
-      StateHandler<any, {}, TBody, TState>
+      (ctx: ContextWithState<any, {}, TBody, TState>) => TResult
     ] | [
-      Handler<any, {}, TBody>
+      (ctx: Context<any, {}, TBody>) => TResult
     ]
-  ): this {
-    if (args.length === 2 && 'execute' in args[0]) {
+  ): Imphnen<AddRoute<TRoutes, 'PATCH', TPath, PlainEndpoint<TPath, TBody, TResult>>>;
+  patch(path: string, ...args: unknown[]): Imphnen<any> {
+    return this.register('PATCH', path, args);
+  }
+
+  // Explicit HEAD handler; without one, HEAD requests fall back to the GET route
+  head<TPath extends string, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [
+      ...Middleware<any>[],
+      (ctx: Context<any>) => TResult
+    ] | [
+      MiddlewarePipeline<any, {}, unknown, TState>,
+      (ctx: ContextWithState<any, {}, unknown, TState>) => TResult
+    ] | [
+      (ctx: ContextWithState<any, {}, unknown, {}>) => TResult
+    ]
+  ): Imphnen<AddRoute<TRoutes, 'HEAD', TPath, PlainEndpoint<TPath, unknown, TResult>>> {
+    return this.register('HEAD', path, args);
+  }
+
+  // Explicit OPTIONS handler; without one, OPTIONS requests answer with the allowed methods
+  options<TPath extends string, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [
+      ...Middleware<any>[],
+      (ctx: Context<any>) => TResult
+    ] | [
+      MiddlewarePipeline<any, {}, unknown, TState>,
+      (ctx: ContextWithState<any, {}, unknown, TState>) => TResult
+    ] | [
+      (ctx: ContextWithState<any, {}, unknown, {}>) => TResult
+    ]
+  ): Imphnen<AddRoute<TRoutes, 'OPTIONS', TPath, PlainEndpoint<TPath, unknown, TResult>>> {
+    return this.register('OPTIONS', path, args);
+  }
+
+  // Register the same handler for every HTTP method
+  all<TPath extends string, TBody = unknown, TState extends MiddlewareState = {}, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...args: [
+      ...Middleware<any, {}, TBody>[],
+      (ctx: Context<any, {}, TBody>) => TResult
+    ] | [
+      MiddlewarePipeline<any, {}, TBody, TState>,
+      (ctx: ContextWithState<any, {}, TBody, TState>) => TResult
+    ] | [
+      (ctx: Context<any, {}, TBody>) => TResult
+    ]
+  ): Imphnen<AddRoute<TRoutes, HTTPMethod, TPath, PlainEndpoint<TPath, TBody, TResult>>> {
+    for (const method of ALL_METHODS) {
+      this.register(method, path, args);
+    }
+    return this as Imphnen<any>;
+  }
+
+  // Dispatch the overloaded route arguments to pipeline or traditional registration
+  private register(method: HTTPMethod, path: string, args: unknown[]): Imphnen<any> {
+    if (args.length >= 2 && isRouteSchema(args[0])) {
+      // Validation runs ahead of the route's own middlewares, after global ones
+      const [schema, ...handlers] = args as [RouteSchema, ...Middleware[], Handler];
+      return this.addRoute(method, path, [...this.schemaMiddlewares(schema), ...handlers] as [...Middleware[], Handler], schema);
+    }
+
+    if (args.length === 2 && typeof args[0] === 'object' && args[0] !== null && 'execute' in args[0]) {
       // Pipeline + handler
-      const [pipeline, handler] = args as [MiddlewarePipeline<any, {}, TBody, TState>, StateHandler<any, {}, TBody, TState>];
-      return this.route('PATCH', path, pipeline, handler);
-    } else if (args.length === 1) {
-      // Just handler
-      const [handler] = args as [Handler<any, {}, TBody>];
-      return this.addRoute('PATCH', path, [handler as Handler]);
-    } else {
-      // Middlewares + handler
-      const allArgs = args as [...Middleware<any, {}, TBody>[], Handler<any, {}, TBody>];
-      return this.addRoute('PATCH', path, allArgs as [...Middleware[], Handler]);
+      const [pipeline, handler] = args as [MiddlewarePipeline<any, any, any, any>, StateHandler<any, any, any, any>];
+      return this.route(method, path, pipeline, handler);
     }
+
+    // Handler, optionally preceded by middlewares
+    return this.addRoute(method, path, args as [...Middleware[], Handler]);
+  }
+
+  // Request validation, plus the response check when enabled for development
+  private schemaMiddlewares(schema: RouteSchema): Middleware[] {
+    const middlewares = [validateRequest(schema)];
+    if (schema.response && this.config.development && this.config.responseValidation) {
+      middlewares.unshift(validateResponse(schema.response, this.config.responseValidation));
+    }
+    return middlewares;
   }
 
   // Helper to add traditional routes
   private addRoute<TPath extends string>(
     method: HTTPMethod,
     path: TPath,
-    handlers: [...Middleware[], Handler]
+    handlers: [...Middleware[], Handler],
+    schema?: RouteSchema
   ): this {
     if (handlers.length === 0) return this;
     
@@ -309,105 +525,251 @@ export class Imphnen {
       method,
       path,
       handler,
-      middlewares
+      middlewares,
+      schema
     });
+    this.router = null;
     
     return this;
   }
 
+  // Build the route trees once; registrations after this point trigger a rebuild
+  private compile(): void {
+    if (!this.router) {
+      const router = new Router<CompiledRoute>();
+      // Pipeline routes are inserted first so they still win ties on identical patterns
+      for (const route of this.pipelineRoutes) {
+        router.add(route.method, route.path, { kind: 'pipeline', route });
+      }
+      for (const route of this.routes) {
+        router.add(route.method, route.path, { kind: 'route', route });
+      }
+      // Mounts act as catch-alls, so the parent's own routes under the prefix still win
+      for (const mount of this.mounts) {
+        for (const method of ALL_METHODS) {
+          router.add(method, mount.prefix || '/', { kind: 'mount', mount });
+          router.add(method, `${mount.prefix}/*`, { kind: 'mount', mount });
+        }
+      }
+      this.router = router;
+    }
+
+    if (!this.wsRouter) {
+      const wsRouter = new Router<WebSocketRoute>();
+      for (const route of this.wsRoutes) {
+        wsRouter.add('GET', route.path, route);
+      }
+      this.wsRouter = wsRouter;
+    }
+  }
+
   // Enhanced request handler with file upload support
   private async handleRequest(request: Request): Promise<Response> {
-    const url = new URL(request.url);
+    let response: Response;
+    // The request routes see, which differs when an onRequest hook rewrote the URL
+    let routed = request;
+    try {
+      const url = new URL(request.url);
+      const early = await runOnRequest(this.hooks.onRequest, request, url);
+      if (url.href !== request.url) routed = forward(request, url);
+      response = early ?? await this.dispatch(routed, url);
+    } catch (error) {
+      response = await this.handleError(error, createContext(request, {}, {}, null));
+    }
+    // CORS headers go on every response, errors and 404s included
+    if (this.cors) {
+      response = await this.cors.apply(request, response);
+    }
+
+    scheduleOnResponse(this.hooks.onResponse, request, response, routed);
+    return response;
+  }
+
+  // Route the (possibly rewritten) request and run the matching handler
+  private async dispatch(request: Request, url: URL): Promise<Response> {
     const method = request.method as HTTPMethod;
     const pathname = url.pathname;
 
-    // Handle CORS if enabled
-    if (this.options.cors) {
-      if (method === 'OPTIONS') {
-        return this.handleCors(request);
-      }
-    }
+    const preflight = await this.cors?.preflight(request);
+    if (preflight) return preflight;
 
-    // Find matching pipeline route first
-    const pipelineRoute = this.pipelineRoutes.find(r => 
-      r.method === method && matchRoute(r.path, pathname)
-    );
+    this.compile();
+    // HEAD falls back to the GET route when no explicit HEAD handler exists
+    const match = this.router!.find(method, pathname)
+      ?? (method === 'HEAD' ? this.router!.find('GET', pathname) : null);
 
-    if (pipelineRoute) {
-      return await this.handlePipelineRoute(pipelineRoute, request, url, pathname, method);
+    if (!match) {
+      // The path exists under other methods: tell the client which ones
+      const allowed = this.allowedMethods(pathname);
+      const handler: Handler<any> = allowed.length === 0 ? this.notFoundHandler
+        : method === 'OPTIONS' ? () => new Response(null, { status: 204, headers: { 'Allow': allowed.join(', ') } })
+        : () => new Response('Method Not Allowed', { status: 405, headers: { 'Allow': allowed.join(', ') } });
+
+      // Runs through the global middlewares like any route, so e.g. a CORS pipeline answers preflights
+      const fallback: RouteDefinition = { method, path: pathname, handler, middlewares: [] };
+      const response = await this.handleRoute(fallback, request, url, {}, method);
+      return method === 'HEAD' ? await stripBody(response) : response;
     }
 
-    // Find matching traditional route
-    const route = this.routes.find(r => 
-      r.method === method && matchRoute(r.path, pathname)
-    );
+    if (match.value.kind === 'mount') {
+      // The parent's global middlewares and hooks guard its mounts like its own routes;
+      // the body is left unread for the mounted app
+      const mount = match.value.mount;
+      const forwarded: RouteDefinition = {
+        method,
+        path: pathname,
+        handler: () => this.handleMount(mount, request, url),
+        middlewares: []
+      };
+      return await this.handleRoute(forwarded, request, url, {}, method, false);
+    }
+
+    const response = match.value.kind === 'pipeline'
+      ? await this.handlePipelineRoute(match.value.route, request, url, match.params, method)
+      : await this.handleRoute(match.value.route, request, url, match.params, method);
+
+    return method === 'HEAD' ? await stripBody(response) : response;
+  }
+
+  // Forward the request with the mount prefix removed from its path
+  private async handleMount(mount: MountDefinition, request: Request, url: URL): Promise<Response> {
+    const childUrl = new URL(url);
+    childUrl.pathname = stripPrefix(mount.prefix, url.pathname) ?? '/';
+    return await mount.fetch(forward(request, childUrl));
+  }
 
-    if (!route) {
-      return new Response('Not Found', { status: 404 });
+  // Methods answerable for a path, including the implicit HEAD and OPTIONS
+  private allowedMethods(pathname: string): string[] {
+    const methods = this.router!.methods(pathname);
+    if (methods.length === 0) return methods;
+
+    if (methods.includes('GET') && !methods.includes('HEAD')) {
+      methods.push('HEAD');
+    }
+    if (!methods.includes('OPTIONS')) {
+      methods.push('OPTIONS');
     }
+    return methods;
+  }
 
+  private async handleRoute(
+    route: RouteDefinition,
+    request: Request,
+    url: URL,
+    params: Record<string, string>,
+    method: HTTPMethod,
+    readBody = true
+  ): Promise<Response> {
+    // Context exists before body parsing so parse errors reach the error handler
+    const cookies = this.requestCookies(request);
+    const ctx = createContext<Record<string, string>, Record<string, string>, unknown>(
+      request, params, parseQuery(url), null, undefined, cookies, this.clientIP(request)
+    );
+
+    let response: Response;
     try {
       // Parse request data with enhanced body and file support
-      const params = parseURLParams(route.path, pathname);
-      const query = parseQuery(url);
-      
-      const { body, files } = ['POST', 'PUT', 'PATCH'].includes(method) 
-        ? await parseBody(request, this.options.uploads) 
-        : { body: null, files: undefined };
-
-      // Create enhanced context
-      const ctx = createContext(request, params, query, body, files);
+      if (readBody && parsesBody(route.handler) && ['POST', 'PUT', 'PATCH'].includes(method)) {
+        const { body, files } = await parseBody(request, this.config.uploads);
+        ctx.body = body;
+        ctx.files = files;
+      }
 
       // Execute middleware chain and handler
-      const allMiddlewares = [...this.globalMiddlewares, ...route.middlewares];
+      const allMiddlewares = [...this.globalMiddlewares, ...this.globalPipelineMiddleware(), ...route.middlewares];
       
-      return await this.executeMiddlewareChain(
-        allMiddlewares,
-        route.handler,
-        ctx
+      response = await runHandleHooks(ctx, this.hooks.beforeHandle, this.hooks.afterHandle, () =>
+        this.executeMiddlewareChain(allMiddlewares, route.handler, ctx)
       );
 
     } catch (error) {
-      console.error('Request handling error:', error);
-      
-      // Enhanced error handling for file uploads
-      if (error instanceof Error && error.message.includes('File upload error')) {
-        return new Response(JSON.stringify({ error: error.message }), { 
-          status: 400,
-          headers: { 'content-type': 'application/json' }
-        });
+      response = await this.handleError(error, ctx);
+    }
+    // Cookies set before an error still reach the client
+    return cookies.applyTo(response);
+  }
+
+  // `ctx.cookies` for a request, sharing one keyring across requests
+  private requestCookies(request: Request): RequestCookies {
+    const { keys, defaults } = this.config.cookies ?? {};
+    if (keys?.length && !this.keyring) {
+      this.keyring = new CookieKeyring(keys);
+    }
+    return new RequestCookies(request.headers.get('cookie'), this.keyring, defaults);
+  }
+
+  // The client's address behind trusted proxies, else the socket's. Proxies append to X-Forwarded-For,
+  // so only the entries they added are trusted: the one `hops` from the end is the address the outermost saw
+  private clientIP(request: Request): string | undefined {
+    const trustProxy = this.config.proxy?.trustProxy;
+    if (trustProxy) {
+      const hops = trustProxy === true ? 1 : trustProxy;
+      const entries = request.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean) ?? [];
+      const forwarded = entries[Math.max(entries.length - hops, 0)] || request.headers.get('x-real-ip')?.trim();
+      if (forwarded) return forwarded;
+    }
+    return clientAddresses.get(request);
+  }
+
+  // Route errors through the registered error handler, falling back to the default response
+  private async handleError(error: unknown, ctx: Context<any, any, any>): Promise<Response> {
+    return applyErrorHeaders(ctx.req, await this.errorToResponse(error, ctx));
+  }
+
+  private async errorToResponse(error: unknown, ctx: Context<any, any, any>): Promise<Response> {
+    if (this.errorHandler) {
+      try {
+        return await this.errorHandler(error, ctx);
+      } catch (handlerError) {
+        console.error('Error handler failed:', handlerError);
+        return errorResponse(handlerError, this.config.development);
       }
-      
-      return new Response('Internal Server Error', { status: 500 });
     }
+
+    if (!isHttpError(error) || error.status >= 500) {
+      console.error('Request handling error:', error);
+    }
+    return errorResponse(error, this.config.development);
   }
 
   // WebSocket upgrade handler
-  private handleWebSocketUpgrade(request: Request, server: any): Response | undefined {
-    const url = new URL(request.url);
+  private handleWebSocketUpgrade(
+    request: Request,
+    server: any,
+    url: URL = new URL(request.url)
+  ): Response | undefined {
     const pathname = url.pathname;
 
     // Find matching WebSocket route
-    const wsRoute = this.wsRoutes.find(route => matchRoute(route.path, pathname));
+    this.compile();
+    const match = this.wsRouter!.find('GET', pathname);
     
-    if (!wsRoute) {
+    if (!match) {
+      // Let the mounted app owning this path upgrade on its own WebSocket routes
+      for (const mount of this.mounts) {
+        const childPath = stripPrefix(mount.prefix, pathname);
+        if (!mount.app || childPath === null) continue;
+
+        const childUrl = new URL(url);
+        childUrl.pathname = childPath;
+        return mount.app.handleWebSocketUpgrade(request, server, childUrl);
+      }
       return undefined; // No WebSocket route found
     }
 
-    // Parse route parameters and query
-    const params = parseURLParams(wsRoute.path, pathname);
+    const wsRoute = match.value;
+    const params = match.params;
     const query = parseQuery(url);
 
     // Upgrade to WebSocket
-    const success = server.upgrade(request, {
-      data: {
-        route: wsRoute,
-        params,
-        query,
-        headers: request.headers,
-        url
-      }
-    });
+    const data: WebSocketData = {
+      route: wsRoute,
+      params,
+      query,
+      headers: request.headers,
+      url
+    };
+    const success = server.upgrade(request, { data });
 
     return success ? undefined : new Response('WebSocket upgrade failed', { status: 400 });
   }
@@ -416,40 +778,51 @@ export class Imphnen {
     route: PipelineRouteDefinition,
     request: Request,
     url: URL,
-    pathname: string,
+    params: Record<string, string>,
     method: HTTPMethod
   ): Promise<Response> {
+    const cookies = this.requestCookies(request);
+    const baseCtx = createContext<Record<string, string>, Record<string, string>, unknown>(
+      request, params, parseQuery(url), null, undefined, cookies, this.clientIP(request)
+    );
+
+    let response: Response;
     try {
       // Parse request data with enhanced support
-      const params = parseURLParams(route.path, pathname);
-      const query = parseQuery(url);
-      
-      const { body, files } = ['POST', 'PUT', 'PATCH'].includes(method) 
-        ? await parseBody(request, this.options.uploads) 
-        : { body: null, files: undefined };
+      if (parsesBody(route.handler) && ['POST', 'PUT', 'PATCH'].includes(method)) {
+        const { body, files } = await parseBody(request, this.config.uploads);
+        baseCtx.body = body;
+        baseCtx.files = files;
+      }
 
       // Create context with state support
-      const baseCtx = createContext(request, params, query, body, files);
       const stateCtx: ContextWithState = {
         ...baseCtx,
         state: {}
       };
 
-      // Execute pipeline
-      return await route.pipeline.execute(stateCtx, route.handler);
+      // Global middlewares run first, then the global pipeline ahead of the route's own
+      const pipeline = this.globalPipeline.concat(route.pipeline);
+      response = await runHandleHooks(baseCtx, this.hooks.beforeHandle, this.hooks.afterHandle, () =>
+        this.executeMiddlewareChain(
+          this.globalMiddlewares,
+          () => pipeline.execute(stateCtx, route.handler),
+          baseCtx
+        )
+      );
 
     } catch (error) {
-      console.error('Pipeline request handling error:', error);
-      
-      if (error instanceof Error && error.message.includes('File upload error')) {
-        return new Response(JSON.stringify({ error: error.message }), { 
-          status: 400,
-          headers: { 'content-type': 'application/json' }
-        });
-      }
-      
-      return new Response('Internal Server Error', { status: 500 });
+      response = await this.handleError(error, baseCtx);
     }
+    return cookies.applyTo(response);
+  }
+
+  // The global pipeline as a plain middleware for routes without state
+  private globalPipelineMiddleware(): Middleware[] {
+    if (this.globalPipeline.isEmpty()) return [];
+    const pipeline = this.globalPipeline;
+    // Shares `ctx.state`, so what the pipeline adds reaches the route's middlewares and handler
+    return [(ctx, next) => pipeline.execute(ctx, () => next())];
   }
 
   private async executeMiddlewareChain(
@@ -478,112 +851,126 @@ export class Imphnen {
     return await next();
   }
 
-  private handleCors(request: Request): Response {
-    const corsOptions = typeof this.options.cors === 'object'
-      ? this.options.cors
-      : {};
-
-    const origin = corsOptions.origin;
-    const requestOrigin = request.headers.get('origin');
-
-    let allowOrigin = '*';
-    if (typeof origin === 'string') {
-      allowOrigin = origin;
-    } else if (Array.isArray(origin) && requestOrigin) {
-      allowOrigin = origin.includes(requestOrigin) ? requestOrigin : 'null';
-    } else if (requestOrigin) {
-      allowOrigin = requestOrigin;
-    }
-
-    return new Response(null, {
-      status: 204,
-      headers: {
-        'Access-Control-Allow-Origin': allowOrigin,
-        'Access-Control-Allow-Methods': 
-          corsOptions.methods?.join(', ') || 'GET, POST, PUT, DELETE, PATCH, OPTIONS',
-        'Access-Control-Allow-Headers': 
-          corsOptions.headers?.join(', ') || 'Content-Type, Authorization'
-      }
-    });
-  }
-
-  // Start the server with WebSocket support
-  async listen(port?: number): Promise<void> {
-    const serverPort = port || this.options.port || 3000;
+  // Start the server with WebSocket support; resolves to a handle for shutdown
+  async listen(port?: number): Promise<ServerHandle> {
+    const serverPort = port ?? this.config.port ?? 3000;
+    const tracker = new ConnectionTracker();
+    this.compile();
     
     const server = Bun.serve({
       port: serverPort,
-      hostname: this.options.hostname,
+      hostname: this.config.hostname,
       fetch: (request, server) => {
-        // Try WebSocket upgrade first
-        const wsResponse = this.handleWebSocketUpgrade(request, server);
-        if (wsResponse !== undefined) {
-          return wsResponse;
+        // Draining: refuse new work and ask keep-alive clients to reconnect elsewhere
+        if (tracker.closing) {
+          return new Response('Service Unavailable', {
+            status: 503,
+            headers: { 'Connection': 'close' }
+          });
         }
-        
-        // Handle regular HTTP request
-        return this.handleRequest(request);
+
+        const address = server.requestIP(request)?.address;
+        if (address) clientAddresses.set(request, address);
+
+        return tracker.track(() => {
+          // Try WebSocket upgrade first
+          const wsResponse = this.handleWebSocketUpgrade(request, server);
+          if (wsResponse !== undefined) {
+            return wsResponse;
+          }
+          
+          // Handle regular HTTP request
+          return this.handleRequest(request);
+        });
       },
       websocket: {
-        maxPayloadLength: this.options.websocket?.maxPayloadLength,
-        idleTimeout: this.options.websocket?.idleTimeout,
-        backpressureLimit: this.options.websocket?.backpressureLimit,
-        // compression: this.options.websocket?.compression, // Remove if not supported
+        maxPayloadLength: this.config.websocket?.maxPayloadLength,
+        idleTimeout: this.config.websocket?.idleTimeout,
+        backpressureLimit: this.config.websocket?.backpressureLimit,
+        // compression: this.config.websocket?.compression, // Remove if not supported
         
         open: (ws: any) => {
-          const data = ws.data as any;
-          const ctx: WebSocketContext = {
-            ws: ws as any, // Cast to match our interface
-            params: data.params,
-            query: data.query,
-            headers: data.headers,
-            url: data.url
-          };
-          
-          if (data.route?.handler?.open) {
-            data.route.handler.open(ctx);
-          }
+          tracker.sockets.add(ws);
+          const data = ws.data as WebSocketData;
+          const ctx = createWebSocketContext(ws, data);
+          const { handler } = data.route;
+          void runWebSocketEvent(handler, ctx, () => handler.open?.(ctx));
         },
         
         message: (ws: any, message: string | Buffer) => {
-          const data = ws.data as any;
-          const ctx: WebSocketContext = {
-            ws: ws as any, // Cast to match our interface
-            params: data.params,
-            query: data.query,
-            headers: data.headers,
-            url: data.url
-          };
-          
-          if (data.route?.handler?.message) {
-            data.route.handler.message(ctx, message);
-          }
+          const data = ws.data as WebSocketData;
+          const ctx = createWebSocketContext(ws, data);
+          const { handler } = data.route;
+          void runWebSocketEvent(handler, ctx, () => handler.message?.(ctx, message));
         },
         
         close: (ws: any, code?: number, reason?: string) => {
-          const data = ws.data as any;
-          const ctx: WebSocketContext = {
-            ws: ws as any, // Cast to match our interface
-            params: data.params,
-            query: data.query,
-            headers: data.headers,
-            url: data.url
-          };
-          
-          if (data.route?.handler?.close) {
-            data.route.handler.close(ctx, code, reason);
-          }
+          tracker.sockets.delete(ws);
+          const data = ws.data as WebSocketData;
+          const ctx = createWebSocketContext(ws, data);
+          const { handler } = data.route;
+          void runWebSocketEvent(handler, ctx, () => handler.close?.(ctx, code, reason));
         }
       },
-      development: this.options.development
+      development: this.config.development
     });
 
-    console.log(`🚀 Imphnen server running on http://${this.options.hostname}:${serverPort}`);
-    console.log(`📁 File uploads: ${this.options.uploads?.maxFileSize ? `Max ${this.options.uploads.maxFileSize} bytes` : 'Disabled'}`);
-    console.log(`🔗 Proxy support: ${this.options.proxy ? 'Enabled' : 'Disabled'}`);
+    console.log(`🚀 Imphnen server running on http://${this.config.hostname}:${server.port}`);
+    console.log(`📁 File uploads: ${this.config.uploads?.maxFileSize ? `Max ${this.config.uploads.maxFileSize} bytes` : 'Disabled'}`);
+    console.log(`🔗 Proxy support: ${this.config.proxy ? 'Enabled' : 'Disabled'}`);
     console.log(`🔌 WebSocket support: ${this.wsRoutes.length > 0 ? `${this.wsRoutes.length} routes` : 'No routes'}`);
     
-    return new Promise(() => {}); // Keep server running
+    return createServerHandle(server, tracker);
+  }
+
+  // OpenAPI 3.1 document describing the routes registered so far, including mounted apps
+  openapi(options: OpenAPIOptions): OpenAPIDocument {
+    return createOpenAPIDocument(options, this.operations(''));
+  }
+
+  // Serve the OpenAPI document and a docs page rendering it
+  docs(options: DocsOptions): this {
+    const { path = '/docs', specPath = '/openapi.json', ...document } = options;
+    const hidden = { detail: { hide: true } };
+
+    // Generated per request so routes registered later are included
+    this.get(specPath, hidden, (ctx) => ctx.json(this.openapi(document)));
+    this.get(path, hidden, (ctx) => {
+      // The page sends its own policy allowing its inline code, which the security headers middleware leaves in place
+      const nonce = Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString('base64');
+      return ctx.html(docsPage(document.info.title, specPath, nonce), {
+        headers: { 'Content-Security-Policy': docsPagePolicy(nonce) }
+      });
+    });
+    return this;
+  }
+
+  // Registered routes with the guards protecting them, including mounted apps
+  listRoutes(): RouteInfo[] {
+    return this.operations('').map(({ method, path, requirements = [] }) => ({ method, path, requirements }));
+  }
+
+  // Routes in router order, with mounted apps' routes under their prefix
+  private operations(prefix: string): OperationSource[] {
+    const global = [...requirementsOf(this.globalMiddlewares), ...this.globalPipeline.requirements()];
+    return [
+      ...this.pipelineRoutes.map(({ method, path, pipeline }) => ({
+        method,
+        path: joinPaths(prefix, path),
+        requirements: [...global, ...pipeline.requirements()]
+      })),
+      ...this.routes.map(({ method, path, schema, middlewares }) => ({
+        method,
+        path: joinPaths(prefix, path),
+        schema,
+        requirements: [...global, ...requirementsOf(middlewares)]
+      })),
+      // Mounted routes also run behind this app's global middlewares
+      ...this.mounts.flatMap(mount => (mount.app?.operations(joinPaths(prefix, mount.prefix)) ?? []).map(operation => ({
+        ...operation,
+        requirements: [...global, ...operation.requirements ?? []]
+      })))
+    ];
   }
 
   // Handler for external use
@@ -591,6 +978,42 @@ export class Imphnen {
     return this.handleRequest(request);
   };
 
+  // Run a request through the app in-process, without starting a server
+  async inject(options: InjectOptions): Promise<TestResponse> {
+    const request = buildRequest(options);
+    if (options.ip) clientAddresses.set(request, options.ip);
+    const response = await this.handleRequest(request);
+    options.jar?.store(response);
+    return new TestResponse(response);
+  }
+
+  // Shorthand for `inject()`: `app.request('/users', { method: 'POST', json })`
+  request(path: string, options: RequestOptions = {}): Promise<TestResponse> {
+    return this.inject({ ...options, path });
+  }
+
+  // Connect an in-memory WebSocket to the route matching `path`
+  async injectWebSocket(path: string, options: WebSocketInjectOptions = {}): Promise<TestWebSocket> {
+    const request = buildRequest({
+      ...options,
+      path,
+      headers: { 'upgrade': 'websocket', 'connection': 'Upgrade', ...options.headers }
+    });
+
+    let data: WebSocketData | undefined;
+    this.handleWebSocketUpgrade(request, {
+      upgrade: (_request: Request, upgrade: { data: WebSocketData }) => {
+        data = upgrade.data;
+        return true;
+      }
+    });
+
+    if (!data) {
+      throw new Error(`No WebSocket route matches ${path}`);
+    }
+    return TestWebSocket.open(data);
+  }
+
   // Access to built-in middleware
   static middleware = BuiltinMiddleware;
 }
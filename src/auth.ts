@@ -0,0 +1,162 @@
+// Basic, API key and token authentication middlewares for imphnen.js
+
+import { UnauthorizedError } from './errors.js';
+import type { ContextWithState, PipelineMiddleware } from './pipeline.js';
+
+// A principal, or a falsy value to reject the credentials
+export type Verified<TUser> = TUser | undefined | null | false;
+
+export interface BasicAuthOptions<TUser = { username: string }> {
+  // Realm shown by the browser's login prompt
+  realm?: string;
+  // Fixed username/password pairs, compared in constant time
+  users?: Record<string, string>;
+  // Checks the credentials and returns the user; used instead of `users`
+  verify?: (username: string, password: string, ctx: ContextWithState<any, any, any, {}>) => Verified<TUser> | Promise<Verified<TUser>>;
+}
+
+export interface APIKeyOptions<TUser = { key: string }> {
+  // Header to read the key from; `x-api-key` when no source is given
+  header?: string;
+  // Query parameter to read the key from
+  query?: string;
+  // Cookie to read the key from
+  cookie?: string;
+  // Looks the key up and returns its owner
+  verify: (key: string, ctx: ContextWithState<any, any, any, {}>) => Verified<TUser> | Promise<Verified<TUser>>;
+}
+
+export interface TokenAuthOptions<TUser> {
+  // Checks the token, e.g. against an OAuth introspection endpoint, and returns its owner
+  verify: (token: string, ctx: ContextWithState<any, any, any, {}>) => Verified<TUser> | Promise<Verified<TUser>>;
+  // Reads the token from the request; the `Authorization: Bearer` header by default
+  token?: (ctx: ContextWithState<any, any, any, {}>) => string | undefined;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Compares two strings in time that depends only on the length of `input`,
+ * so response times do not reveal how much of a secret was guessed.
+ */
+export function timingSafeEqual(input: string, secret: string): boolean {
+  const a = encoder.encode(input);
+  const b = encoder.encode(secret);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i]! ^ (b.length > 0 ? b[i % b.length]! : 0);
+  }
+  return diff === 0;
+}
+
+// The token of an `Authorization: Bearer` header
+export function bearerToken(ctx: ContextWithState<any, any, any, {}>): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(ctx.headers.get('authorization') ?? '');
+  return match?.[1];
+}
+
+function basicCredentials(header: string | null): { username: string; password: string } | undefined {
+  const match = /^Basic\s+([A-Za-z0-9+/]+=*)\s*$/i.exec(header ?? '');
+  if (!match) return undefined;
+
+  const decoded = new TextDecoder().decode(Buffer.from(match[1]!, 'base64'));
+  const colon = decoded.indexOf(':');
+  if (colon === -1) return undefined;
+  return { username: decoded.slice(0, colon), password: decoded.slice(colon + 1) };
+}
+
+/**
+ * HTTP Basic authentication (RFC 7617). Requests without valid credentials
+ * get a 401 with a `WWW-Authenticate` challenge, so browsers show a login
+ * prompt.
+ */
+export function createBasicAuthMiddleware<TUser = { username: string }>(
+  options: BasicAuthOptions<TUser>
+): PipelineMiddleware<any, any, any, {}, { user: TUser }> {
+  const { users, verify } = options;
+  if (!users && !verify) {
+    throw new Error('Basic authentication needs a `users` or `verify` option');
+  }
+
+  const challenge = {
+    headers: { 'WWW-Authenticate': `Basic realm="${(options.realm ?? 'Restricted').replace(/["\\]/g, '\\$&')}", charset="UTF-8"` }
+  };
+
+  const check = async (username: string, password: string, ctx: ContextWithState<any, any, any, {}>): Promise<Verified<TUser>> => {
+    if (verify) return await verify(username, password, ctx);
+    // Compare against a dummy for unknown users too, so timing does not reveal which names exist
+    const known = Object.hasOwn(users!, username);
+    const matches = timingSafeEqual(password, known ? users![username]! : '\0');
+    return known && matches && ({ username } as TUser);
+  };
+
+  return async (ctx, next) => {
+    const credentials = basicCredentials(ctx.headers.get('authorization'));
+    if (!credentials) {
+      throw new UnauthorizedError('Authentication required', challenge);
+    }
+
+    const user = await check(credentials.username, credentials.password, ctx);
+    if (!user) {
+      throw new UnauthorizedError('Invalid credentials', challenge);
+    }
+
+    (ctx.state as any).user = user;
+    return await next();
+  };
+}
+
+/**
+ * API key authentication. The key is read from the configured header,
+ * query parameter or cookie, in that order, and passed to `verify`.
+ */
+export function createAPIKeyMiddleware<TUser = { key: string }>(
+  options: APIKeyOptions<TUser>
+): PipelineMiddleware<any, any, any, {}, { user: TUser }> {
+  const header = options.header ?? (options.query || options.cookie ? undefined : 'x-api-key');
+
+  return async (ctx, next) => {
+    const key = (header && ctx.headers.get(header)) ||
+      (options.query && (ctx.query as Record<string, string>)[options.query]) ||
+      (options.cookie && ctx.cookies.get(options.cookie)) ||
+      undefined;
+    if (!key) {
+      throw new UnauthorizedError('API key required');
+    }
+
+    const user = await options.verify(key, ctx);
+    if (!user) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+
+    (ctx.state as any).user = user;
+    return await next();
+  };
+}
+
+/**
+ * Bearer token authentication with a custom check, for opaque tokens that
+ * are looked up in a database or an introspection endpoint (RFC 7662).
+ */
+export function createTokenAuthMiddleware<TUser>(
+  options: TokenAuthOptions<TUser>
+): PipelineMiddleware<any, any, any, {}, { user: TUser }> {
+  const readToken = options.token ?? bearerToken;
+
+  return async (ctx, next) => {
+    const token = readToken(ctx);
+    if (!token) {
+      throw new UnauthorizedError('Authentication required', { headers: { 'WWW-Authenticate': 'Bearer' } });
+    }
+
+    const user = await options.verify(token, ctx);
+    if (!user) {
+      throw new UnauthorizedError('Invalid token', {
+        headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' }
+      });
+    }
+
+    (ctx.state as any).user = user;
+    return await next();
+  };
+}
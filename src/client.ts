@@ -0,0 +1,207 @@
+// Typed RPC client for imphnen.js apps
+
+import type { HTTPMethod, PathParams, TypedResponse } from './types.js';
+import type { SchemaBody, SchemaParams, SchemaQuery, SchemaResponse, RouteSchema } from './schema.js';
+import type { Imphnen } from './app.js';
+import type { JoinPaths } from './group.js';
+
+// Request and response types of one registered route
+export interface Endpoint<TParams = {}, TQuery = {}, TBody = unknown, TResponse = ResponseEntry> {
+  params: TParams;
+  query: TQuery;
+  body: TBody;
+  // Union of the `{ status, data }` pairs the route can respond with
+  response: TResponse;
+}
+
+export interface ResponseEntry<TStatus extends number = number, TData = unknown> {
+  status: TStatus;
+  data: TData;
+}
+
+// Endpoints by path and method, accumulated by the app's route registrations
+export type RouteMap = { [path: string]: { [method: string]: Endpoint<any, any, any, any> } };
+
+export type AddRoute<TRoutes, TMethod extends HTTPMethod, TPath extends string, TEndpoint> =
+  TRoutes & { [P in TPath]: { [M in TMethod]: TEndpoint } };
+
+// Routes of a mounted app, moved under the mount prefix
+export type PrefixRoutes<TPrefix extends string, TRoutes> = {
+  [P in keyof TRoutes & string as JoinPaths<TPrefix, P>]: TRoutes[P]
+};
+
+
+// Responses a handler can return: typed `ctx.json()` responses keep their payload
+export type ResponseEntries<R> = R extends Response
+  ? '~status' extends keyof R
+    ? R extends TypedResponse<infer T, infer S> ? ResponseEntry<S, T> : never
+    : ResponseEntry
+  : never;
+
+type SchemaEntries<M> = { [S in keyof M & number]: ResponseEntry<S, M[S]> }[keyof M & number];
+
+export type HandlerResult = Response | Promise<Response>;
+
+export type PlainEndpoint<TPath extends string, TBody, TResult> =
+  Endpoint<PathParams<TPath>, Record<string, string>, TBody, ResponseEntries<Awaited<TResult>>>;
+
+// Declared response schemas take precedence over the handler's return type
+export type SchemaEndpoint<TPath extends string, TSchema extends RouteSchema, TResult> = Endpoint<
+  SchemaParams<TPath, TSchema>,
+  SchemaQuery<TSchema>,
+  SchemaBody<TSchema>,
+  TSchema['response'] extends object ? SchemaEntries<SchemaResponse<TSchema>> : ResponseEntries<Awaited<TResult>>
+>;
+
+// Route map of an app type, e.g. `AppRoutes<typeof app>`
+export type AppRoutes<TApp> = TApp extends Imphnen<infer TRoutes> ? TRoutes : never;
+
+type QueryValue = string | number | boolean;
+
+// Path params also accept numbers where the route takes strings
+type ClientParams<P> = { [K in keyof P]: P[K] extends string ? string | number : P[K] };
+type ClientQuery<Q> = { [K in keyof Q]: Q[K] extends string ? QueryValue | QueryValue[] : Q[K] };
+
+type ParamsOption<E extends Endpoint<any, any, any, any>> = keyof E['params'] extends never
+  ? { params?: {} }
+  : {} extends E['params'] ? { params?: ClientParams<E['params']> } : { params: ClientParams<E['params']> };
+type QueryOption<E extends Endpoint<any, any, any, any>> = {} extends E['query']
+  ? { query?: ClientQuery<E['query']> }
+  : { query: ClientQuery<E['query']> };
+type BodyOption<E extends Endpoint<any, any, any, any>> = unknown extends E['body']
+  ? { json?: unknown }
+  : undefined extends E['body'] ? { json?: E['body'] } : { json: E['body'] };
+
+export type ClientRequestOptions<E extends Endpoint<any, any, any, any>> = ParamsOption<E> & QueryOption<E> & BodyOption<E> & {
+  headers?: Record<string, string>;
+  // Extra `fetch` options such as `signal` or `credentials`
+  init?: Omit<RequestInit, 'method' | 'headers' | 'body'>;
+};
+
+// Options may be omitted when nothing in them is required
+type OptionsArgs<E extends Endpoint<any, any, any, any>> = {} extends ClientRequestOptions<E>
+  ? [options?: ClientRequestOptions<E>]
+  : [options: ClientRequestOptions<E>];
+
+// Parsed response, narrowed to the payload type by checking `status`
+export type ClientResponse<TEntry> = TEntry extends ResponseEntry<infer S, infer T>
+  ? { status: S; ok: boolean; headers: Headers; data: T; raw: Response }
+  : never;
+
+type PathsFor<TRoutes, M extends HTTPMethod> = {
+  [P in keyof TRoutes & string]: M extends keyof TRoutes[P] ? P : never
+}[keyof TRoutes & string];
+
+type EndpointAt<TRoutes, P, M extends HTTPMethod> = P extends keyof TRoutes
+  ? M extends keyof TRoutes[P] ? TRoutes[P][M] extends Endpoint<any, any, any, any> ? TRoutes[P][M] : never : never
+  : never;
+
+type MethodCall<TRoutes, M extends HTTPMethod> = <P extends PathsFor<TRoutes, M>>(
+  path: P,
+  ...args: OptionsArgs<EndpointAt<TRoutes, P, M>>
+) => Promise<ClientResponse<EndpointAt<TRoutes, P, M>['response']>>;
+
+export type Client<TRoutes> = {
+  get: MethodCall<TRoutes, 'GET'>;
+  post: MethodCall<TRoutes, 'POST'>;
+  put: MethodCall<TRoutes, 'PUT'>;
+  delete: MethodCall<TRoutes, 'DELETE'>;
+  patch: MethodCall<TRoutes, 'PATCH'>;
+  head: MethodCall<TRoutes, 'HEAD'>;
+  options: MethodCall<TRoutes, 'OPTIONS'>;
+};
+
+export interface ClientOptions {
+  // Fetch implementation, e.g. `app.handler` to call an app in-process
+  fetch?: (request: Request) => Response | Promise<Response>;
+  // Headers sent with every request
+  headers?: Record<string, string>;
+}
+
+interface RawRequestOptions {
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  json?: unknown;
+  headers?: Record<string, string>;
+  init?: RequestInit;
+}
+
+/**
+ * Fills the params of a route pattern. Optional params without a value drop
+ * their segment; constraints are removed from the pattern.
+ */
+function fillPath(pattern: string, params: Record<string, unknown>): string {
+  // Catch-all params keep their slashes
+  const encodeRest = (value: unknown) => String(value).split('/').map(encodeURIComponent).join('/');
+  const segments = pattern.split('/').flatMap(segment => {
+    if (segment === '*') return [encodeRest(params['*'] ?? '')];
+    if (!segment.startsWith(':')) return [segment];
+
+    const name = segment.slice(1).replace(/\(.*\)/, '').replace(/[?*]$/, '');
+    const value = params[name];
+    if (value === undefined) {
+      if (segment.endsWith('?')) return [];
+      throw new Error(`Missing value for route param "${name}" in ${pattern}`);
+    }
+    return [segment.endsWith('*') ? encodeRest(value) : encodeURIComponent(String(value))];
+  });
+  return segments.join('/') || '/';
+}
+
+async function parseResponse(response: Response): Promise<unknown> {
+  if (response.status === 204 || response.status === 304 || !response.body) return null;
+  const contentType = response.headers.get('content-type') || '';
+  return contentType.includes('application/json') ? await response.json() : await response.text();
+}
+
+/**
+ * Creates a client for the app type `TApp`. Paths, params, query, body and
+ * response types are inferred from the routes chained onto the app:
+ *
+ *   const app = createApp().get('/users/:id', (ctx: Context<{ id: string }>) => ctx.json({ id: ctx.params.id }));
+ *   const client = createClient<typeof app>('http://localhost:3000');
+ *   const res = await client.get('/users/:id', { params: { id: 1 } }); // res.data: { id: string }
+ */
+export function createClient<TApp extends Imphnen<any>>(
+  baseUrl: string,
+  options: ClientOptions = {}
+): Client<AppRoutes<TApp>> {
+  const base = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+  const fetcher = options.fetch ?? ((request: Request) => fetch(request));
+
+  const call = (method: HTTPMethod) => async (path: string, request: RawRequestOptions = {}) => {
+    const url = new URL(`${base}${fillPath(path, request.params ?? {})}`);
+    for (const [key, value] of Object.entries(request.query ?? {})) {
+      if (value === undefined) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        url.searchParams.append(key, String(item));
+      }
+    }
+
+    const headers = new Headers({ ...options.headers, ...request.headers });
+    let body: string | undefined;
+    if (request.json !== undefined) {
+      body = JSON.stringify(request.json);
+      if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+    }
+
+    const response = await fetcher(new Request(url.toString(), { ...request.init, method, headers, body }));
+    return {
+      status: response.status,
+      ok: response.ok,
+      headers: response.headers,
+      data: method === 'HEAD' ? null : await parseResponse(response),
+      raw: response
+    };
+  };
+
+  return {
+    get: call('GET'),
+    post: call('POST'),
+    put: call('PUT'),
+    delete: call('DELETE'),
+    patch: call('PATCH'),
+    head: call('HEAD'),
+    options: call('OPTIONS')
+  } as unknown as Client<AppRoutes<TApp>>;
+}
@@ -1,7 +1,8 @@
 // Context implementation for imphnen.js framework
 
-import type { Context as ContextType, UploadedFile, ProxyOptions, StreamingOptions, ChunkOptions, ServerSentEventOptions } from './types.js';
+import type { Context as ContextType, UploadedFile, ProxyOptions, StreamingOptions, ChunkOptions, ServerSentEventOptions, WebSocketContext, WebSocketData, WebSocketHandler } from './types.js';
 import { createResponse, proxyRequest, serveFile } from './utils.js';
+import { RequestCookies } from './cookies.js';
 import { 
   createStreamingResponse, 
   createStreamResponse, 
@@ -18,7 +19,9 @@ export function createContext<
   params: TParams,
   query: TQuery,
   body: TBody,
-  files?: UploadedFile[]
+  files?: UploadedFile[],
+  cookies: RequestCookies = new RequestCookies(req.headers.get('cookie')),
+  ip?: string
 ): ContextType<TParams, TQuery, TBody> {
   let responseHeaders = new Headers();
   let responseStatus = 200;
@@ -30,11 +33,19 @@ export function createContext<
     body,
     headers: req.headers,
     files,
+    cookies,
+    ip,
+    state: {},
     
     set: {
       headers: (headers: Record<string, string>) => {
         for (const [key, value] of Object.entries(headers)) {
-          responseHeaders.set(key, value);
+          // Queued with the cookies so several Set-Cookie headers can coexist
+          if (key.toLowerCase() === 'set-cookie') {
+            cookies.append(value);
+          } else {
+            responseHeaders.set(key, value);
+          }
         }
       },
       status: (status: number) => {
@@ -326,4 +337,38 @@ export function createContext<
   };
 
   return context;
-} 
\ No newline at end of file
+} 
+
+// Context handed to WebSocket handlers for a socket upgraded with `data`
+export function createWebSocketContext(ws: unknown, data: WebSocketData): WebSocketContext<any> {
+  return {
+    ws: ws as WebSocket,
+    params: data.params,
+    query: data.query,
+    headers: data.headers,
+    url: data.url
+  };
+}
+
+/**
+ * Runs a WebSocket event handler the same way for server and test sockets:
+ * an error it throws goes to the route's `error` handler, or is logged when
+ * there is none.
+ */
+export async function runWebSocketEvent(
+  handler: WebSocketHandler<any>,
+  ctx: WebSocketContext<any>,
+  event: () => void | Promise<void>
+): Promise<void> {
+  try {
+    await event();
+  } catch (error) {
+    const reported = error instanceof Error ? error : new Error(String(error));
+    try {
+      if (!handler.error) throw reported;
+      await handler.error(ctx, reported);
+    } catch (unhandled) {
+      console.error('WebSocket handler error:', unhandled);
+    }
+  }
+}
@@ -0,0 +1,306 @@
+// Cookie parsing, serialization and signed/encrypted cookies for imphnen.js
+
+export interface CookieOptions {
+  path?: string;
+  domain?: string;
+  // Lifetime in seconds; takes precedence over `expires` in browsers
+  maxAge?: number;
+  expires?: Date;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  secure?: boolean;
+  httpOnly?: boolean;
+  // CHIPS: store the cookie per top-level site (requires `secure`)
+  partitioned?: boolean;
+}
+
+export interface CookieConfig {
+  // Secrets for signed and encrypted cookies. The first one signs and
+  // encrypts; every one is tried when reading, so keys can be rotated by
+  // prepending a new one
+  keys?: string[];
+  // Attributes applied to every cookie set through `ctx.cookies`
+  defaults?: CookieOptions;
+}
+
+// Request cookies and the Set-Cookie headers queued for the response
+export interface Cookies {
+  get(name: string): string | undefined;
+  all(): Record<string, string>;
+  set(name: string, value: string, options?: CookieOptions): void;
+  // Expire the cookie; pass the same path and domain it was set with
+  delete(name: string, options?: Pick<CookieOptions, 'path' | 'domain' | 'secure' | 'sameSite' | 'partitioned'>): void;
+  // Signed cookies can be read by the client but not altered
+  getSigned(name: string): Promise<string | undefined>;
+  setSigned(name: string, value: string, options?: CookieOptions): Promise<void>;
+  // Encrypted cookies can be neither read nor altered by the client
+  getEncrypted(name: string): Promise<string | undefined>;
+  setEncrypted(name: string, value: string, options?: CookieOptions): Promise<void>;
+}
+
+// RFC 6265 cookie-name token
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+// Characters allowed in Path and Domain values
+const ATTRIBUTE_VALUE = /^[!-:<-~]*$/;
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parses a Cookie request header. The first occurrence of a name wins, as
+ * browsers send the most specific cookie first.
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) continue;
+
+    const name = pair.slice(0, index).trim();
+    let value = pair.slice(index + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      value = value.slice(1, -1);
+    }
+    if (name && !(name in cookies)) {
+      cookies[name] = decode(value);
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Builds a Set-Cookie header value. Invalid names and attribute combinations
+ * browsers would reject throw instead of failing silently on the client.
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!COOKIE_NAME.test(name)) {
+    throw new TypeError(`Invalid cookie name "${name}"`);
+  }
+  if ((options.sameSite === 'None' || options.partitioned) && !options.secure) {
+    throw new TypeError(`Cookie "${name}" uses ${options.partitioned ? 'Partitioned' : 'SameSite=None'} and must be Secure`);
+  }
+
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+  if (options.domain !== undefined) {
+    if (!ATTRIBUTE_VALUE.test(options.domain)) throw new TypeError(`Invalid cookie domain "${options.domain}"`);
+    parts.push(`Domain=${options.domain}`);
+  }
+  if (options.path !== undefined) {
+    if (!ATTRIBUTE_VALUE.test(options.path)) throw new TypeError(`Invalid cookie path "${options.path}"`);
+    parts.push(`Path=${options.path}`);
+  }
+  if (options.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  if (options.expires) parts.push(`Expires=${options.expires.toUTCString()}`);
+  if (options.sameSite) parts.push(`SameSite=${options.sameSite}`);
+  if (options.secure) parts.push('Secure');
+  if (options.httpOnly) parts.push('HttpOnly');
+  if (options.partitioned) parts.push('Partitioned');
+  return parts.join('; ');
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+function fromBase64Url(value: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) return null;
+  return new Uint8Array(Buffer.from(value, 'base64url'));
+}
+
+type DeriveParams = Parameters<typeof crypto.subtle.deriveKey>;
+
+interface DerivedKey {
+  sign: CryptoKey;
+  encrypt: CryptoKey;
+}
+
+/**
+ * Signing and encryption keys derived from the configured secrets with
+ * HKDF, so one secret never serves both purposes. The name of the cookie is
+ * bound into every MAC and ciphertext, so a value cannot be moved to
+ * another cookie.
+ */
+export class CookieKeyring {
+  private derived: Promise<DerivedKey[]> | null = null;
+
+  constructor(private secrets: string[]) {
+    if (secrets.length === 0) {
+      throw new Error('Signed and encrypted cookies need at least one key in the `cookies.keys` option');
+    }
+  }
+
+  private keys(): Promise<DerivedKey[]> {
+    this.derived ??= Promise.all(this.secrets.map(async secret => {
+      const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey']);
+      const derive = (info: string, algorithm: DeriveParams[2], usages: DeriveParams[4]) =>
+        crypto.subtle.deriveKey(
+          { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(info) },
+          material,
+          algorithm,
+          false,
+          usages
+        );
+      return {
+        sign: await derive('imphnen.js cookie signing', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign', 'verify']),
+        encrypt: await derive('imphnen.js cookie encryption', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt'])
+      };
+    }));
+    return this.derived;
+  }
+
+  // `value.signature`, signed with the newest key
+  async sign(name: string, value: string): Promise<string> {
+    const [key] = await this.keys();
+    const signature = await crypto.subtle.sign('HMAC', key!.sign, encoder.encode(`${name}=${value}`));
+    return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+  }
+
+  // The original value, or undefined when no key verifies the signature
+  async unsign(name: string, signed: string): Promise<string | undefined> {
+    const dot = signed.lastIndexOf('.');
+    if (dot === -1) return undefined;
+
+    const value = signed.slice(0, dot);
+    const signature = fromBase64Url(signed.slice(dot + 1));
+    if (!signature) return undefined;
+
+    const data = encoder.encode(`${name}=${value}`);
+    for (const key of await this.keys()) {
+      if (await crypto.subtle.verify('HMAC', key.sign, signature, data)) return value;
+    }
+    return undefined;
+  }
+
+  // AES-256-GCM with a random IV, as base64url(iv || ciphertext)
+  async encrypt(name: string, value: string): Promise<string> {
+    const [key] = await this.keys();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+      key!.encrypt,
+      encoder.encode(value)
+    );
+
+    const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+    sealed.set(iv);
+    sealed.set(new Uint8Array(ciphertext), iv.length);
+    return toBase64Url(sealed);
+  }
+
+  // The plaintext, or undefined when no key decrypts the value
+  async decrypt(name: string, sealed: string): Promise<string | undefined> {
+    const bytes = fromBase64Url(sealed);
+    if (!bytes || bytes.length <= 12) return undefined;
+
+    const iv = bytes.slice(0, 12);
+    const ciphertext = bytes.slice(12);
+    for (const key of await this.keys()) {
+      try {
+        const plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+          key.encrypt,
+          ciphertext
+        );
+        return new TextDecoder().decode(plaintext);
+      } catch {
+        // Wrong key or tampered value: try the next key
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * `ctx.cookies` for one request. Cookies set during the request are queued
+ * and written as separate Set-Cookie headers when the response is sent, and
+ * later reads in the same request see them.
+ */
+export class RequestCookies implements Cookies {
+  private values: Record<string, string>;
+  private outgoing = new Map<string, string>();
+  private raw: string[] = [];
+
+  constructor(
+    header: string | null,
+    private keyring: CookieKeyring | null = null,
+    private defaults: CookieOptions = {}
+  ) {
+    this.values = parseCookies(header);
+  }
+
+  get(name: string): string | undefined {
+    return this.values[name];
+  }
+
+  all(): Record<string, string> {
+    return { ...this.values };
+  }
+
+  set(name: string, value: string, options: CookieOptions = {}): void {
+    const attributes = { ...this.defaults, ...options };
+    // Keyed by name, path and domain: a later set() replaces an earlier one
+    this.outgoing.set(`${name};${attributes.path ?? ''};${attributes.domain ?? ''}`, serializeCookie(name, value, attributes));
+    this.values[name] = value;
+  }
+
+  delete(name: string, options: Pick<CookieOptions, 'path' | 'domain' | 'secure' | 'sameSite' | 'partitioned'> = {}): void {
+    this.set(name, '', { ...options, maxAge: 0, expires: new Date(0) });
+    delete this.values[name];
+  }
+
+  async getSigned(name: string): Promise<string | undefined> {
+    const value = this.values[name];
+    return value === undefined ? undefined : await this.requireKeyring().unsign(name, value);
+  }
+
+  async setSigned(name: string, value: string, options?: CookieOptions): Promise<void> {
+    this.set(name, await this.requireKeyring().sign(name, value), options);
+  }
+
+  async getEncrypted(name: string): Promise<string | undefined> {
+    const value = this.values[name];
+    return value === undefined ? undefined : await this.requireKeyring().decrypt(name, value);
+  }
+
+  async setEncrypted(name: string, value: string, options?: CookieOptions): Promise<void> {
+    this.set(name, await this.requireKeyring().encrypt(name, value), options);
+  }
+
+  // Set-Cookie values added directly through `ctx.set.headers()`
+  append(header: string): void {
+    this.raw.push(header);
+  }
+
+  // Every queued Set-Cookie value
+  headers(): string[] {
+    return [...this.raw, ...this.outgoing.values()];
+  }
+
+  // The response with the queued cookies appended as Set-Cookie headers
+  applyTo(response: Response): Response {
+    const headers = this.headers();
+    if (headers.length === 0) return response;
+
+    // Copy first: responses from fetch() or Response.redirect() have immutable headers
+    const copy = new Response(response.body, response);
+    for (const header of headers) {
+      copy.headers.append('set-cookie', header);
+    }
+    return copy;
+  }
+
+  private requireKeyring(): CookieKeyring {
+    if (!this.keyring) {
+      throw new Error('Signed and encrypted cookies need the `cookies.keys` option');
+    }
+    return this.keyring;
+  }
+}
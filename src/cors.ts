@@ -0,0 +1,167 @@
+// Cross-origin resource sharing for imphnen.js, shared by the `cors` app option and middleware
+
+import { isHttpError } from './errors.js';
+import type { ContextWithState } from './pipeline.js';
+
+// Origins allowed to read responses: `true` or '*' for any, or an exact origin, pattern, list or check
+export type CorsOrigin =
+  | boolean
+  | string
+  | RegExp
+  | (string | RegExp)[]
+  | ((origin: string, request: Request) => boolean | Promise<boolean>);
+
+export interface CorsOptions {
+  // Default: any origin
+  origin?: CorsOrigin;
+  // Methods allowed in preflights (default: GET, HEAD, PUT, PATCH, POST, DELETE)
+  methods?: string[];
+  // Request headers allowed in preflights; the headers a preflight asks for by default
+  headers?: string[];
+  // Response headers scripts may read besides the CORS-safelisted ones
+  exposeHeaders?: string[];
+  // Allow cookies and HTTP authentication; the request's origin is then echoed instead of '*'
+  credentials?: boolean;
+  // Seconds browsers may cache a preflight
+  maxAge?: number;
+  // Answer Private Network Access preflights from public sites
+  privateNetwork?: boolean;
+}
+
+/**
+ * One CORS policy: answers preflights and adds the CORS headers to every
+ * other response of a cross-origin request.
+ */
+export interface Cors {
+  // The preflight response, or undefined when the request is not a preflight
+  preflight(request: Request): Promise<Response | undefined>;
+  // The response with this policy's CORS headers added
+  apply(request: Request, response: Response): Promise<Response>;
+  // The CORS headers of an actual (non-preflight) response, with `Vary`
+  headers(request: Request): Promise<Record<string, string>>;
+}
+
+const DEFAULT_METHODS = ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'];
+
+async function isAllowed(allowed: CorsOrigin, origin: string, request: Request): Promise<boolean> {
+  if (typeof allowed === 'boolean') return allowed;
+  if (typeof allowed === 'function') return await allowed(origin, request);
+  return [allowed].flat().some(entry => typeof entry === 'string' ? entry === '*' || entry === origin : entry.test(origin));
+}
+
+// Adds to `Vary` without repeating values already listed
+function vary(headers: Headers, ...names: string[]): void {
+  const current = headers.get('vary');
+  if (current === '*') return;
+  const listed = (current ?? '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const added = names.filter(name => !listed.includes(name.toLowerCase()));
+  if (added.length > 0) headers.set('vary', [current, ...added].filter(Boolean).join(', '));
+}
+
+/**
+ * Builds a CORS policy. Only one origin can be allowed per response, so for
+ * lists, patterns and checks the request's origin is echoed when it matches,
+ * with `Vary: Origin` so caches keep responses per origin.
+ */
+export function createCors(options: CorsOptions = {}): Cors {
+  const origin = options.origin ?? true;
+  // '*' cannot be combined with credentials, so any origin is echoed instead
+  const wildcard = !options.credentials && (origin === true || origin === '*');
+  const methods = (options.methods ?? DEFAULT_METHODS).join(', ');
+
+  // Access-Control-Allow-Origin for a request, or undefined when its origin is not allowed
+  const allowOrigin = async (request: Request): Promise<string | undefined> => {
+    if (wildcard) return '*';
+    const requestOrigin = request.headers.get('origin');
+    if (!requestOrigin) return undefined;
+    return await isAllowed(origin, requestOrigin, request) ? requestOrigin : undefined;
+  };
+
+  const originHeaders = async (request: Request): Promise<Record<string, string>> => {
+    const allowed = await allowOrigin(request);
+    if (!allowed) return {};
+    const headers: Record<string, string> = { 'Access-Control-Allow-Origin': allowed };
+    if (options.credentials) headers['Access-Control-Allow-Credentials'] = 'true';
+    return headers;
+  };
+
+  const headers = async (request: Request): Promise<Record<string, string>> => {
+    const headers = await originHeaders(request);
+    if (headers['Access-Control-Allow-Origin'] && options.exposeHeaders?.length) {
+      headers['Access-Control-Expose-Headers'] = options.exposeHeaders.join(', ');
+    }
+    if (!wildcard) headers['Vary'] = 'Origin';
+    return headers;
+  };
+
+  return {
+    headers,
+
+    async preflight(request) {
+      if (request.method !== 'OPTIONS' || !request.headers.has('access-control-request-method')) {
+        return undefined;
+      }
+
+      const response = new Response(null, { status: 204, headers: await originHeaders(request) });
+      if (response.headers.has('access-control-allow-origin')) {
+        response.headers.set('Access-Control-Allow-Methods', methods);
+        const requested = request.headers.get('access-control-request-headers');
+        const allowHeaders = options.headers?.join(', ') ?? requested;
+        if (allowHeaders) response.headers.set('Access-Control-Allow-Headers', allowHeaders);
+        if (options.maxAge !== undefined) response.headers.set('Access-Control-Max-Age', String(options.maxAge));
+        if (options.privateNetwork && request.headers.get('access-control-request-private-network') === 'true') {
+          response.headers.set('Access-Control-Allow-Private-Network', 'true');
+        }
+      }
+
+      if (!wildcard) vary(response.headers, 'Origin');
+      // Echoed request headers make the preflight depend on them too
+      if (!options.headers) vary(response.headers, 'Access-Control-Request-Headers');
+      return response;
+    },
+
+    async apply(request, response) {
+      // Preflights and handlers that answered CORS themselves are left alone
+      if (response.headers.has('access-control-allow-origin')) return response;
+
+      // Fetched responses, e.g. from proxies, have immutable headers
+      const result = new Response(response.body, response);
+      for (const [name, value] of Object.entries(await headers(request))) {
+        if (name === 'Vary') {
+          vary(result.headers, value);
+        } else {
+          result.headers.set(name, value);
+        }
+      }
+      return result;
+    }
+  };
+}
+
+/**
+ * CORS for the routes of a pipeline. The `cors` app option covers every
+ * response, including 404s and unexpected errors. The middleware adds no
+ * state, so pipelines keep theirs.
+ */
+export function createCorsMiddleware(
+  options: CorsOptions = {}
+): (ctx: ContextWithState<any, any, any, any>, next: () => Promise<Response>) => Promise<Response> {
+  const cors = createCors(options);
+
+  return async (ctx, next) => {
+    const preflight = await cors.preflight(ctx.req);
+    if (preflight) return preflight;
+
+    let response: Response;
+    try {
+      response = await next();
+    } catch (error) {
+      // Thrown HTTP errors become responses later, so they carry the headers along
+      if (isHttpError(error)) {
+        Object.assign(error.headers, await cors.headers(ctx.req));
+      }
+      throw error;
+    }
+    return await cors.apply(ctx.req, response);
+  };
+}
@@ -0,0 +1,158 @@
+// Cross-site request forgery protection for imphnen.js pipelines
+
+import { timingSafeEqual } from './auth.js';
+import type { CookieOptions } from './cookies.js';
+import { ForbiddenError } from './errors.js';
+import type { ContextWithState, PipelineMiddleware } from './pipeline.js';
+import { Router } from './router.js';
+import type { Session } from './session.js';
+
+/**
+ * Where the expected token is kept:
+ * - `double-submit`: a cookie readable by scripts, which the client echoes back
+ * - `cookie`: a signed HttpOnly cookie; needs cookie keys in the app options
+ * - `session`: `ctx.state.session`; needs the session middleware earlier in the pipeline
+ */
+export type CSRFStrategy = 'double-submit' | 'cookie' | 'session';
+
+export interface CSRFOptions {
+  // Defaults to 'double-submit'
+  strategy?: CSRFStrategy;
+  // Cookie name, or session key for the session strategy (default: '_csrf')
+  name?: string;
+  // Attributes of the token cookie
+  cookie?: Omit<CookieOptions, 'maxAge' | 'expires'>;
+  // Request header carrying the token, for scripts and SPAs (default: 'x-csrf-token')
+  header?: string;
+  // Form field carrying the token (default: '_csrf')
+  field?: string;
+  // Other origins allowed to submit, e.g. a separate frontend; the request's own origin always is
+  origins?: string[];
+  // Route patterns that are not checked, e.g. '/webhooks/*'
+  exempt?: string[];
+}
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+const TOKEN = /^[A-Za-z0-9_-]{43}$/;
+
+function createToken(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+}
+
+function originOf(url: string): string | undefined {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+// Rejects requests a browser reports as coming from another site
+function checkOrigin(ctx: ContextWithState<any, any, any, {}>, trusted: Set<string>): void {
+  const origin = ctx.headers.get('origin') ?? originOf(ctx.headers.get('referer') ?? '');
+  const allowed = origin !== undefined && (origin === originOf(ctx.req.url) || trusted.has(origin));
+
+  // Fetch metadata is sent by current browsers and cannot be set by pages
+  const site = ctx.headers.get('sec-fetch-site');
+  if (site === 'same-origin' || site === 'none') return;
+  if (site || origin !== undefined) {
+    if (!allowed) throw new ForbiddenError('Cross-site request blocked');
+  }
+  // Neither header: not a browser request, so only the token is checked
+}
+
+function submittedToken(ctx: ContextWithState<any, any, any, {}>, header: string, field: string): string | undefined {
+  const fromHeader = ctx.headers.get(header);
+  if (fromHeader) return fromHeader;
+  const body = ctx.body as Record<string, unknown> | null;
+  // Multipart bodies keep their text fields under `fields`
+  const fields = body && Array.isArray(body.files) ? body.fields as Record<string, unknown> | undefined : body;
+  const fromBody = fields && typeof fields === 'object' ? fields[field] : undefined;
+  return typeof fromBody === 'string' ? fromBody : undefined;
+}
+
+/**
+ * CSRF protection for cookie-authenticated routes. Unsafe requests must come
+ * from an allowed origin and carry the token from `ctx.state.csrfToken`,
+ * either in a form field or a request header. Safe methods pass through.
+ */
+export function createCSRFMiddleware(
+  options: CSRFOptions = {}
+): PipelineMiddleware<any, any, any, {}, { csrfToken: string }> {
+  const strategy = options.strategy ?? 'double-submit';
+  const name = options.name ?? '_csrf';
+  const header = options.header ?? 'x-csrf-token';
+  const field = options.field ?? '_csrf';
+  const trusted = new Set(options.origins?.map(origin => new URL(origin).origin));
+  // Scripts read the double-submit cookie to echo it in a header
+  const cookie: CookieOptions = {
+    path: '/',
+    sameSite: 'Lax',
+    httpOnly: strategy === 'cookie',
+    ...options.cookie
+  };
+
+  const exempt = new Router<true>();
+  for (const pattern of options.exempt ?? []) {
+    exempt.add('GET', pattern, true);
+  }
+
+  const sessionOf = (ctx: ContextWithState<any, any, any, {}>): Session<any> => {
+    const session = (ctx.state as { session?: Session<any> }).session;
+    if (!session) {
+      throw new Error('The session CSRF strategy needs the session middleware earlier in the pipeline');
+    }
+    return session;
+  };
+
+  const load = async (ctx: ContextWithState<any, any, any, {}>): Promise<string | undefined> => {
+    const stored = strategy === 'session' ? sessionOf(ctx).get(name)
+      : strategy === 'cookie' ? await ctx.cookies.getSigned(name)
+      : ctx.cookies.get(name);
+    return typeof stored === 'string' && TOKEN.test(stored) ? stored : undefined;
+  };
+
+  const save = async (ctx: ContextWithState<any, any, any, {}>, token: string): Promise<void> => {
+    if (strategy === 'session') {
+      sessionOf(ctx).set(name, token);
+    } else if (strategy === 'cookie') {
+      await ctx.cookies.setSigned(name, token, cookie);
+    } else {
+      ctx.cookies.set(name, token, cookie);
+    }
+  };
+
+  return async (ctx, next) => {
+    const expected = await load(ctx);
+
+    if (!SAFE_METHODS.has(ctx.req.method) && !exempt.find('GET', new URL(ctx.req.url).pathname)) {
+      checkOrigin(ctx, trusted);
+      const submitted = submittedToken(ctx, header, field);
+      if (!submitted) {
+        throw new ForbiddenError('CSRF token missing');
+      }
+      if (!expected || !timingSafeEqual(submitted, expected)) {
+        throw new ForbiddenError('Invalid CSRF token');
+      }
+    }
+
+    // Scripts need the double-submit cookie before they render anything
+    let token = expected;
+    if (!token && strategy === 'double-submit') {
+      token = createToken();
+      await save(ctx, token);
+    }
+
+    // Other strategies only store a token once a handler asks for one
+    let issued: string | undefined;
+    Object.defineProperty(ctx.state, 'csrfToken', {
+      enumerable: true,
+      configurable: true,
+      get: () => token ?? (issued ??= createToken())
+    });
+
+    const response = await next();
+    if (issued) await save(ctx, issued);
+    return response;
+  };
+}
@@ -0,0 +1,219 @@
+// HTTP error classes for imphnen.js
+
+export interface HttpErrorOptions {
+  // Extra machine-readable information included in the error response
+  details?: unknown;
+  // Headers added to the error response, e.g. `WWW-Authenticate`
+  headers?: Record<string, string>;
+  cause?: unknown;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  413: 'Payload Too Large',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  503: 'Service Unavailable'
+};
+
+/**
+ * Error carrying an HTTP status. Throw it from handlers or middleware and the
+ * app turns it into a response with that status instead of a 500.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly details?: unknown;
+  readonly headers: Record<string, string>;
+
+  constructor(status: number, message?: string, options: HttpErrorOptions = {}) {
+    super(message ?? STATUS_TEXT[status] ?? 'HTTP Error', { cause: options.cause });
+    this.name = new.target.name;
+    this.status = status;
+    this.details = options.details;
+    this.headers = options.headers ?? {};
+  }
+
+  // Body of the default error response
+  toJSON(): { error: string; status: number; details?: unknown } {
+    return this.details === undefined
+      ? { error: this.message, status: this.status }
+      : { error: this.message, status: this.status, details: this.details };
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message = 'Bad Request', options?: HttpErrorOptions) {
+    super(400, message, options);
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Unauthorized', options?: HttpErrorOptions) {
+    super(401, message, options);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = 'Forbidden', options?: HttpErrorOptions) {
+    super(403, message, options);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = 'Not Found', options?: HttpErrorOptions) {
+    super(404, message, options);
+  }
+}
+
+export class MethodNotAllowedError extends HttpError {
+  constructor(message = 'Method Not Allowed', options?: HttpErrorOptions) {
+    super(405, message, options);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message = 'Conflict', options?: HttpErrorOptions) {
+    super(409, message, options);
+  }
+}
+
+export class PayloadTooLargeError extends HttpError {
+  constructor(message = 'Payload Too Large', options?: HttpErrorOptions) {
+    super(413, message, options);
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message = 'Unsupported Media Type', options?: HttpErrorOptions) {
+    super(415, message, options);
+  }
+}
+
+export class UnprocessableEntityError extends HttpError {
+  constructor(message = 'Unprocessable Entity', options?: HttpErrorOptions) {
+    super(422, message, options);
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(message = 'Too Many Requests', options?: HttpErrorOptions) {
+    super(429, message, options);
+  }
+}
+
+export class InternalServerError extends HttpError {
+  constructor(message = 'Internal Server Error', options?: HttpErrorOptions) {
+    super(500, message, options);
+  }
+}
+
+export class ServiceUnavailableError extends HttpError {
+  constructor(message = 'Service Unavailable', options?: HttpErrorOptions) {
+    super(503, message, options);
+  }
+}
+
+// One failed check from request validation
+export interface ValidationIssue {
+  in: 'body' | 'query' | 'params' | 'headers' | 'response';
+  // Dotted path to the offending field, e.g. `items.0.name`; empty for the whole value
+  path: string;
+  message: string;
+}
+
+/**
+ * Request validation failure. The issues are sent as `details`, one entry
+ * per failed field.
+ */
+export class ValidationError extends HttpError {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], status: 400 | 422 = 422, options: Omit<HttpErrorOptions, 'details'> = {}) {
+    super(status, 'Validation failed', { ...options, details: issues });
+    this.issues = issues;
+  }
+}
+
+export type JWTErrorCode =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'invalid_signature'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'no_matching_key'
+  | 'invalid_key';
+
+/**
+ * A bearer token that failed verification. Responds with 401 and a
+ * `WWW-Authenticate` header describing the problem (RFC 6750).
+ */
+export class JWTError extends UnauthorizedError {
+  readonly code: JWTErrorCode;
+
+  constructor(code: JWTErrorCode, message: string, options: Omit<HttpErrorOptions, 'headers'> = {}) {
+    super(message, {
+      ...options,
+      headers: { 'WWW-Authenticate': `Bearer error="invalid_token", error_description="${message}"` }
+    });
+    this.code = code;
+  }
+}
+
+export function isHttpError(error: unknown): error is HttpError {
+  return error instanceof HttpError;
+}
+
+/**
+ * Default error response: HttpErrors keep their status, message and headers;
+ * anything else becomes a generic 500. Development mode adds the stack trace.
+ */
+// Headers middlewares want on the response built from a request's error, such as security headers
+const pendingErrorHeaders = new WeakMap<Request, Record<string, string>>();
+
+// Records headers for the error response of a request, whichever error it turns out to be
+export function addErrorHeaders(request: Request, headers: Record<string, string>): void {
+  pendingErrorHeaders.set(request, { ...pendingErrorHeaders.get(request), ...headers });
+}
+
+// Adds the recorded error headers that the response does not set itself
+export function applyErrorHeaders(request: Request, response: Response): Response {
+  const headers = pendingErrorHeaders.get(request);
+  if (!headers) return response;
+
+  // Fetched responses, e.g. from proxies, have immutable headers
+  const result = new Response(response.body, response);
+  for (const [name, value] of Object.entries(headers)) {
+    if (!result.headers.has(name)) result.headers.set(name, value);
+  }
+  return result;
+}
+
+export function errorResponse(error: unknown, development = false): Response {
+  const httpError = isHttpError(error) ? error : null;
+  const status = httpError?.status ?? 500;
+  const body: Record<string, unknown> = httpError
+    ? httpError.toJSON()
+    : { error: 'Internal Server Error', status };
+
+  if (development && error instanceof Error) {
+    if (!httpError) body.message = error.message;
+    body.stack = error.stack;
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...httpError?.headers,
+      'content-type': 'application/json; charset=utf-8'
+    }
+  });
+}
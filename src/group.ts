@@ -0,0 +1,319 @@
+// Route groups with a shared path prefix and middleware for imphnen.js
+
+import type {
+  Context,
+  HTTPMethod,
+  Handler,
+  Middleware,
+  PathParams,
+  ProxyOptions,
+  RouteParams,
+  WebSocketHandler
+} from './types.js';
+import { MiddlewarePipeline } from './pipeline.js';
+import type { ContextWithState, StateHandler, MiddlewareState } from './pipeline.js';
+import { isRouteSchema } from './schema.js';
+import type { RouteSchema, SchemaHandlers } from './schema.js';
+import type { AddRoute, Endpoint, HandlerResult, PlainEndpoint, RouteMap, SchemaEndpoint } from './client.js';
+
+// Registration callbacks the owning app hands to its groups
+export interface RouteRegistrar {
+  route(method: HTTPMethod, path: string, middlewares: Middleware<any>[], handler: Handler<any>, schema?: RouteSchema): void;
+  pipelineRoute(
+    method: HTTPMethod,
+    path: string,
+    pipeline: MiddlewarePipeline<any, any, any, any>,
+    handler: StateHandler<any, any, any, any>
+  ): void;
+  proxy(path: string, options: ProxyOptions, middlewares: Middleware<any>[]): void;
+  ws(path: string, handler: WebSocketHandler<any>): void;
+  // Middlewares enforcing a route's schemas
+  validation(schema: RouteSchema): Middleware<any>[];
+}
+
+// Middleware accepted by `group()`: plain middleware or a whole pipeline
+export type GroupMiddleware = Middleware<any> | MiddlewarePipeline<any, any, any, any>;
+
+export interface GroupOptions {
+  // Run before the routes of the group, in order
+  middleware?: GroupMiddleware | GroupMiddleware[];
+}
+
+// Returning the chained group adds its routes to the app type for `createClient()`
+export type GroupCallback<TPrefix extends string, TGroupRoutes extends RouteMap = {}> =
+  (group: RouteGroup<TPrefix>) => RouteGroup<TPrefix, TGroupRoutes> | void;
+
+// The group with one more route
+type WithRoute<TPrefix extends string, TRoutes extends RouteMap, TMethod extends HTTPMethod, TPath extends string, TEndpoint extends Endpoint<any, any, any, any>> =
+  RouteGroup<TPrefix, AddRoute<TRoutes, TMethod, JoinPaths<TPrefix, TPath>, TEndpoint>>;
+
+type TrimSlash<P extends string> = P extends `${infer Base}/` ? Base : P;
+
+// The path `joinPaths()` produces, so route types match the registered paths
+export type JoinPaths<TPrefix extends string, TPath extends string> =
+  TPath extends '' | '/'
+    ? (TrimSlash<TPrefix> extends '' ? '/' : TrimSlash<TPrefix>)
+    : TPath extends `/${string}` ? `${TrimSlash<TPrefix>}${TPath}` : `${TrimSlash<TPrefix>}/${TPath}`;
+
+// Join a group prefix and a route path without doubling or dangling slashes
+export function joinPaths(prefix: string, path: string): string {
+  const base = prefix.endsWith('/') ? prefix.slice(0, -1) : prefix;
+  if (path === '' || path === '/') return base || '/';
+  return `${base}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+function isPipeline(value: unknown): value is MiddlewarePipeline<any, any, any, any> {
+  return typeof value === 'object' && value !== null && 'execute' in value;
+}
+
+/**
+ * Reads the `group(prefix, ...middlewares, callback?)` and
+ * `group(prefix, options, callback?)` arguments. Middlewares take
+ * `(ctx, next)`, so a trailing function declaring fewer parameters is the
+ * callback; `runGroupCallback()` rejects one that turns out to be a
+ * middleware rather than dropping it.
+ */
+export function parseGroupArgs<TPrefix extends string>(
+  args: unknown[]
+): { middlewares: GroupMiddleware[]; callback?: GroupCallback<TPrefix> } {
+  const [first, second] = args;
+  if (typeof first === 'object' && first !== null && !isPipeline(first)) {
+    if (args.length > 2 || (second !== undefined && typeof second !== 'function')) {
+      throw new TypeError('group() takes an options object and a callback: group(prefix, { middleware }, callback)');
+    }
+    return {
+      middlewares: [(first as GroupOptions).middleware ?? []].flat(),
+      callback: second as GroupCallback<TPrefix> | undefined
+    };
+  }
+
+  const last = args[args.length - 1];
+  const hasCallback = typeof last === 'function' && last.length < 2;
+  const middlewares = hasCallback ? args.slice(0, -1) : args;
+  if (!middlewares.every(middleware => typeof middleware === 'function' || isPipeline(middleware))) {
+    throw new TypeError('group() middlewares must be functions or pipelines');
+  }
+  return {
+    middlewares: middlewares as GroupMiddleware[],
+    callback: hasCallback ? last as GroupCallback<TPrefix> : undefined
+  };
+}
+
+// Runs a group callback, which returns nothing or the chained group
+export function runGroupCallback(callback: GroupCallback<any, any>, group: RouteGroup<any, any>): void {
+  const result: unknown = callback(group);
+  if (result !== undefined && !(result instanceof RouteGroup)) {
+    // Most likely a middleware declared without `next`, run as the callback
+    throw new TypeError('group() callback returned a value other than the group; declare group middlewares as (ctx, next) or pass them in { middleware }');
+  }
+}
+
+/**
+ * Scoped route builder returned by `app.group()`. Every route registered
+ * through it is prefixed with the group path and runs the group middlewares
+ * before its own; pipeline routes get the group middlewares prepended to
+ * their pipeline.
+ */
+export class RouteGroup<TPrefix extends string = '', TRoutes extends RouteMap = {}> {
+  // Type-only: the routes registered through this group, for the app type
+  declare readonly '~routes'?: TRoutes;
+
+  private middlewares: Middleware<any>[] = [];
+  private pipeline: MiddlewarePipeline<any, any, any, any> = MiddlewarePipeline.create();
+
+  constructor(
+    private registrar: RouteRegistrar,
+    private prefix: TPrefix,
+    middlewares: GroupMiddleware[] = []
+  ) {
+    middlewares.forEach(middleware => this.use(middleware));
+  }
+
+  // Add middleware for routes registered on this group from now on
+  use(middleware: GroupMiddleware): this {
+    if (isPipeline(middleware)) {
+      // Traditional routes run the pipeline as one middleware sharing `ctx.state`,
+      // which carries the pipeline's guard requirements for route listings
+      this.middlewares.push(Object.assign(
+        (ctx: Context<any>, next: () => Promise<Response>) => middleware.execute(ctx, () => next()),
+        { requirements: middleware.requirements() }
+      ));
+      this.pipeline = this.pipeline.concat(middleware);
+    } else {
+      this.middlewares.push(middleware);
+      this.pipeline = this.pipeline.use(middleware as any);
+    }
+    return this;
+  }
+
+  // Nested group inheriting this group's prefix and middlewares. With a
+  // callback, this group is returned with the routes the callback chained
+  group<TSubPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TSubPrefix,
+    callback: GroupCallback<JoinPaths<TPrefix, TSubPrefix>, TGroupRoutes>
+  ): RouteGroup<TPrefix, TRoutes & TGroupRoutes>;
+  group<TSubPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TSubPrefix,
+    options: GroupOptions,
+    callback: GroupCallback<JoinPaths<TPrefix, TSubPrefix>, TGroupRoutes>
+  ): RouteGroup<TPrefix, TRoutes & TGroupRoutes>;
+  group<TSubPrefix extends string, TGroupRoutes extends RouteMap = {}>(
+    prefix: TSubPrefix,
+    ...args: [...middlewares: GroupMiddleware[], callback: GroupCallback<JoinPaths<TPrefix, TSubPrefix>, TGroupRoutes>]
+  ): RouteGroup<TPrefix, TRoutes & TGroupRoutes>;
+  group<TSubPrefix extends string>(prefix: TSubPrefix, options?: GroupOptions): RouteGroup<JoinPaths<TPrefix, TSubPrefix>>;
+  group<TSubPrefix extends string>(prefix: TSubPrefix, ...middlewares: GroupMiddleware[]): RouteGroup<JoinPaths<TPrefix, TSubPrefix>>;
+  group(prefix: string, ...args: unknown[]): RouteGroup<any, any> {
+    const { middlewares, callback } = parseGroupArgs(args);
+    const child = new RouteGroup(this.registrar, joinPaths(this.prefix, prefix));
+    child.middlewares = [...this.middlewares];
+    child.pipeline = this.pipeline;
+    middlewares.forEach(middleware => child.use(middleware));
+    if (!callback) return child;
+    runGroupCallback(callback, child);
+    return this;
+  }
+
+  get<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): WithRoute<TPrefix, TRoutes, 'GET', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  get<TPath extends string, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown>) => TResult]
+  ): WithRoute<TPrefix, TRoutes, 'GET', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, unknown, TResult>>;
+  get<TPath extends string, TState extends MiddlewareState, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, unknown, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown, TState>) => TResult
+  ): WithRoute<TPrefix, TRoutes, 'GET', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, unknown, TResult>>;
+  get(path: string, ...args: unknown[]): RouteGroup<TPrefix, any> {
+    return this.register('GET', path, args);
+  }
+
+  post<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): WithRoute<TPrefix, TRoutes, 'POST', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  post<TPath extends string, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>) => TResult]
+  ): WithRoute<TPrefix, TRoutes, 'POST', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  post<TPath extends string, TState extends MiddlewareState, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, TBody, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody, TState>) => TResult
+  ): WithRoute<TPrefix, TRoutes, 'POST', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  post(path: string, ...args: unknown[]): RouteGroup<TPrefix, any> {
+    return this.register('POST', path, args);
+  }
+
+  put<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): WithRoute<TPrefix, TRoutes, 'PUT', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  put<TPath extends string, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>) => TResult]
+  ): WithRoute<TPrefix, TRoutes, 'PUT', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  put<TPath extends string, TState extends MiddlewareState, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, TBody, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody, TState>) => TResult
+  ): WithRoute<TPrefix, TRoutes, 'PUT', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  put(path: string, ...args: unknown[]): RouteGroup<TPrefix, any> {
+    return this.register('PUT', path, args);
+  }
+
+  delete<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): WithRoute<TPrefix, TRoutes, 'DELETE', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  delete<TPath extends string, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown>) => TResult]
+  ): WithRoute<TPrefix, TRoutes, 'DELETE', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, unknown, TResult>>;
+  delete<TPath extends string, TState extends MiddlewareState, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, unknown, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, unknown, TState>) => TResult
+  ): WithRoute<TPrefix, TRoutes, 'DELETE', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, unknown, TResult>>;
+  delete(path: string, ...args: unknown[]): RouteGroup<TPrefix, any> {
+    return this.register('DELETE', path, args);
+  }
+
+  patch<TPath extends string, const TSchema extends RouteSchema, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    schema: TSchema,
+    ...handlers: SchemaHandlers<JoinPaths<TPrefix, TPath>, TSchema, TResult>
+  ): WithRoute<TPrefix, TRoutes, 'PATCH', TPath, SchemaEndpoint<JoinPaths<TPrefix, TPath>, TSchema, TResult>>;
+  patch<TPath extends string, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    ...handlers: [...Middleware<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>[], (ctx: Context<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody>) => TResult]
+  ): WithRoute<TPrefix, TRoutes, 'PATCH', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  patch<TPath extends string, TState extends MiddlewareState, TBody = unknown, TResult extends HandlerResult = HandlerResult>(
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, {}, TBody, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, {}, TBody, TState>) => TResult
+  ): WithRoute<TPrefix, TRoutes, 'PATCH', TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>>;
+  patch(path: string, ...args: unknown[]): RouteGroup<TPrefix, any> {
+    return this.register('PATCH', path, args);
+  }
+
+  // Pipeline route with the group middlewares prepended to the pipeline
+  route<
+    TPath extends string,
+    TState extends MiddlewareState,
+    TBody = unknown,
+    TMethod extends HTTPMethod = HTTPMethod,
+    TResult extends HandlerResult = HandlerResult
+  >(
+    method: TMethod,
+    path: TPath,
+    pipeline: MiddlewarePipeline<any, any, TBody, TState>,
+    handler: (ctx: ContextWithState<PathParams<JoinPaths<TPrefix, TPath>>, any, TBody, TState>) => TResult
+  ): WithRoute<TPrefix, TRoutes, TMethod, TPath, PlainEndpoint<JoinPaths<TPrefix, TPath>, TBody, TResult>> {
+    this.registrar.pipelineRoute(method, joinPaths(this.prefix, path), this.pipeline.concat(pipeline), handler);
+    return this as RouteGroup<TPrefix, any>;
+  }
+
+  // WebSocket route; group middlewares do not apply to upgrades
+  ws<TPath extends string>(
+    path: TPath,
+    handler: WebSocketHandler<RouteParams<JoinPaths<TPrefix, TPath>>>
+  ): this {
+    this.registrar.ws(joinPaths(this.prefix, path), handler as WebSocketHandler<any>);
+    return this;
+  }
+
+  proxy(path: string, options: ProxyOptions): this {
+    this.registrar.proxy(joinPaths(this.prefix, path), options, [...this.middlewares]);
+    return this;
+  }
+
+  private register(method: HTTPMethod, path: string, args: unknown[]): RouteGroup<TPrefix, any> {
+    const schema = args.length >= 2 && isRouteSchema(args[0]) ? args.shift() as RouteSchema : undefined;
+
+    if (!schema && args.length === 2 && isPipeline(args[0])) {
+      const [pipeline, handler] = args as [MiddlewarePipeline<any, any, any, any>, StateHandler<any, any, any, any>];
+      return this.route(method, path, pipeline, handler);
+    }
+
+    const handler = args[args.length - 1] as Handler<any>;
+    const middlewares = args.slice(0, -1) as Middleware<any>[];
+    // Validation runs after the group middlewares, ahead of the route's own
+    const validation = schema ? this.registrar.validation(schema) : [];
+    this.registrar.route(
+      method,
+      joinPaths(this.prefix, path),
+      [...this.middlewares, ...validation, ...middlewares],
+      handler,
+      schema
+    );
+    return this;
+  }
+}
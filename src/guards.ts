@@ -0,0 +1,136 @@
+// Role- and permission-based authorization guards for imphnen.js
+
+import { ForbiddenError, UnauthorizedError } from './errors.js';
+import type { ContextWithState } from './pipeline.js';
+
+// What a guard requires of `state.user`, as shown in route listings and OpenAPI
+export type Requirement =
+  | { role: string }
+  | { permission: string }
+  | { all: Requirement[] }
+  | { any: Requirement[] }
+  | { check: string };
+
+/**
+ * Pipeline middleware checking the `state.user` added by an authentication
+ * middleware earlier in the pipeline. Requests without a user get a 401,
+ * users failing the check a 403.
+ */
+export interface Guard<TUser = any> {
+  (ctx: ContextWithState<any, any, any, any>, next: () => Promise<Response>): Promise<Response>;
+  readonly requirement: Requirement;
+  // Requirements of this guard, read when listing routes
+  readonly requirements: Requirement[];
+  allows(user: TUser, ctx: ContextWithState<any, any, any, any>): boolean | Promise<boolean>;
+}
+
+export interface GuardOptions<TUser> {
+  // Roles of a user; `user.roles` or `user.role` by default
+  roles?: (user: TUser) => readonly string[];
+  // Permissions of a user; `user.permissions`, `user.scopes` or the space-separated `user.scope` by default
+  permissions?: (user: TUser) => readonly string[];
+}
+
+function defaultRoles(user: any): string[] {
+  if (Array.isArray(user?.roles)) return user.roles;
+  return typeof user?.role === 'string' ? [user.role] : [];
+}
+
+function defaultPermissions(user: any): string[] {
+  if (Array.isArray(user?.permissions)) return user.permissions;
+  if (Array.isArray(user?.scopes)) return user.scopes;
+  return typeof user?.scope === 'string' ? user.scope.split(' ').filter(Boolean) : [];
+}
+
+// `orders:*` grants every permission under `orders:`, and `*` grants everything
+function grants(granted: string, required: string): boolean {
+  if (granted === required || granted === '*') return true;
+  return granted.endsWith(':*') && required.startsWith(granted.slice(0, -1));
+}
+
+/**
+ * Human-readable form of a requirement, e.g.
+ * `role:admin and (permission:orders:write or permission:orders:*)`.
+ */
+export function describeRequirement(requirement: Requirement): string {
+  if ('role' in requirement) return `role:${requirement.role}`;
+  if ('permission' in requirement) return `permission:${requirement.permission}`;
+  if ('check' in requirement) return requirement.check;
+
+  const [kind, parts, separator] = 'all' in requirement
+    ? ['all', requirement.all, ' and '] as const
+    : ['any', requirement.any, ' or '] as const;
+  return parts.map(part => {
+    const text = describeRequirement(part);
+    // Nested groups of the other kind need parentheses
+    return ('all' in part || 'any' in part) && !(kind in part) ? `(${text})` : text;
+  }).join(separator);
+}
+
+// Requirements carried by a list of middlewares
+export function requirementsOf(middlewares: readonly unknown[]): Requirement[] {
+  return middlewares.flatMap(middleware => (middleware as { requirements?: Requirement[] } | undefined)?.requirements ?? []);
+}
+
+function createGuard<TUser>(
+  requirement: Requirement,
+  allows: (user: TUser, ctx: ContextWithState<any, any, any, any>) => boolean | Promise<boolean>
+): Guard<TUser> {
+  const middleware = async (ctx: ContextWithState<any, any, any, any>, next: () => Promise<Response>) => {
+    const user = (ctx.state as { user?: TUser } | undefined)?.user;
+    if (user === undefined || user === null) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    if (!(await allows(user, ctx))) {
+      throw new ForbiddenError('Forbidden', { details: { required: describeRequirement(requirement) } });
+    }
+    return await next();
+  };
+  return Object.assign(middleware, { requirement, requirements: [requirement], allows });
+}
+
+/**
+ * Guard factories reading roles and permissions from a typed user:
+ *
+ *   const { requireRole } = createGuards<User>({ roles: (user) => user.groups });
+ */
+export function createGuards<TUser>(options: GuardOptions<TUser> = {}) {
+  const roles = options.roles ?? defaultRoles;
+  const permissions = options.permissions ?? defaultPermissions;
+
+  return {
+    // The user has the role
+    requireRole: (role: string): Guard<TUser> =>
+      createGuard({ role }, (user) => roles(user).includes(role)),
+
+    // The user has the permission, directly or through a wildcard
+    requirePermission: (permission: string): Guard<TUser> =>
+      createGuard({ permission }, (user) => permissions(user).some(granted => grants(granted, permission))),
+
+    // Custom check, named for route listings, e.g. `guard('owner', (user, ctx) => ...)`
+    guard: (name: string, check: (user: TUser, ctx: ContextWithState<any, any, any, any>) => boolean | Promise<boolean>): Guard<TUser> =>
+      createGuard({ check: name }, check)
+  };
+}
+
+export const { requireRole, requirePermission, guard } = createGuards<any>();
+
+// Passes when every guard passes
+export function requireAll<TUser>(...guards: Guard<TUser>[]): Guard<TUser> {
+  return createGuard({ all: guards.map(g => g.requirement) }, async (user, ctx) => {
+    for (const g of guards) {
+      if (!(await g.allows(user, ctx))) return false;
+    }
+    return true;
+  });
+}
+
+// Passes when at least one guard passes
+export function requireAny<TUser>(...guards: Guard<TUser>[]): Guard<TUser> {
+  return createGuard({ any: guards.map(g => g.requirement) }, async (user, ctx) => {
+    for (const g of guards) {
+      if (await g.allows(user, ctx)) return true;
+    }
+    return false;
+  });
+}
@@ -0,0 +1,128 @@
+// Request lifecycle hooks for imphnen.js
+
+import type {
+  Context,
+  Middleware,
+  OnRequestHook,
+  BeforeHandleHook,
+  AfterHandleHook,
+  OnResponseHook
+} from './types.js';
+
+export interface LifecycleHooks {
+  onRequest: OnRequestHook[];
+  beforeHandle: BeforeHandleHook[];
+  afterHandle: AfterHandleHook[];
+  onResponse: OnResponseHook[];
+}
+
+// Hooks that can be attached to a single route or group
+export interface RouteHooks {
+  beforeHandle?: BeforeHandleHook | BeforeHandleHook[];
+  afterHandle?: AfterHandleHook | AfterHandleHook[];
+  onResponse?: OnResponseHook | OnResponseHook[];
+}
+
+export function createHooks(): LifecycleHooks {
+  return { onRequest: [], beforeHandle: [], afterHandle: [], onResponse: [] };
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Runs onRequest hooks in order. A hook may rewrite the URL in place; the
+ * first one returning a Response short-circuits routing.
+ */
+export async function runOnRequest(
+  hooks: OnRequestHook[],
+  request: Request,
+  url: URL
+): Promise<Response | undefined> {
+  for (const hook of hooks) {
+    const result = await hook(request, url);
+    if (result instanceof Response) return result;
+  }
+  return undefined;
+}
+
+/**
+ * Wraps a handler run with beforeHandle and afterHandle hooks. A
+ * beforeHandle hook returning a Response skips the handler; afterHandle
+ * hooks may replace the response.
+ */
+export async function runHandleHooks(
+  ctx: Context<any, any, any>,
+  beforeHandle: BeforeHandleHook[],
+  afterHandle: AfterHandleHook[],
+  run: () => Promise<Response>
+): Promise<Response> {
+  let response: Response | undefined;
+
+  for (const hook of beforeHandle) {
+    const result = await hook(ctx);
+    if (result instanceof Response) {
+      response = result;
+      break;
+    }
+  }
+
+  response ??= await run();
+
+  for (const hook of afterHandle) {
+    const result = await hook(ctx, response);
+    if (result instanceof Response) response = result;
+  }
+
+  return response;
+}
+
+// onResponse hooks of the routes a request went through, run with the app's hooks
+const routeOnResponse = new WeakMap<Request, OnResponseHook[]>();
+
+/**
+ * Schedules onResponse hooks with the final response, once the app has built
+ * it, so slow metrics or cleanup never delay the client. The hooks may run
+ * before a streamed body has been sent. Route hooks registered for
+ * `routedRequest` run first. Hook errors are logged.
+ */
+export function scheduleOnResponse(
+  appHooks: OnResponseHook[],
+  request: Request,
+  response: Response,
+  routedRequest: Request = request
+): void {
+  const hooks = [...routeOnResponse.get(routedRequest) ?? [], ...appHooks];
+  routeOnResponse.delete(routedRequest);
+  if (hooks.length === 0) return;
+
+  setTimeout(async () => {
+    for (const hook of hooks) {
+      try {
+        await hook(request, response);
+      } catch (error) {
+        console.error('onResponse hook error:', error);
+      }
+    }
+  }, 0);
+}
+
+/**
+ * Route- or group-level hooks packaged as middleware, so they run around the
+ * handler in the same order as the surrounding middleware.
+ */
+export function lifecycle(hooks: RouteHooks): Middleware<any, any, any> {
+  const beforeHandle = toArray(hooks.beforeHandle);
+  const afterHandle = toArray(hooks.afterHandle);
+  const onResponse = toArray(hooks.onResponse);
+
+  return async (ctx, next) => {
+    // Run by the app with the response the client gets, error responses included
+    if (onResponse.length > 0) {
+      routeOnResponse.set(ctx.req, [...routeOnResponse.get(ctx.req) ?? [], ...onResponse]);
+    }
+    return await runHandleHooks(ctx, beforeHandle, afterHandle, next);
+  };
+}
@@ -9,15 +9,159 @@ export {
   createStateMiddleware 
 } from './app.js';
 
+export {
+  HttpError,
+  BadRequestError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  MethodNotAllowedError,
+  ConflictError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  UnprocessableEntityError,
+  TooManyRequestsError,
+  InternalServerError,
+  ServiceUnavailableError,
+  ValidationError,
+  JWTError,
+  isHttpError
+} from './errors.js';
+export type { HttpErrorOptions, ValidationIssue, JWTErrorCode } from './errors.js';
+
+export {
+  t,
+  Schema,
+  StringSchema,
+  NumberSchema,
+  BooleanSchema,
+  LiteralSchema,
+  EnumSchema,
+  ArraySchema,
+  ObjectSchema,
+  OptionalSchema,
+  NullableSchema,
+  UnionSchema,
+  UnknownSchema
+} from './schema.js';
+export type {
+  StandardSchemaV1,
+  StandardSchemaProps,
+  StandardResult,
+  StandardIssue,
+  InferInput,
+  InferOutput,
+  RouteSchema,
+  RouteDetail,
+  ResponseSchema,
+  JSONSchema
+} from './schema.js';
+
+export { toJSONSchema } from './openapi.js';
+export type {
+  OpenAPIOptions,
+  OpenAPIInfo,
+  OpenAPIDocument,
+  OpenAPIOperation,
+  OpenAPIParameter,
+  DocsOptions
+} from './openapi.js';
+
+export { lifecycle } from './hooks.js';
+export type { RouteHooks } from './hooks.js';
+
+export { parseCookies, serializeCookie } from './cookies.js';
+export type { Cookies, CookieOptions, CookieConfig } from './cookies.js';
+
+export {
+  requireRole,
+  requirePermission,
+  requireAll,
+  requireAny,
+  guard,
+  createGuards,
+  describeRequirement
+} from './guards.js';
+export type { Guard, GuardOptions, Requirement } from './guards.js';
+
+export { timingSafeEqual } from './auth.js';
+export type { BasicAuthOptions, APIKeyOptions, TokenAuthOptions, Verified } from './auth.js';
+
+export { signJWT, verifyJWT, decodeJWT, createLocalJWKS, createRemoteJWKS } from './jwt.js';
+export type {
+  JWTAlgorithm,
+  JWTHeader,
+  JWTPayload,
+  JWK,
+  JWKSet,
+  JWTKey,
+  KeyResolver,
+  JWTVerifyOptions,
+  JWTSignOptions,
+  RemoteJWKSOptions,
+  AuthOptions
+} from './jwt.js';
+
+export { MemoryStore, CookieStore } from './session.js';
+export type { Session, SessionData, SessionStore, SessionOptions } from './session.js';
+
+export type { CSRFOptions, CSRFStrategy } from './csrf.js';
+
+export { createCors } from './cors.js';
+export type { Cors, CorsOptions, CorsOrigin } from './cors.js';
+
+export { createRateLimiter, MemoryRateLimitStore, RedisRateLimitStore } from './ratelimit.js';
+export type {
+  RateLimitAlgorithm,
+  RateLimitInfo,
+  RateLimitOptions,
+  RateLimitStore,
+  RateLimiter,
+  RateLimiterOptions,
+  RedisCommander,
+  TokenBucket
+} from './ratelimit.js';
+
+export { cspReportHandler } from './security.js';
+export type { CSPDirectives, CSPOptions, CSPReport, HSTSOptions, SecurityHeadersOptions } from './security.js';
+
+export { CookieJar, TestResponse, TestWebSocket } from './testing.js';
+export type { InjectOptions, RequestOptions, WebSocketInjectOptions } from './testing.js';
+
+export { createClient } from './client.js';
+export type {
+  Client,
+  ClientOptions,
+  ClientRequestOptions,
+  ClientResponse,
+  AppRoutes,
+  Endpoint,
+  ResponseEntry,
+  RouteMap
+} from './client.js';
+
+export { RouteGroup } from './group.js';
+export type { GroupMiddleware, GroupCallback, GroupOptions, JoinPaths } from './group.js';
+
 export type { 
   HTTPMethod, 
   Context, 
   Handler, 
   Middleware, 
   RouteParams,
+  RouteInfo,
+  PathParams,
+  TypedResponse,
   ImphnenOptions,
+  ErrorHandler,
+  OnRequestHook,
+  BeforeHandleHook,
+  AfterHandleHook,
+  OnResponseHook,
   UploadedFile,
-  ProxyOptions
+  ProxyOptions,
+  ServerHandle,
+  StopOptions
 } from './types.js';
 
 export type {
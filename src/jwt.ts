@@ -0,0 +1,416 @@
+// JSON Web Token signing and verification for imphnen.js
+
+import { JWTError, UnauthorizedError } from './errors.js';
+import { bearerToken } from './auth.js';
+import type { ContextWithState, PipelineMiddleware } from './pipeline.js';
+import type { JsonWebKey } from 'node:crypto';
+
+export type JWTAlgorithm = 'HS256' | 'RS256' | 'ES256' | 'EdDSA';
+
+export interface JWTHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  [parameter: string]: unknown;
+}
+
+// Registered claims (RFC 7519); times are seconds since the epoch
+export interface JWTPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+export interface JWK {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  crv?: string;
+  [parameter: string]: unknown;
+}
+
+export interface JWKSet {
+  keys: JWK[];
+}
+
+/**
+ * An HMAC secret (string or bytes), a PEM-encoded SPKI or PKCS#8 key, a JWK
+ * or a CryptoKey. The key type fixes the algorithms it can be used with, so
+ * a public key can never be used as an HMAC secret.
+ */
+export type JWTKey = string | Uint8Array | CryptoKey | JWK;
+
+// Picks the key for a token from its header, e.g. by `kid` from a JWKS
+export type KeyResolver = (header: JWTHeader) => JWTKey | Promise<JWTKey>;
+
+export interface JWTVerifyOptions {
+  key: JWTKey | KeyResolver;
+  // Accepted algorithms; all supported ones by default
+  algorithms?: JWTAlgorithm[];
+  // Expected `iss`; one of them when a list is given
+  issuer?: string | string[];
+  // Expected `aud`; the token must name at least one of them
+  audience?: string | string[];
+  // Seconds of leeway for `exp` and `nbf`, for clocks that drift apart
+  clockTolerance?: number;
+}
+
+export interface JWTSignOptions {
+  algorithm?: JWTAlgorithm;
+  // Seconds until the token expires
+  expiresIn?: number;
+  // Seconds until the token becomes valid
+  notBefore?: number;
+  issuer?: string;
+  audience?: string | string[];
+  subject?: string;
+  jwtId?: string;
+  // `kid` header, so verifiers can pick the key from a JWKS
+  keyId?: string;
+}
+
+export interface RemoteJWKSOptions {
+  // Seconds a fetched key set is reused, 10 minutes by default
+  cacheMaxAge?: number;
+  // Minimum seconds between refetches caused by an unknown `kid`, 30 by default
+  cooldown?: number;
+  fetch?: (request: Request) => Response | Promise<Response>;
+}
+
+type ImportParams = Parameters<typeof crypto.subtle.importKey>[2];
+type SignParams = Parameters<typeof crypto.subtle.sign>[0];
+
+interface AlgorithmSpec {
+  // JWK key type the algorithm needs, and its curve for EC and OKP keys
+  kty: string;
+  crv?: string;
+  import: ImportParams;
+  sign: SignParams;
+}
+
+const ALGORITHMS: Record<JWTAlgorithm, AlgorithmSpec> = {
+  HS256: { kty: 'oct', import: { name: 'HMAC', hash: 'SHA-256' }, sign: 'HMAC' },
+  RS256: { kty: 'RSA', import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, sign: 'RSASSA-PKCS1-v1_5' },
+  ES256: { kty: 'EC', crv: 'P-256', import: { name: 'ECDSA', namedCurve: 'P-256' }, sign: { name: 'ECDSA', hash: 'SHA-256' } },
+  EdDSA: { kty: 'OKP', crv: 'Ed25519', import: { name: 'Ed25519' }, sign: 'Ed25519' }
+};
+
+const ALL_ALGORITHMS = Object.keys(ALGORITHMS) as JWTAlgorithm[];
+
+// Whether a JWK's `alg` allows the algorithm; RFC 9864 names EdDSA over Ed25519 "Ed25519"
+function allowsAlgorithm(key: JWK, algorithm: string): boolean {
+  return key.alg === undefined || key.alg === algorithm || (algorithm === 'EdDSA' && key.alg === 'Ed25519');
+}
+
+// Whether a JWK's type and curve fit the algorithm
+function fitsAlgorithm(key: JWK, algorithm: string): boolean {
+  const spec = ALGORITHMS[algorithm as JWTAlgorithm] as AlgorithmSpec | undefined;
+  return spec !== undefined &&
+    key.kty === spec.kty &&
+    (spec.crv === undefined || key.crv === spec.crv) &&
+    allowsAlgorithm(key, algorithm);
+}
+
+const encoder = new TextEncoder();
+
+function base64url(data: Uint8Array | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+function decodeSegment(segment: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(segment)) {
+    throw new JWTError('malformed', 'Token is not valid base64url');
+  }
+  return new Uint8Array(Buffer.from(segment, 'base64url'));
+}
+
+function decodeJSON(segment: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(new TextDecoder().decode(decodeSegment(segment)));
+    if (value && typeof value === 'object' && !Array.isArray(value)) return value;
+  } catch (error) {
+    if (error instanceof JWTError) throw error;
+  }
+  throw new JWTError('malformed', 'Token header or payload is not a JSON object');
+}
+
+// Imported keys, cached per key object and per string secret or PEM
+const importedObjects = new WeakMap<object, Map<string, Promise<CryptoKey>>>();
+const importedStrings = new Map<string, Map<string, Promise<CryptoKey>>>();
+
+function importKey(key: JWTKey, algorithm: JWTAlgorithm, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  if (key instanceof CryptoKey) {
+    const expected = (ALGORITHMS[algorithm].import as { name: string }).name;
+    return key.algorithm.name === expected
+      ? Promise.resolve(key)
+      : Promise.reject(new JWTError('unsupported_algorithm', `Key cannot be used with ${algorithm}`));
+  }
+
+  let cache = typeof key === 'string' ? importedStrings.get(key) : importedObjects.get(key);
+  if (!cache) {
+    cache = new Map();
+    if (typeof key === 'string') importedStrings.set(key, cache);
+    else importedObjects.set(key, cache);
+  }
+
+  const cacheKey = `${algorithm}:${usage}`;
+  let imported = cache.get(cacheKey);
+  if (!imported) {
+    imported = importKeyUncached(key, algorithm, usage);
+    // Failed imports are not cached, so a fixed key is picked up on the next call
+    imported.catch(() => cache.delete(cacheKey));
+    cache.set(cacheKey, imported);
+  }
+  return imported;
+}
+
+async function importKeyUncached(key: Exclude<JWTKey, CryptoKey>, algorithm: JWTAlgorithm, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  const spec = ALGORITHMS[algorithm];
+
+  if (typeof key === 'string' && key.startsWith('-----BEGIN ')) {
+    const match = /^-----BEGIN (PUBLIC KEY|PRIVATE KEY)-----([\s\S]+?)-----END \1-----\s*$/.exec(key);
+    if (!match) {
+      throw new Error('PEM keys must be SPKI ("PUBLIC KEY") or PKCS#8 ("PRIVATE KEY")');
+    }
+    if (algorithm === 'HS256') {
+      throw new JWTError('unsupported_algorithm', 'HS256 needs a shared secret, not a PEM key');
+    }
+    const format = match[1] === 'PUBLIC KEY' ? 'spki' : 'pkcs8';
+    const der = Buffer.from(match[2]!.replace(/\s+/g, ''), 'base64');
+    return await crypto.subtle.importKey(format, der, spec.import, false, [usage]);
+  }
+
+  if (typeof key === 'string' || key instanceof Uint8Array) {
+    if (algorithm !== 'HS256') {
+      throw new JWTError('unsupported_algorithm', `${algorithm} needs a public or private key, not a shared secret`);
+    }
+    const raw = typeof key === 'string' ? encoder.encode(key) : key;
+    return await crypto.subtle.importKey('raw', raw, spec.import, false, [usage]);
+  }
+
+  if (!fitsAlgorithm(key, algorithm)) {
+    throw new JWTError('unsupported_algorithm', `Key ${key.kid ? `"${key.kid}" ` : ''}cannot be used with ${algorithm}`);
+  }
+  return await crypto.subtle.importKey('jwk', key as JsonWebKey, spec.import, false, [usage]);
+}
+
+/**
+ * Creates a signed token. `iat` is set to the current time; the options fill
+ * in the registered claims and take precedence over the same claims in
+ * `payload`.
+ */
+export async function signJWT(payload: JWTPayload, key: JWTKey, options: JWTSignOptions = {}): Promise<string> {
+  const algorithm = options.algorithm ?? 'HS256';
+  const now = Math.floor(Date.now() / 1000);
+
+  const header: JWTHeader = { alg: algorithm, typ: 'JWT' };
+  if (options.keyId !== undefined) header.kid = options.keyId;
+
+  const claims: JWTPayload = { iat: now, ...payload };
+  if (options.expiresIn !== undefined) claims.exp = now + options.expiresIn;
+  if (options.notBefore !== undefined) claims.nbf = now + options.notBefore;
+  if (options.issuer !== undefined) claims.iss = options.issuer;
+  if (options.audience !== undefined) claims.aud = options.audience;
+  if (options.subject !== undefined) claims.sub = options.subject;
+  if (options.jwtId !== undefined) claims.jti = options.jwtId;
+
+  const input = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+  const cryptoKey = await importKey(key, algorithm, 'sign');
+  const signature = await crypto.subtle.sign(ALGORITHMS[algorithm].sign, cryptoKey, encoder.encode(input));
+  return `${input}.${base64url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Reads the header and payload of a token without verifying it. Never trust
+ * the result; use it only to route a token to the right verifier.
+ */
+export function decodeJWT<T extends JWTPayload = JWTPayload>(token: string): { header: JWTHeader; payload: T } {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new JWTError('malformed', 'Token must have three parts');
+  }
+  const header = decodeJSON(parts[0]!);
+  if (typeof header.alg !== 'string') {
+    throw new JWTError('malformed', 'Token header has no algorithm');
+  }
+  return { header: header as JWTHeader, payload: decodeJSON(parts[1]!) as T };
+}
+
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Verifies a token's signature and its `exp`, `nbf`, `iss` and `aud` claims,
+ * and returns the payload. Every failure throws a JWTError, which responds
+ * with 401 when left uncaught in a handler.
+ */
+export async function verifyJWT<T extends JWTPayload = JWTPayload>(token: string, options: JWTVerifyOptions): Promise<T> {
+  const { header, payload } = decodeJWT<T>(token);
+  const [headerSegment, payloadSegment, signatureSegment] = token.split('.') as [string, string, string];
+
+  const algorithm = header.alg as JWTAlgorithm;
+  if (!Object.hasOwn(ALGORITHMS, algorithm) || !(options.algorithms ?? ALL_ALGORITHMS).includes(algorithm)) {
+    throw new JWTError('unsupported_algorithm', `Algorithm "${header.alg}" is not accepted`);
+  }
+
+  const key = typeof options.key === 'function' ? await options.key(header) : options.key;
+  let valid: boolean;
+  try {
+    const cryptoKey = await importKey(key, algorithm, 'verify');
+    valid = await crypto.subtle.verify(
+      ALGORITHMS[algorithm].sign,
+      cryptoKey,
+      decodeSegment(signatureSegment),
+      encoder.encode(`${headerSegment}.${payloadSegment}`)
+    );
+  } catch (error) {
+    // A key WebCrypto rejects, such as one from a JWKS with a bad point, is still a 401
+    if (error instanceof JWTError) throw error;
+    throw new JWTError('invalid_key', 'Key cannot be used to verify the token', { cause: error });
+  }
+  if (!valid) {
+    throw new JWTError('invalid_signature', 'Token signature is invalid');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 0;
+  for (const claim of ['exp', 'nbf', 'iat'] as const) {
+    if (payload[claim] !== undefined && typeof payload[claim] !== 'number') {
+      throw new JWTError('malformed', `Claim "${claim}" must be a number`);
+    }
+  }
+  if (payload.exp !== undefined && now - tolerance >= payload.exp) {
+    throw new JWTError('expired', 'Token has expired');
+  }
+  if (payload.nbf !== undefined && now + tolerance < payload.nbf) {
+    throw new JWTError('not_yet_valid', 'Token is not valid yet');
+  }
+  if (options.issuer !== undefined && !toList(options.issuer).includes(payload.iss as string)) {
+    throw new JWTError('invalid_issuer', 'Token issuer is not accepted');
+  }
+  if (options.audience !== undefined) {
+    const audiences = payload.aud === undefined ? [] : toList(payload.aud);
+    if (!toList(options.audience).some(audience => audiences.includes(audience))) {
+      throw new JWTError('invalid_audience', 'Token audience is not accepted');
+    }
+  }
+
+  return payload;
+}
+
+// The key in a set matching the token's `kid` and algorithm
+function selectKey(keys: JWK[], header: JWTHeader): JWK | undefined {
+  return keys.find(key =>
+    (header.kid === undefined || key.kid === header.kid) &&
+    (key.use === undefined || key.use === 'sig') &&
+    fitsAlgorithm(key, header.alg)
+  );
+}
+
+/**
+ * Resolves keys from a JSON Web Key Set held in memory.
+ */
+export function createLocalJWKS(set: JWKSet): KeyResolver {
+  return (header) => {
+    const key = selectKey(set.keys, header);
+    if (!key) throw new JWTError('no_matching_key', 'No key matches the token');
+    return key;
+  };
+}
+
+/**
+ * Resolves keys from a JSON Web Key Set fetched from `url`, such as an
+ * identity provider's `jwks_uri`. The set is cached, and refetched early
+ * when a token names an unknown `kid` so rotated keys are picked up.
+ */
+export function createRemoteJWKS(url: string | URL, options: RemoteJWKSOptions = {}): KeyResolver {
+  const cacheMaxAge = (options.cacheMaxAge ?? 600) * 1000;
+  const cooldown = (options.cooldown ?? 30) * 1000;
+  const fetcher = options.fetch ?? ((request: Request) => fetch(request));
+
+  let keys: JWK[] = [];
+  let fetchedAt = -Infinity;
+  let pending: Promise<void> | null = null;
+
+  const refresh = () => {
+    pending ??= (async () => {
+      try {
+        const response = await fetcher(new Request(String(url), { headers: { accept: 'application/json' } }));
+        if (!response.ok) {
+          throw new Error(`Fetching the JWKS from ${url} failed with status ${response.status}`);
+        }
+        const set = await response.json() as JWKSet;
+        if (!Array.isArray(set?.keys)) {
+          throw new Error(`The JWKS at ${url} has no "keys" array`);
+        }
+        keys = set.keys;
+        fetchedAt = Date.now();
+      } finally {
+        pending = null;
+      }
+    })();
+    return pending;
+  };
+
+  return async (header) => {
+    if (Date.now() - fetchedAt > cacheMaxAge) await refresh();
+
+    let key = selectKey(keys, header);
+    if (!key && Date.now() - fetchedAt >= cooldown) {
+      await refresh();
+      key = selectKey(keys, header);
+    }
+    if (!key) throw new JWTError('no_matching_key', 'No key matches the token');
+    return key;
+  };
+}
+
+export interface AuthOptions<TUser = JWTPayload, TClaims extends JWTPayload = JWTPayload> extends Omit<JWTVerifyOptions, 'key'> {
+  // Secret, public key or resolver; or use `jwks`
+  key?: JWTKey | KeyResolver;
+  // A key set, or the URL of one to fetch and cache
+  jwks?: string | URL | JWKSet;
+  // Turns verified claims into `state.user`; the claims themselves by default
+  user?: (claims: TClaims, ctx: ContextWithState<any, any, any, {}>) => TUser | Promise<TUser>;
+  // Reads the token from the request; the `Authorization: Bearer` header by default
+  token?: (ctx: ContextWithState<any, any, any, {}>) => string | undefined;
+}
+
+/**
+ * Verifies the request's bearer token and adds the user to state. Requests
+ * without a valid token are rejected with 401.
+ */
+export function createJWTMiddleware<TUser = JWTPayload, TClaims extends JWTPayload = JWTPayload>(
+  options: AuthOptions<TUser, TClaims>
+): PipelineMiddleware<any, any, any, {}, { user: TUser }> {
+  const { jwks, user, token: readToken = bearerToken, ...verifyOptions } = options;
+
+  let key: JWTKey | KeyResolver;
+  if (options.key !== undefined) {
+    key = options.key;
+  } else if (typeof jwks === 'string' || jwks instanceof URL) {
+    key = createRemoteJWKS(jwks);
+  } else if (jwks) {
+    key = createLocalJWKS(jwks);
+  } else {
+    throw new Error('JWT authentication needs a `key` or `jwks` option');
+  }
+
+  return async (ctx, next) => {
+    const token = readToken(ctx);
+    if (!token) {
+      throw new UnauthorizedError('Authentication required', { headers: { 'WWW-Authenticate': 'Bearer' } });
+    }
+
+    const claims = await verifyJWT<TClaims>(token, { ...verifyOptions, key });
+    (ctx.state as any).user = user ? await user(claims, ctx) : claims;
+    return await next();
+  };
+}
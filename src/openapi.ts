@@ -0,0 +1,328 @@
+// OpenAPI 3.1 document generation for imphnen.js
+
+import type { HTTPMethod } from './types.js';
+import { Schema, isStandardSchema } from './schema.js';
+import type { JSONSchema, RouteSchema, StandardSchemaV1 } from './schema.js';
+import { expandOptional, parseParam, splitPath } from './router.js';
+import { describeRequirement } from './guards.js';
+import type { Requirement } from './guards.js';
+
+export interface OpenAPIInfo {
+  title: string;
+  version: string;
+  description?: string;
+  [key: string]: unknown;
+}
+
+export interface OpenAPIOptions {
+  info: OpenAPIInfo;
+  servers?: { url: string; description?: string }[];
+  tags?: { name: string; description?: string }[];
+  components?: {
+    schemas?: Record<string, JSONSchema>;
+    securitySchemes?: Record<string, Record<string, unknown>>;
+  };
+  // Security requirements applied to every operation without its own
+  security?: Record<string, string[]>[];
+}
+
+// `app.docs()` options: the document options plus where to serve it
+export interface DocsOptions extends OpenAPIOptions {
+  // Path of the docs page (default: '/docs')
+  path?: string;
+  // Path of the JSON document (default: '/openapi.json')
+  specPath?: string;
+}
+
+export interface OpenAPIParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  schema: JSONSchema;
+}
+
+export interface OpenAPIOperation {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+  security?: Record<string, string[]>[];
+  // Guards protecting the route, e.g. `role:admin and permission:orders:write`
+  'x-requires'?: string;
+  parameters?: OpenAPIParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JSONSchema }> };
+  responses: Record<string, { description: string; content?: Record<string, { schema: JSONSchema }> }>;
+}
+
+export interface OpenAPIDocument extends Omit<OpenAPIOptions, 'info'> {
+  openapi: '3.1.0';
+  info: OpenAPIInfo;
+  paths: Record<string, Partial<Record<Lowercase<HTTPMethod>, OpenAPIOperation>>>;
+}
+
+// A registered route as seen by the document generator
+export interface OperationSource {
+  method: HTTPMethod;
+  path: string;
+  schema?: RouteSchema;
+  // Guards protecting the route
+  requirements?: Requirement[];
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  301: 'Moved Permanently',
+  302: 'Found',
+  304: 'Not Modified',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  503: 'Service Unavailable'
+};
+
+// Standard JSON Schema extension implemented by some validator libraries
+interface JSONSchemaConverter {
+  output(options: { target: string }): JSONSchema;
+}
+
+/**
+ * JSON Schema for any supported validator: built-in schemas convert
+ * themselves, foreign validators are asked through the Standard JSON Schema
+ * `~standard.jsonSchema` extension or a `toJSONSchema()` method. Validators
+ * offering neither are documented as `{}` (any value).
+ */
+export function toJSONSchema(schema: StandardSchemaV1): JSONSchema {
+  if (schema instanceof Schema) return schema.toJSONSchema();
+
+  const converter = (schema['~standard'] as { jsonSchema?: JSONSchemaConverter }).jsonSchema;
+  if (typeof converter?.output === 'function') {
+    return converter.output({ target: 'draft-2020-12' });
+  }
+
+  const convert = (schema as { toJSONSchema?: () => JSONSchema }).toJSONSchema;
+  return typeof convert === 'function' ? convert.call(schema) : {};
+}
+
+// Properties and required keys of an object schema, or nothing for other shapes
+function objectFields(schema: StandardSchemaV1 | undefined): { properties: Record<string, JSONSchema>; required: string[] } {
+  const json = schema ? toJSONSchema(schema) : {};
+  return {
+    properties: (json.properties as Record<string, JSONSchema> | undefined) ?? {},
+    required: (json.required as string[] | undefined) ?? []
+  };
+}
+
+// Query and header parameters declared by an object schema
+function namedParameters(location: 'query' | 'header', schema: StandardSchemaV1 | undefined): OpenAPIParameter[] {
+  const { properties, required } = objectFields(schema);
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: required.includes(name),
+    schema: property
+  }));
+}
+
+/**
+ * Converts a route pattern into every OpenAPI path it describes, with the
+ * path parameters of each. Optional params produce one path per variant and
+ * `(regex)` constraints become the parameter's `pattern`.
+ */
+function openAPIPaths(path: string, params: StandardSchemaV1 | undefined): { path: string; parameters: OpenAPIParameter[] }[] {
+  const { properties } = objectFields(params);
+
+  return expandOptional(splitPath(path)).map(segments => {
+    const parameters: OpenAPIParameter[] = [];
+    const parts = segments.map(segment => {
+      if (segment !== '*' && !segment.startsWith(':')) return segment;
+
+      const catchAll = segment.endsWith('*') && segment !== '*';
+      const { name, source } = parseParam(catchAll ? segment.slice(0, -1) : segment);
+      const schema = properties[name] ?? (source ? { type: 'string', pattern: `^(?:${source})$` } : { type: 'string' });
+      parameters.push({ name, in: 'path', required: true, schema });
+      return `{${name}}`;
+    });
+    return { path: `/${parts.join('/')}`, parameters };
+  });
+}
+
+function jsonContent(schema: StandardSchemaV1): Record<string, { schema: JSONSchema }> {
+  return { 'application/json': { schema: toJSONSchema(schema) } };
+}
+
+// Declared responses keyed by status; a single schema documents the 200 response
+function operationResponses(schema: RouteSchema | undefined): OpenAPIOperation['responses'] {
+  const response = schema?.response;
+  if (!response) return { '200': { description: STATUS_TEXT[200]! } };
+
+  const byStatus: Record<number, StandardSchemaV1> = isStandardSchema(response) ? { 200: response } : response;
+  const responses: OpenAPIOperation['responses'] = {};
+  for (const [status, target] of Object.entries(byStatus)) {
+    responses[status] = { description: STATUS_TEXT[Number(status)] ?? 'Response', content: jsonContent(target) };
+  }
+  return responses;
+}
+
+function createOperation(source: OperationSource, pathParameters: OpenAPIParameter[]): OpenAPIOperation {
+  const { schema } = source;
+  const detail = schema?.detail ?? {};
+  const parameters = [
+    ...pathParameters,
+    ...namedParameters('query', schema?.query),
+    ...namedParameters('header', schema?.headers)
+  ];
+
+  const operation: OpenAPIOperation = {
+    summary: detail.summary,
+    description: detail.description,
+    tags: detail.tags,
+    operationId: detail.operationId,
+    deprecated: detail.deprecated,
+    security: detail.security,
+    'x-requires': source.requirements?.length ? describeRequirement({ all: source.requirements }) : undefined,
+    parameters: parameters.length > 0 ? parameters : undefined,
+    requestBody: schema?.body ? { required: true, content: jsonContent(schema.body) } : undefined,
+    responses: operationResponses(schema)
+  };
+
+  // Guarded routes can also answer 401 and 403
+  if (source.requirements?.length) {
+    operation.responses['401'] ??= { description: STATUS_TEXT[401]! };
+    operation.responses['403'] ??= { description: STATUS_TEXT[403]! };
+  }
+
+  // Leave unset fields out of the JSON output
+  for (const key of Object.keys(operation) as (keyof OpenAPIOperation)[]) {
+    if (operation[key] === undefined) delete operation[key];
+  }
+  return operation;
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from registered routes. Routes whose
+ * `detail.hide` is set are left out; when several routes share a method and
+ * path, the first registration is documented, matching the router.
+ */
+export function createOpenAPIDocument(options: OpenAPIOptions, sources: OperationSource[]): OpenAPIDocument {
+  const document: OpenAPIDocument = { openapi: '3.1.0', ...options, paths: {} };
+
+  for (const source of sources) {
+    if (source.schema?.detail?.hide) continue;
+
+    for (const { path, parameters } of openAPIPaths(source.path, source.schema?.params)) {
+      const item = document.paths[path] ??= {};
+      const method = source.method.toLowerCase() as Lowercase<HTTPMethod>;
+      item[method] ??= createOperation(source, parameters);
+    }
+  }
+
+  return document;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Content-Security-Policy for `docsPage()` rendered with `nonce`, which only lets its own inline code run
+export function docsPagePolicy(nonce: string): string {
+  return `default-src 'self'; base-uri 'none'; object-src 'none'; frame-ancestors 'self'; ` +
+    `script-src 'nonce-${nonce}'; style-src 'nonce-${nonce}'`;
+}
+
+/**
+ * Self-contained documentation page rendering the spec at `specUrl`. Scripts
+ * and styles are inlined, so the page loads nothing from a CDN.
+ */
+export function docsPage(title: string, specUrl: string, nonce?: string): string {
+  const nonceAttribute = nonce ? ` nonce="${escapeHtml(nonce)}"` : '';
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style${nonceAttribute}>
+  body { font: 15px/1.5 system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 24px; color: #1f2328; }
+  h1 { margin-bottom: 0; }
+  h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 4px; margin-top: 32px; }
+  details { border: 1px solid #d0d7de; border-radius: 6px; margin: 8px 0; }
+  summary { cursor: pointer; padding: 8px 12px; }
+  summary code { font-weight: 600; }
+  .method { display: inline-block; min-width: 64px; font-weight: 700; text-transform: uppercase; }
+  .get { color: #0969da; } .post { color: #1a7f37; } .put, .patch { color: #9a6700; } .delete { color: #cf222e; }
+  .deprecated { text-decoration: line-through; }
+  .body { padding: 0 12px 12px; }
+  pre { background: #f6f8fa; border-radius: 6px; overflow: auto; padding: 8px; }
+  table { border-collapse: collapse; } td, th { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<div id="app">Loading ${escapeHtml(specUrl)}…</div>
+<script${nonceAttribute}>
+(async () => {
+  const app = document.getElementById('app');
+  const el = (tag, props = {}, ...children) => {
+    const node = Object.assign(document.createElement(tag), props);
+    node.append(...children.filter(child => child != null));
+    return node;
+  };
+  const json = (value) => el('pre', {}, JSON.stringify(value, null, 2));
+
+  let spec;
+  try {
+    spec = await (await fetch(${JSON.stringify(specUrl)})).json();
+  } catch (error) {
+    app.textContent = 'Failed to load the OpenAPI document: ' + error;
+    return;
+  }
+
+  const groups = new Map();
+  for (const [path, item] of Object.entries(spec.paths || {})) {
+    for (const [method, operation] of Object.entries(item)) {
+      for (const tag of operation.tags && operation.tags.length ? operation.tags : ['default']) {
+        if (!groups.has(tag)) groups.set(tag, []);
+        groups.get(tag).push({ path, method, operation });
+      }
+    }
+  }
+
+  app.replaceChildren(
+    el('h1', {}, spec.info.title + ' ', el('small', {}, spec.info.version)),
+    spec.info.description ? el('p', {}, spec.info.description) : null,
+    ...[...groups].flatMap(([tag, operations]) => [
+      el('h2', {}, tag),
+      ...operations.map(({ path, method, operation }) => el('details', {},
+        el('summary', { className: operation.deprecated ? 'deprecated' : '' },
+          el('span', { className: 'method ' + method }, method), el('code', {}, path),
+          operation.summary ? ' — ' + operation.summary : null),
+        el('div', { className: 'body' },
+          operation.description ? el('p', {}, operation.description) : null,
+          operation.security ? el('p', {}, 'Security: ' + operation.security.map(r => Object.keys(r).join(' + ')).join(' or ')) : null,
+          operation.parameters ? el('table', {},
+            el('tr', {}, el('th', {}, 'Name'), el('th', {}, 'In'), el('th', {}, 'Required'), el('th', {}, 'Schema')),
+            ...operation.parameters.map(p => el('tr', {},
+              el('td', {}, p.name), el('td', {}, p.in), el('td', {}, p.required ? 'yes' : 'no'),
+              el('td', {}, el('code', {}, JSON.stringify(p.schema)))))) : null,
+          operation.requestBody ? el('div', {}, el('h4', {}, 'Request body'),
+            json(operation.requestBody.content['application/json'].schema)) : null,
+          ...Object.entries(operation.responses).map(([status, response]) => el('div', {},
+            el('h4', {}, status + ' ' + response.description),
+            response.content ? json(response.content['application/json'].schema) : null))
+        )
+      ))
+    ])
+  );
+})();
+</script>
+</body>
+</html>`;
+}
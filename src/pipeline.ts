@@ -1,5 +1,27 @@
 // Advanced middleware pipeline with generic typing for imphnen.js
 
+import { runSchema } from './schema.js';
+import type { StandardSchemaV1 } from './schema.js';
+import { ValidationError } from './errors.js';
+import type { ValidationIssue } from './errors.js';
+import type { Cookies } from './cookies.js';
+import { requirementsOf } from './guards.js';
+import type { Requirement } from './guards.js';
+import { createJWTMiddleware } from './jwt.js';
+import { createAPIKeyMiddleware, createBasicAuthMiddleware, createTokenAuthMiddleware } from './auth.js';
+import type { APIKeyOptions, BasicAuthOptions, TokenAuthOptions } from './auth.js';
+import type { AuthOptions, JWTPayload } from './jwt.js';
+import { createSessionMiddleware } from './session.js';
+import type { SessionData, SessionOptions } from './session.js';
+import { createCSRFMiddleware } from './csrf.js';
+import type { CSRFOptions } from './csrf.js';
+import { createSecurityHeadersMiddleware } from './security.js';
+import type { SecurityHeadersOptions } from './security.js';
+import { createCorsMiddleware } from './cors.js';
+import type { CorsOptions } from './cors.js';
+import { createRateLimitMiddleware } from './ratelimit.js';
+import type { RateLimitOptions } from './ratelimit.js';
+
 export type MiddlewareState = Record<string, unknown>;
 
 export type ContextWithState<
@@ -14,6 +36,8 @@ export type ContextWithState<
   body: TBody;
   headers: Headers;
   state: TState;
+  cookies: Cookies;
+  ip?: string;
   set: {
     headers: (headers: Record<string, string>) => void;
     status: (status: number) => void;
@@ -58,10 +82,13 @@ export class MiddlewarePipeline<
   ) {}
 
   // Add middleware with state transformation
-  use<TNewState extends MiddlewareState>(
+  // Middlewares that do not declare a new state, such as guards, keep the current one
+  use<TNewState extends MiddlewareState = TState>(
     middleware: PipelineMiddleware<TParams, TQuery, TBody, TState, TNewState>
   ): MiddlewarePipeline<TParams, TQuery, TBody, TNewState> {
-    const newPipeline = new MiddlewarePipeline<TParams, TQuery, TBody, TNewState>();
+    const newPipeline = new MiddlewarePipeline<TParams, TQuery, TBody, TNewState>(
+      this.initialState as unknown as TNewState
+    );
     newPipeline.middlewares = [...this.middlewares, middleware];
     return newPipeline;
   }
@@ -77,13 +104,39 @@ export class MiddlewarePipeline<
     return pipeline;
   }
 
+  // Whether any middleware has been added
+  isEmpty(): boolean {
+    return this.middlewares.length === 0;
+  }
+
+  // Requirements of the guards in this pipeline
+  requirements(): Requirement[] {
+    return requirementsOf(this.middlewares);
+  }
+
+  // Run this pipeline's middlewares, then another pipeline's, sharing one state object
+  concat<TNewState extends MiddlewareState>(
+    other: MiddlewarePipeline<TParams, TQuery, TBody, TNewState>
+  ): MiddlewarePipeline<TParams, TQuery, TBody, TState & TNewState> {
+    const newPipeline = new MiddlewarePipeline<TParams, TQuery, TBody, TState & TNewState>(
+      { ...this.initialState, ...other.initialState } as TState & TNewState
+    );
+    newPipeline.middlewares = [...this.middlewares, ...other.middlewares];
+    return newPipeline;
+  }
+
   // Execute the pipeline with a handler
   async execute(
     ctx: ContextWithState<TParams, TQuery, TBody, {}>,
     handler: StateHandler<TParams, TQuery, TBody, TState>
   ): Promise<Response> {
-    // Add initial state to context
-    const stateCtx = { ...ctx, state: this.initialState };
+    // Pipelines run for the same request share its state, so what an earlier one
+    // added reaches later middlewares; the initial state only fills missing keys
+    const state: MiddlewareState = ctx.state;
+    for (const [key, value] of Object.entries(this.initialState)) {
+      if (!(key in state)) state[key] = value;
+    }
+    const stateCtx = { ...ctx, state };
     
     let index = 0;
 
@@ -129,63 +182,37 @@ export function createStateMiddleware<
 
 // Built-in middleware creators with state typing
 export const BuiltinMiddleware = {
-  // Authentication middleware that adds user to state
-  auth: <TUser = { id: string; email: string }>() =>
-    createStateMiddleware<any, any, any, {}, { user: TUser }>(
-      async (ctx, next) => {
-        const token = ctx.headers.get('authorization');
-        
-        if (!token || !token.startsWith('Bearer ')) {
-          ctx.set.status(401);
-          return ctx.json({ error: 'Authentication required' });
-        }
+  // JWT authentication middleware that adds the verified user to state
+  auth: <TUser = JWTPayload, TClaims extends JWTPayload = JWTPayload>(options: AuthOptions<TUser, TClaims>) =>
+    createJWTMiddleware<TUser, TClaims>(options),
 
-        // Mock authentication - in real app, validate JWT
-        const user = {
-          id: 'user-123',
-          email: 'user@example.com'
-        } as TUser;
+  // HTTP Basic authentication middleware that adds the user to state
+  basicAuth: <TUser = { username: string }>(options: BasicAuthOptions<TUser>) =>
+    createBasicAuthMiddleware<TUser>(options),
 
-        (ctx.state as any).user = user;
-        return await next();
-      }
-    ),
+  // API key authentication middleware that adds the key's owner to state
+  apiKey: <TUser = { key: string }>(options: APIKeyOptions<TUser>) =>
+    createAPIKeyMiddleware<TUser>(options),
 
-  // CORS middleware
-  cors: (options: {
-    origin?: string | string[];
-    methods?: string[];
-    headers?: string[];
-  } = {}) =>
-    createStateMiddleware(async (ctx, next) => {
-      // Handle preflight
-      if (ctx.req.method === 'OPTIONS') {
-        const headers = new Headers();
-        headers.set('Access-Control-Allow-Origin', 
-          Array.isArray(options.origin) ? options.origin.join(', ') : (options.origin || '*')
-        );
-        headers.set('Access-Control-Allow-Methods', 
-          options.methods?.join(', ') || 'GET, POST, PUT, DELETE, PATCH, OPTIONS'
-        );
-        headers.set('Access-Control-Allow-Headers', 
-          options.headers?.join(', ') || 'Content-Type, Authorization'
-        );
-        return new Response(null, { status: 204, headers });
-      }
+  // Bearer token middleware with a custom verifier that adds the token's owner to state
+  tokenAuth: <TUser>(options: TokenAuthOptions<TUser>) =>
+    createTokenAuthMiddleware<TUser>(options),
 
-      const response = await next();
-      
-      // Add CORS headers to response
-      const corsHeaders = new Headers(response.headers);
-      corsHeaders.set('Access-Control-Allow-Origin', 
-        Array.isArray(options.origin) ? options.origin.join(', ') : (options.origin || '*')
-      );
-      
-      return new Response(response.body, {
-        status: response.status,
-        headers: corsHeaders
-      });
-    }),
+  // Session middleware that adds the session to state
+  session: <TData extends SessionData = SessionData>(options?: SessionOptions) =>
+    createSessionMiddleware<TData>(options),
+
+  // CSRF protection middleware that adds the form token to state
+  csrf: (options?: CSRFOptions) =>
+    createCSRFMiddleware(options),
+
+  // Security headers middleware that adds the CSP nonce to state
+  securityHeaders: (options?: SecurityHeadersOptions) =>
+    createSecurityHeadersMiddleware(options),
+
+  // CORS middleware sharing the engine of the `cors` app option
+  cors: (options?: CorsOptions) =>
+    createCorsMiddleware(options),
 
   // Logging middleware with timing
   logger: (prefix = '') =>
@@ -202,66 +229,66 @@ export const BuiltinMiddleware = {
       return response;
     }),
 
-  // Rate limiting middleware
-  rateLimit: (options: { 
-    windowMs: number;
-    maxRequests: number;
-    keyGenerator?: (ctx: any) => string;
-  }) => {
-    const store = new Map<string, { count: number; resetTime: number }>();
-    
-    return createStateMiddleware(async (ctx, next) => {
-      const key = options.keyGenerator?.(ctx) || 
-        ctx.headers.get('x-forwarded-for') || 
-        ctx.headers.get('x-real-ip') || 
-        'unknown';
-      
-      const now = Date.now();
-      const current = store.get(key);
-      
-      if (!current || now > current.resetTime) {
-        store.set(key, { count: 1, resetTime: now + options.windowMs });
-        return await next();
-      }
-      
-      if (current.count >= options.maxRequests) {
-        ctx.set.status(429);
-        return ctx.json({ 
-          error: 'Too many requests',
-          retryAfter: Math.ceil((current.resetTime - now) / 1000)
-        });
-      }
-      
-      current.count++;
-      return await next();
-    });
-  },
+  // Rate limiting middleware with pluggable stores and RateLimit-* headers
+  rateLimit: (options: RateLimitOptions) =>
+    createRateLimitMiddleware(options),
 
-  // Validation middleware
-  validate: <TSchema>(schema: {
-    body?: (data: unknown) => data is TSchema;
-    query?: (data: unknown) => boolean;
-    params?: (data: unknown) => boolean;
+  // Validation middleware: each part takes a type guard or a schema
+  validate: <TSchema, TQuery = Record<string, string>, TParams = Record<string, string>>(schema: {
+    body?: ((data: unknown) => data is TSchema) | StandardSchemaV1<unknown, TSchema>;
+    query?: ((data: unknown) => boolean) | StandardSchemaV1<unknown, TQuery>;
+    params?: ((data: unknown) => boolean) | StandardSchemaV1<unknown, TParams>;
   }) =>
-    createStateMiddleware<any, any, any, {}, { validatedBody: TSchema }>(
+    createStateMiddleware<any, any, any, {}, { validatedBody: TSchema; validatedQuery: TQuery; validatedParams: TParams }>(
       async (ctx, next) => {
-        if (schema.body && !schema.body(ctx.body)) {
+        if (typeof schema.body === 'function' && !schema.body(ctx.body)) {
           ctx.set.status(400);
           return ctx.json({ error: 'Invalid request body' });
         }
         
-        if (schema.query && !schema.query(ctx.query)) {
+        if (typeof schema.query === 'function' && !schema.query(ctx.query)) {
           ctx.set.status(400);
           return ctx.json({ error: 'Invalid query parameters' });
         }
         
-        if (schema.params && !schema.params(ctx.params)) {
+        if (typeof schema.params === 'function' && !schema.params(ctx.params)) {
           ctx.set.status(400);
           return ctx.json({ error: 'Invalid route parameters' });
         }
+
+        // Schemas report every failing field through a ValidationError
+        // Params and query are coerced from strings, so the state gets the schemas' output
+        const issues: ValidationIssue[] = [];
+        let body = ctx.body;
+        let params: unknown = ctx.params;
+        let query: unknown = ctx.query;
+        if (schema.params && typeof schema.params !== 'function') {
+          const result = await runSchema(schema.params, ctx.params, 'params', true);
+          issues.push(...result.issues);
+          params = result.value;
+        }
+        if (schema.query && typeof schema.query !== 'function') {
+          const result = await runSchema(schema.query, ctx.query, 'query', true);
+          issues.push(...result.issues);
+          query = result.value;
+        }
+        if (schema.body && typeof schema.body !== 'function') {
+          const result = await runSchema(schema.body, ctx.body, 'body');
+          issues.push(...result.issues);
+          body = result.value;
+        }
+        if (issues.length > 0) {
+          throw new ValidationError(issues, issues.some(issue => issue.in !== 'body') ? 400 : 422);
+        }
         
         if (schema.body) {
-          (ctx.state as any).validatedBody = ctx.body;
+          (ctx.state as any).validatedBody = body;
+        }
+        if (schema.query) {
+          (ctx.state as any).validatedQuery = query;
+        }
+        if (schema.params) {
+          (ctx.state as any).validatedParams = params;
         }
         
         return await next();
@@ -0,0 +1,335 @@
+// Rate limiting for imphnen.js with pluggable stores
+
+import { TooManyRequestsError } from './errors.js';
+import type { ContextWithState } from './pipeline.js';
+
+/**
+ * - `fixed-window`: at most `maxRequests` per window, counted from the window's start
+ * - `sliding-window`: like fixed windows, but weighs in the previous window so bursts at the boundary are not doubled
+ * - `token-bucket`: a bucket of `maxRequests` tokens refilling over `windowMs`, allowing short bursts
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+// Parameters of a token bucket, passed to `RateLimitStore.take()`
+export interface TokenBucket {
+  capacity: number;
+  // Tokens added per millisecond
+  refillRate: number;
+  cost: number;
+  now: number;
+  // Milliseconds after which an untouched bucket can be forgotten
+  ttl: number;
+}
+
+/**
+ * Storage for rate limit counters. Share one store, e.g. `RedisRateLimitStore`,
+ * between processes to enforce limits across all of them. Each operation must
+ * be atomic.
+ */
+export interface RateLimitStore {
+  // Adds `amount` to a counter and returns the new count; a new counter expires after `ttl` ms
+  increment(key: string, amount: number, ttl: number): number | Promise<number>;
+  // Current value of a counter
+  get(key: string): number | undefined | Promise<number | undefined>;
+  // Takes `bucket.cost` tokens if the bucket has them and returns the tokens left
+  take(key: string, bucket: TokenBucket): { allowed: boolean; tokens: number } | Promise<{ allowed: boolean; tokens: number }>;
+  // Forgets every counter and bucket of a key prefix, e.g. after a successful login
+  reset?(key: string): void | Promise<void>;
+}
+
+// Outcome of a rate limit check, as reported in the `RateLimit-*` headers
+export interface RateLimitInfo {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the quota is fully available again
+  reset: number;
+  // Seconds until a rejected request may be retried
+  retryAfter: number;
+}
+
+export interface RateLimiterOptions {
+  // Requests allowed per window, and the size of a token bucket
+  maxRequests: number;
+  windowMs: number;
+  // Default: 'fixed-window'
+  algorithm?: RateLimitAlgorithm;
+  // Default: a `MemoryRateLimitStore` for this limiter
+  store?: RateLimitStore;
+  // Prefix of the store keys, to keep limiters sharing a store apart (default: 'rl:')
+  prefix?: string;
+}
+
+export interface RateLimitOptions extends RateLimiterOptions {
+  // Who is limited; the client's IP address by default, see `ctx.ip`
+  keyGenerator?: (ctx: ContextWithState<any, any, any, any>) => string | Promise<string>;
+  // Requests that are not counted
+  skip?: (ctx: ContextWithState<any, any, any, any>) => boolean | Promise<boolean>;
+  // How much a request uses of the quota (default: 1)
+  cost?: number | ((ctx: ContextWithState<any, any, any, any>) => number);
+  // Send the `RateLimit-*` headers; `Retry-After` is always sent on 429s (default: true)
+  headers?: boolean;
+}
+
+export interface RateLimiter {
+  // Counts `cost` requests for `key` and reports whether they are allowed
+  check(key: string, cost?: number): Promise<RateLimitInfo>;
+  // Forgets the counts of `key`
+  reset(key: string): Promise<void>;
+}
+
+type Entry = { value: number; updated: number; expires: number };
+
+/**
+ * Counters in process memory. The least recently used keys are evicted
+ * once `maxKeys` is reached, so memory stays bounded however many clients
+ * there are.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  // Maps iterate in insertion order, so re-inserting on use keeps the least recently used first
+  private entries = new Map<string, Entry>();
+
+  constructor(private maxKeys = 10_000) {}
+
+  increment(key: string, amount: number, ttl: number): number {
+    const now = Date.now();
+    const entry = this.read(key, now) ?? { value: 0, updated: now, expires: now + ttl };
+    entry.value += amount;
+    this.write(key, entry);
+    return entry.value;
+  }
+
+  get(key: string): number | undefined {
+    return this.read(key, Date.now())?.value;
+  }
+
+  take(key: string, bucket: TokenBucket): { allowed: boolean; tokens: number } {
+    const entry = this.read(key, bucket.now);
+    const tokens = refill(entry?.value, entry?.updated, bucket);
+    const allowed = tokens >= bucket.cost;
+    const left = allowed ? tokens - bucket.cost : tokens;
+    this.write(key, { value: left, updated: bucket.now, expires: bucket.now + bucket.ttl });
+    return { allowed, tokens: left };
+  }
+
+  reset(prefix: string): void {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  // Number of stored keys, including expired ones not yet evicted
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private read(key: string, now: number): Entry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expires <= now) return undefined;
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private write(key: string, entry: Entry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxKeys) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+// Tokens in a bucket after refilling since its last update; a new bucket is full
+function refill(tokens: number | undefined, updated: number | undefined, bucket: TokenBucket): number {
+  if (tokens === undefined || updated === undefined) return bucket.capacity;
+  return Math.min(bucket.capacity, tokens + Math.max(0, bucket.now - updated) * bucket.refillRate);
+}
+
+/**
+ * The Redis commands this store needs. `Bun.RedisClient` fits as is; wrap
+ * other clients, e.g. `{ send: (command, args) => redis.call(command, ...args) }`
+ * for ioredis.
+ */
+export interface RedisCommander {
+  send(command: string, args: string[]): Promise<unknown>;
+}
+
+// Increments a counter and sets the expiry of a new one in a single step on the Redis server
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCRBY', KEYS[1], ARGV[1])
+if count == tonumber(ARGV[1]) then redis.call('PEXPIRE', KEYS[1], ARGV[2]) end
+return count
+`;
+
+// Refills and takes from a bucket stored as a hash, atomically on the Redis server
+const TAKE_SCRIPT = `
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local tokens = capacity
+if state[1] then
+  tokens = math.min(capacity, tonumber(state[1]) + math.max(0, now - tonumber(state[2])) * rate)
+end
+local allowed = tokens >= cost
+if allowed then tokens = tokens - cost end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', tostring(now))
+redis.call('PEXPIRE', KEYS[1], ARGV[5])
+return { allowed and 1 or 0, tostring(tokens) }
+`;
+
+/**
+ * Counters in Redis, or any server speaking its protocol (Valkey, KeyDB,
+ * Dragonfly), shared by every process using the same server.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private client: RedisCommander) {}
+
+  async increment(key: string, amount: number, ttl: number): Promise<number> {
+    // Only the request creating the counter sets its expiry
+    return Number(await this.client.send('EVAL', [INCREMENT_SCRIPT, '1', key, String(amount), String(Math.ceil(ttl))]));
+  }
+
+  async get(key: string): Promise<number | undefined> {
+    const value = await this.client.send('GET', [key]);
+    return value === null || value === undefined ? undefined : Number(value);
+  }
+
+  async take(key: string, bucket: TokenBucket): Promise<{ allowed: boolean; tokens: number }> {
+    const [allowed, tokens] = await this.client.send('EVAL', [
+      TAKE_SCRIPT, '1', key,
+      String(bucket.capacity), String(bucket.refillRate), String(bucket.cost), String(bucket.now), String(Math.ceil(bucket.ttl))
+    ]) as [number, string];
+    return { allowed: Number(allowed) === 1, tokens: Number(tokens) };
+  }
+
+  async reset(prefix: string): Promise<void> {
+    // SCAN walks the keyspace in batches instead of blocking the server like KEYS
+    const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.send('SCAN', [cursor, 'MATCH', pattern, 'COUNT', '100']) as [string, string[]];
+      if (keys.length > 0) await this.client.send('DEL', keys);
+      cursor = String(next);
+    } while (cursor !== '0');
+  }
+}
+
+/**
+ * A rate limiter usable outside of middleware, e.g. to limit login attempts
+ * per account:
+ *
+ *   const { allowed } = await limiter.check(`login:${username}`);
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const { maxRequests: limit, windowMs } = options;
+  const algorithm = options.algorithm ?? 'fixed-window';
+  const store = options.store ?? new MemoryRateLimitStore();
+  const prefix = options.prefix ?? 'rl:';
+  const seconds = (ms: number) => Math.max(0, Math.ceil(ms / 1000));
+
+  const fixedWindow = async (key: string, cost: number, now: number): Promise<RateLimitInfo> => {
+    const window = Math.floor(now / windowMs);
+    const count = await store.increment(`${prefix}${key}:${window}`, cost, windowMs);
+    const reset = seconds((window + 1) * windowMs - now);
+    return { allowed: count <= limit, limit, remaining: Math.max(0, limit - count), reset, retryAfter: count <= limit ? 0 : reset };
+  };
+
+  // Estimates the count over the last `windowMs` from this and the previous fixed window
+  const slidingWindow = async (key: string, cost: number, now: number): Promise<RateLimitInfo> => {
+    const window = Math.floor(now / windowMs);
+    const current = await store.increment(`${prefix}${key}:${window}`, cost, windowMs * 2);
+    const previous = await store.get(`${prefix}${key}:${window - 1}`) ?? 0;
+    const elapsed = (now - window * windowMs) / windowMs;
+    const count = previous * (1 - elapsed) + current;
+    const allowed = count <= limit;
+
+    // Once rejected, wait until enough of the previous window has slid out, or for the next window
+    let retryAfter = 0;
+    if (!allowed) {
+      const untilNext = (window + 1) * windowMs - now;
+      retryAfter = current <= limit && previous > 0
+        ? seconds(Math.min(untilNext, ((count - limit) / previous) * windowMs))
+        : seconds(untilNext + (current > limit ? windowMs * (1 - limit / current) : 0));
+    }
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - count)),
+      reset: seconds((window + 1) * windowMs - now + (previous > 0 ? windowMs : 0)),
+      retryAfter
+    };
+  };
+
+  const tokenBucket = async (key: string, cost: number, now: number): Promise<RateLimitInfo> => {
+    const refillRate = limit / windowMs;
+    const { allowed, tokens } = await store.take(`${prefix}${key}:bucket`, { capacity: limit, refillRate, cost, now, ttl: windowMs });
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      reset: seconds((limit - tokens) / refillRate),
+      retryAfter: allowed ? 0 : seconds((cost - tokens) / refillRate)
+    };
+  };
+
+  const algorithms = { 'fixed-window': fixedWindow, 'sliding-window': slidingWindow, 'token-bucket': tokenBucket };
+  const run = algorithms[algorithm];
+  if (!run) {
+    throw new Error(`Unknown rate limit algorithm: ${algorithm}`);
+  }
+
+  return {
+    check: (key, cost = 1) => run(key, cost, Date.now()),
+    async reset(key) {
+      await store.reset?.(`${prefix}${key}:`);
+    }
+  };
+}
+
+/**
+ * Rate limiting middleware. Allowed responses carry `RateLimit-Limit`,
+ * `RateLimit-Remaining`, `RateLimit-Reset` and `RateLimit-Policy` headers
+ * (draft-ietf-httpapi-ratelimit-headers); rejected requests get a 429 with
+ * `Retry-After`.
+ */
+export function createRateLimitMiddleware(
+  options: RateLimitOptions
+): (ctx: ContextWithState<any, any, any, any>, next: () => Promise<Response>) => Promise<Response> {
+  const limiter = createRateLimiter(options);
+  const policy = `${options.maxRequests};w=${Math.ceil(options.windowMs / 1000)}`;
+
+  return async (ctx, next) => {
+    if (await options.skip?.(ctx)) return await next();
+
+    const key = await options.keyGenerator?.(ctx) ?? ctx.ip ?? 'unknown';
+    const cost = typeof options.cost === 'function' ? options.cost(ctx) : options.cost ?? 1;
+    const info = await limiter.check(key, cost);
+
+    const headers: Record<string, string> = options.headers === false ? {} : {
+      'RateLimit-Limit': String(info.limit),
+      'RateLimit-Remaining': String(info.remaining),
+      'RateLimit-Reset': String(info.reset),
+      'RateLimit-Policy': policy
+    };
+    if (!info.allowed) {
+      throw new TooManyRequestsError('Too many requests', {
+        headers: { ...headers, 'Retry-After': String(info.retryAfter) },
+        details: { retryAfter: info.retryAfter }
+      });
+    }
+
+    const response = await next();
+    if (options.headers === false) return response;
+
+    // Fetched responses, e.g. from proxies, have immutable headers
+    const limited = new Response(response.body, response);
+    for (const [name, value] of Object.entries(headers)) {
+      limited.headers.set(name, value);
+    }
+    return limited;
+  };
+}
@@ -0,0 +1,218 @@
+// Compiled trie router for imphnen.js
+
+export interface RouteMatch<T> {
+  value: T;
+  params: Record<string, string>;
+}
+
+interface RouteEntry<T> {
+  value: T;
+  keys: string[];
+}
+
+interface ParamBranch<T> {
+  source: string;
+  pattern?: RegExp;
+  node: RouteNode<T>;
+}
+
+interface RouteNode<T> {
+  children: Map<string, RouteNode<T>>;
+  params: ParamBranch<T>[];
+  wildcards: ParamBranch<T>[];
+  entries: Map<string, RouteEntry<T>[]>;
+}
+
+function createNode<T>(): RouteNode<T> {
+  return { children: new Map(), params: [], wildcards: [], entries: new Map() };
+}
+
+/**
+ * Splits a `:name`, `:name(regex)` or `*` segment into its param name and
+ * optional constraint source
+ */
+export function parseParam(segment: string): { name: string; source: string } {
+  const body = segment === '*' ? '*' : segment.slice(1);
+  const open = body.indexOf('(');
+
+  if (open === -1 || !body.endsWith(')')) {
+    return { name: body, source: '' };
+  }
+
+  return { name: body.slice(0, open), source: body.slice(open + 1, -1) };
+}
+
+// Reuse the branch for an identical constraint, keeping constrained branches
+// ahead of the unconstrained one so they are tried first
+function branchFor<T>(branches: ParamBranch<T>[], source: string): RouteNode<T> {
+  const existing = branches.find(branch => branch.source === source);
+  if (existing) return existing.node;
+
+  const branch: ParamBranch<T> = {
+    source,
+    pattern: source ? new RegExp(`^(?:${source})$`) : undefined,
+    node: createNode()
+  };
+
+  const unconstrained = branches.findIndex(b => !b.pattern);
+  if (source && unconstrained !== -1) {
+    branches.splice(unconstrained, 0, branch);
+  } else {
+    branches.push(branch);
+  }
+
+  return branch.node;
+}
+
+/**
+ * Splits a pattern or pathname into segments, keeping empty segments so that
+ * `/users` and `/users/` stay distinct routes
+ */
+export function splitPath(path: string): string[] {
+  return path.split('/').slice(1);
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Expands optional parameters into every concrete pattern they describe,
+ * e.g. `/posts/:id?` becomes `/posts` and `/posts/:id`
+ */
+export function expandOptional(segments: string[]): string[][] {
+  const index = segments.findIndex(segment => segment.startsWith(':') && segment.endsWith('?'));
+  if (index === -1) return [segments];
+
+  const required = [...segments];
+  required[index] = (segments[index] as string).slice(0, -1);
+
+  return [
+    ...expandOptional([...segments.slice(0, index), ...segments.slice(index + 1)]),
+    ...expandOptional(required)
+  ];
+}
+
+/**
+ * Radix-style router keyed by path segment. Lookups walk the tree once and
+ * collect params on the way, preferring static segments over params and
+ * params over wildcards, regardless of registration order. Params with a
+ * `(regex)` constraint are tried before unconstrained ones, and a failed
+ * constraint falls through to the next candidate.
+ */
+export class Router<T> {
+  private root: RouteNode<T> = createNode();
+
+  add(method: string, pattern: string, value: T): void {
+    for (const segments of expandOptional(splitPath(pattern))) {
+      let node = this.root;
+      const keys: string[] = [];
+
+      for (const [i, segment] of segments.entries()) {
+        // `*` and `:name*` capture the remainder of the path
+        if (segment === '*' || (segment.startsWith(':') && segment.endsWith('*'))) {
+          if (i !== segments.length - 1) {
+            throw new Error(`Catch-all segment must be the last segment in route "${pattern}"`);
+          }
+          const { name, source } = parseParam(segment === '*' ? '*' : segment.slice(0, -1));
+          node = branchFor(node.wildcards, source);
+          keys.push(name);
+          break;
+        }
+
+        if (segment.startsWith(':')) {
+          const { name, source } = parseParam(segment);
+          node = branchFor(node.params, source);
+          keys.push(name);
+          continue;
+        }
+
+        let child = node.children.get(segment);
+        if (!child) {
+          child = createNode();
+          node.children.set(segment, child);
+        }
+        node = child;
+      }
+
+      const entries = node.entries.get(method) ?? [];
+      entries.push({ value, keys });
+      node.entries.set(method, entries);
+    }
+  }
+
+  find(method: string, pathname: string): RouteMatch<T> | null {
+    const values: string[] = [];
+    const node = this.walk(this.root, splitPath(pathname), 0, values, node => node.entries.has(method));
+    const entry = node?.entries.get(method)?.[0];
+
+    if (!entry) return null;
+
+    const params: Record<string, string> = {};
+    entry.keys.forEach((key, i) => {
+      params[key] = values[i] as string;
+    });
+
+    return { value: entry.value, params };
+  }
+
+  // Every method registered for a route matching the path, used for 405 responses
+  methods(pathname: string): string[] {
+    const methods = new Set<string>();
+    this.walk(this.root, splitPath(pathname), 0, [], node => {
+      for (const method of node.entries.keys()) methods.add(method);
+      return false;
+    });
+    return [...methods];
+  }
+
+  // Depth-first search honouring static > param > wildcard precedence,
+  // backtracking when a more specific branch has no route for the request
+  private walk(
+    node: RouteNode<T>,
+    segments: string[],
+    index: number,
+    values: string[],
+    accept: (node: RouteNode<T>) => boolean
+  ): RouteNode<T> | null {
+    if (index === segments.length) {
+      return accept(node) ? node : null;
+    }
+
+    const segment = segments[index] as string;
+
+    const child = node.children.get(segment);
+    if (child) {
+      const found = this.walk(child, segments, index + 1, values, accept);
+      if (found) return found;
+    }
+
+    if (segment !== '') {
+      const value = decodeSegment(segment);
+      for (const branch of node.params) {
+        if (branch.pattern && !branch.pattern.test(value)) continue;
+        values.push(value);
+        const found = this.walk(branch.node, segments, index + 1, values, accept);
+        if (found) return found;
+        values.pop();
+      }
+    }
+
+    if (node.wildcards.length > 0) {
+      const rest = segments.slice(index).map(decodeSegment).join('/');
+      for (const branch of node.wildcards) {
+        if (branch.pattern && !branch.pattern.test(rest)) continue;
+        if (accept(branch.node)) {
+          values.push(rest);
+          return branch.node;
+        }
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,592 @@
+// Request schemas for imphnen.js: a small built-in schema builder, Standard
+// Schema interop and route-level request validation
+
+import type { Context, Middleware, PathParams } from './types.js';
+import { InternalServerError, ValidationError } from './errors.js';
+import type { ValidationIssue } from './errors.js';
+
+// Standard Schema v1 (https://standardschema.dev), implemented by Zod,
+// Valibot, ArkType and others, and by the built-in schemas below
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaProps<Input, Output>;
+}
+
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (value: unknown) => StandardResult<Output> | Promise<StandardResult<Output>>;
+  readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+}
+
+export type StandardResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardIssue[] };
+
+export interface StandardIssue {
+  readonly message: string;
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] | undefined;
+}
+
+export type InferInput<S extends StandardSchemaV1> = NonNullable<S['~standard']['types']>['input'];
+export type InferOutput<S extends StandardSchemaV1> = NonNullable<S['~standard']['types']>['output'];
+
+// Response schema for every 2xx response, or one schema per status code
+export type ResponseSchema = StandardSchemaV1 | { [status: number]: StandardSchemaV1 };
+
+// Documentation attached to a route for the generated OpenAPI document
+export interface RouteDetail {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+  // Security requirements, e.g. `[{ bearerAuth: [] }]`
+  security?: Record<string, string[]>[];
+  // Leave the route out of the document
+  hide?: boolean;
+}
+
+// Schemas a route can declare for the parts of the request and its responses
+export interface RouteSchema {
+  body?: StandardSchemaV1;
+  query?: StandardSchemaV1;
+  params?: StandardSchemaV1;
+  headers?: StandardSchemaV1;
+  response?: ResponseSchema;
+  detail?: RouteDetail;
+}
+
+type RecordOutput<S, Fallback> = S extends StandardSchemaV1
+  ? InferOutput<S> extends Record<string, any> ? InferOutput<S> : Fallback
+  : Fallback;
+
+// Context types for a route declaring `TSchema`
+export type SchemaParams<TPath extends string, TSchema extends RouteSchema> =
+  RecordOutput<TSchema['params'], PathParams<TPath>>;
+export type SchemaQuery<TSchema extends RouteSchema> =
+  RecordOutput<TSchema['query'], Record<string, string>>;
+export type SchemaBody<TSchema extends RouteSchema> =
+  TSchema['body'] extends StandardSchemaV1 ? InferOutput<TSchema['body']> : unknown;
+type SuccessStatus = 200 | 201 | 202 | 203 | 204 | 205 | 206 | 207 | 208 | 226;
+
+// Payload type per status code; a single schema covers every 2xx status
+export type SchemaResponse<TSchema extends RouteSchema> =
+  TSchema['response'] extends StandardSchemaV1
+    ? { [K in SuccessStatus]: InferOutput<TSchema['response']> }
+    : TSchema['response'] extends Record<number, StandardSchemaV1>
+    ? { [K in keyof TSchema['response']]: TSchema['response'][K] extends StandardSchemaV1 ? InferOutput<TSchema['response'][K]> : never }
+    : unknown;
+
+// Route middlewares and handler typed from the route's schemas
+export type SchemaHandlers<
+  TPath extends string,
+  TSchema extends RouteSchema,
+  TResult extends Response | Promise<Response> = Response | Promise<Response>
+> = [
+  ...Middleware<SchemaParams<TPath, TSchema>, SchemaQuery<TSchema>, SchemaBody<TSchema>, SchemaResponse<TSchema>>[],
+  (ctx: Context<SchemaParams<TPath, TSchema>, SchemaQuery<TSchema>, SchemaBody<TSchema>, SchemaResponse<TSchema>>) => TResult
+];
+
+type Path = (string | number)[];
+
+export type JSONSchema = Record<string, unknown>;
+
+// Copy of `schema` without the keys whose value is undefined
+function compact(schema: JSONSchema): JSONSchema {
+  return Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined));
+}
+
+interface ParseContext {
+  issues: { path: Path; message: string }[];
+  // Convert strings to the expected type: query, params and headers arrive as text
+  coerce: boolean;
+}
+
+/**
+ * Base class of the built-in schemas. Each one validates and converts a value
+ * in `parse`, and exposes the result through the Standard Schema interface so
+ * it can be used anywhere a Standard Schema is accepted.
+ */
+export abstract class Schema<T = unknown> implements StandardSchemaV1<unknown, T> {
+  readonly '~standard': StandardSchemaProps<unknown, T> = {
+    version: 1,
+    vendor: 'imphnen',
+    validate: (value) => this.validate(value)
+  };
+
+  // Returns the converted value; problems are recorded on `ctx.issues`
+  abstract parse(value: unknown, path: Path, ctx: ParseContext): T;
+
+  // JSON Schema (draft 2020-12) equivalent, used for OpenAPI documents
+  abstract toJSONSchema(): JSONSchema;
+
+  validate(value: unknown, options: { coerce?: boolean } = {}): StandardResult<T> {
+    const ctx: ParseContext = { issues: [], coerce: options.coerce ?? false };
+    const output = this.parse(value, [], ctx);
+    return ctx.issues.length > 0 ? { issues: ctx.issues } : { value: output };
+  }
+
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+
+  nullable(): NullableSchema<T> {
+    return new NullableSchema(this);
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Repeated query keys arrive as arrays; scalar schemas take the last value
+function lastValue(value: unknown, ctx: ParseContext): unknown {
+  return ctx.coerce && Array.isArray(value) ? value[value.length - 1] : value;
+}
+
+const FORMATS = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  url: /^[a-z][a-z\d+.-]*:\/\/\S+$/i,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+} as const;
+
+export interface StringOptions {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  format?: keyof typeof FORMATS;
+}
+
+export class StringSchema extends Schema<string> {
+  constructor(readonly options: StringOptions = {}) {
+    super();
+  }
+
+  parse(input: unknown, path: Path, ctx: ParseContext): string {
+    const value = lastValue(input, ctx);
+    if (typeof value !== 'string') {
+      ctx.issues.push({ path, message: `Expected string, received ${describe(value)}` });
+      return value as string;
+    }
+
+    const { minLength, maxLength, pattern, format } = this.options;
+    if (minLength !== undefined && value.length < minLength) {
+      ctx.issues.push({ path, message: `Must be at least ${minLength} characters` });
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      ctx.issues.push({ path, message: `Must be at most ${maxLength} characters` });
+    }
+    if (pattern && !pattern.test(value)) {
+      ctx.issues.push({ path, message: `Must match ${pattern}` });
+    }
+    if (format && !FORMATS[format].test(value)) {
+      ctx.issues.push({ path, message: `Must be a valid ${format}` });
+    }
+    return value;
+  }
+
+  toJSONSchema(): JSONSchema {
+    const { minLength, maxLength, pattern, format } = this.options;
+    return compact({ type: 'string', minLength, maxLength, pattern: pattern?.source, format });
+  }
+}
+
+export interface NumberOptions {
+  minimum?: number;
+  maximum?: number;
+  integer?: boolean;
+}
+
+export class NumberSchema extends Schema<number> {
+  constructor(readonly options: NumberOptions = {}) {
+    super();
+  }
+
+  parse(input: unknown, path: Path, ctx: ParseContext): number {
+    let value = lastValue(input, ctx);
+    if (ctx.coerce && typeof value === 'string' && value.trim() !== '') {
+      const coerced = Number(value);
+      if (!Number.isNaN(coerced)) value = coerced;
+    }
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      ctx.issues.push({ path, message: `Expected number, received ${describe(value)}` });
+      return value as number;
+    }
+
+    const { minimum, maximum, integer } = this.options;
+    if (integer && !Number.isInteger(value)) {
+      ctx.issues.push({ path, message: 'Expected integer' });
+    }
+    if (minimum !== undefined && value < minimum) {
+      ctx.issues.push({ path, message: `Must be greater than or equal to ${minimum}` });
+    }
+    if (maximum !== undefined && value > maximum) {
+      ctx.issues.push({ path, message: `Must be less than or equal to ${maximum}` });
+    }
+    return value;
+  }
+
+  toJSONSchema(): JSONSchema {
+    const { minimum, maximum, integer } = this.options;
+    return compact({ type: integer ? 'integer' : 'number', minimum, maximum });
+  }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+  parse(input: unknown, path: Path, ctx: ParseContext): boolean {
+    let value = lastValue(input, ctx);
+    if (ctx.coerce && typeof value === 'string') {
+      if (value === 'true' || value === '1') value = true;
+      else if (value === 'false' || value === '0') value = false;
+    }
+    if (typeof value !== 'boolean') {
+      ctx.issues.push({ path, message: `Expected boolean, received ${describe(value)}` });
+    }
+    return value as boolean;
+  }
+
+  toJSONSchema(): JSONSchema {
+    return { type: 'boolean' };
+  }
+}
+
+type Primitive = string | number | boolean | null;
+
+export class LiteralSchema<T extends Primitive> extends Schema<T> {
+  constructor(readonly value: T) {
+    super();
+  }
+
+  parse(input: unknown, path: Path, ctx: ParseContext): T {
+    const value = lastValue(input, ctx);
+    // Compare as text when coercing so `?limit=10` matches the literal 10
+    const matches = ctx.coerce && typeof value === 'string'
+      ? value === String(this.value)
+      : value === this.value;
+    if (!matches) {
+      ctx.issues.push({ path, message: `Expected ${JSON.stringify(this.value)}` });
+    }
+    return this.value;
+  }
+
+  toJSONSchema(): JSONSchema {
+    return { const: this.value };
+  }
+}
+
+export class EnumSchema<T extends string | number> extends Schema<T> {
+  constructor(readonly values: readonly T[]) {
+    super();
+  }
+
+  parse(input: unknown, path: Path, ctx: ParseContext): T {
+    const value = lastValue(input, ctx);
+    const match = this.values.find(option =>
+      ctx.coerce && typeof value === 'string' ? String(option) === value : option === value
+    );
+    if (match === undefined) {
+      ctx.issues.push({ path, message: `Expected one of ${this.values.map(v => JSON.stringify(v)).join(', ')}` });
+      return value as T;
+    }
+    return match;
+  }
+
+  toJSONSchema(): JSONSchema {
+    return { enum: [...this.values] };
+  }
+}
+
+export interface ArrayOptions {
+  minItems?: number;
+  maxItems?: number;
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  constructor(readonly items: Schema<T>, readonly options: ArrayOptions = {}) {
+    super();
+  }
+
+  parse(input: unknown, path: Path, ctx: ParseContext): T[] {
+    // A single query value is a one-item list
+    const value = ctx.coerce && !Array.isArray(input) && input !== undefined ? [input] : input;
+    if (!Array.isArray(value)) {
+      ctx.issues.push({ path, message: `Expected array, received ${describe(value)}` });
+      return value as T[];
+    }
+
+    const { minItems, maxItems } = this.options;
+    if (minItems !== undefined && value.length < minItems) {
+      ctx.issues.push({ path, message: `Must contain at least ${minItems} items` });
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      ctx.issues.push({ path, message: `Must contain at most ${maxItems} items` });
+    }
+    return value.map((item, index) => this.items.parse(item, [...path, index], ctx));
+  }
+
+  toJSONSchema(): JSONSchema {
+    const { minItems, maxItems } = this.options;
+    return compact({ type: 'array', items: this.items.toJSONSchema(), minItems, maxItems });
+  }
+}
+
+export type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never }[keyof S];
+
+// Object type for a shape, with optional schemas as optional keys
+export type ObjectOutput<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: S[K] extends Schema<infer T> ? T : never;
+} & {
+  [K in OptionalKeys<S>]?: S[K] extends Schema<infer T> ? T : never;
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+export interface ObjectOptions {
+  // Keep keys not declared in the shape instead of dropping them
+  passthrough?: boolean;
+}
+
+export class ObjectSchema<S extends Shape> extends Schema<ObjectOutput<S>> {
+  constructor(readonly shape: S, readonly options: ObjectOptions = {}) {
+    super();
+  }
+
+  parse(input: unknown, path: Path, ctx: ParseContext): ObjectOutput<S> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      ctx.issues.push({ path, message: `Expected object, received ${describe(input)}` });
+      return input as ObjectOutput<S>;
+    }
+
+    const source = input as Record<string, unknown>;
+    const output: Record<string, unknown> = this.options.passthrough ? { ...source } : {};
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const value = schema.parse(source[key], [...path, key], ctx);
+      if (value !== undefined) output[key] = value;
+    }
+    return output as ObjectOutput<S>;
+  }
+
+  toJSONSchema(): JSONSchema {
+    const properties: Record<string, JSONSchema> = {};
+    const required: string[] = [];
+    for (const [key, schema] of Object.entries(this.shape)) {
+      properties[key] = schema.toJSONSchema();
+      if (!(schema instanceof OptionalSchema)) required.push(key);
+    }
+    return compact({
+      type: 'object',
+      properties,
+      required: required.length > 0 ? required : undefined,
+      additionalProperties: this.options.passthrough ? undefined : false
+    });
+  }
+}
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  constructor(readonly inner: Schema<T>) {
+    super();
+  }
+
+  parse(input: unknown, path: Path, ctx: ParseContext): T | undefined {
+    return input === undefined ? undefined : this.inner.parse(input, path, ctx);
+  }
+
+  // Optionality is expressed by the enclosing object's `required` list
+  toJSONSchema(): JSONSchema {
+    return this.inner.toJSONSchema();
+  }
+}
+
+export class NullableSchema<T> extends Schema<T | null> {
+  constructor(readonly inner: Schema<T>) {
+    super();
+  }
+
+  parse(input: unknown, path: Path, ctx: ParseContext): T | null {
+    return input === null ? null : this.inner.parse(input, path, ctx);
+  }
+
+  toJSONSchema(): JSONSchema {
+    return { anyOf: [this.inner.toJSONSchema(), { type: 'null' }] };
+  }
+}
+
+export class UnionSchema<T> extends Schema<T> {
+  constructor(readonly options: readonly Schema<any>[]) {
+    super();
+  }
+
+  parse(input: unknown, path: Path, ctx: ParseContext): T {
+    // First option that parses without issues wins
+    for (const option of this.options) {
+      const attempt: ParseContext = { issues: [], coerce: ctx.coerce };
+      const value = option.parse(input, path, attempt);
+      if (attempt.issues.length === 0) return value;
+    }
+    ctx.issues.push({ path, message: 'Value does not match any of the allowed types' });
+    return input as T;
+  }
+
+  toJSONSchema(): JSONSchema {
+    return { anyOf: this.options.map(option => option.toJSONSchema()) };
+  }
+}
+
+export class UnknownSchema extends Schema<unknown> {
+  parse(input: unknown): unknown {
+    return input;
+  }
+
+  toJSONSchema(): JSONSchema {
+    return {};
+  }
+}
+
+/**
+ * Built-in schema builder.
+ *
+ * ```ts
+ * const User = t.object({
+ *   name: t.string({ minLength: 1 }),
+ *   age: t.integer({ minimum: 0 }).optional()
+ * });
+ * ```
+ */
+export const t = {
+  string: (options?: StringOptions) => new StringSchema(options),
+  number: (options?: NumberOptions) => new NumberSchema(options),
+  integer: (options?: Omit<NumberOptions, 'integer'>) => new NumberSchema({ ...options, integer: true }),
+  boolean: () => new BooleanSchema(),
+  literal: <const T extends Primitive>(value: T) => new LiteralSchema(value),
+  enum: <const T extends string | number>(values: readonly T[]) => new EnumSchema(values),
+  array: <T>(items: Schema<T>, options?: ArrayOptions) => new ArraySchema(items, options),
+  object: <S extends Shape>(shape: S, options?: ObjectOptions) => new ObjectSchema(shape, options),
+  optional: <T>(schema: Schema<T>) => new OptionalSchema(schema),
+  nullable: <T>(schema: Schema<T>) => new NullableSchema(schema),
+  union: <const S extends readonly Schema<any>[]>(options: S) =>
+    new UnionSchema<S[number] extends Schema<infer T> ? T : never>(options),
+  unknown: () => new UnknownSchema()
+};
+
+type Location = ValidationIssue['in'];
+
+function issuePath(path: StandardIssue['path']): string {
+  return (path ?? [])
+    .map(segment => String(typeof segment === 'object' && segment !== null ? segment.key : segment))
+    .join('.');
+}
+
+/**
+ * Validates `value` against a built-in or Standard Schema. Built-in schemas
+ * coerce strings when `coerce` is set; other validators handle coercion
+ * themselves (e.g. `z.coerce.number()`).
+ */
+export async function runSchema(
+  schema: StandardSchemaV1,
+  value: unknown,
+  location: Location,
+  coerce = false
+): Promise<{ value: unknown; issues: ValidationIssue[] }> {
+  const result = schema instanceof Schema
+    ? schema.validate(value, { coerce })
+    : await schema['~standard'].validate(value);
+
+  if (result.issues) {
+    return {
+      value,
+      issues: result.issues.map(issue => ({ in: location, path: issuePath(issue.path), message: issue.message }))
+    };
+  }
+  return { value: result.value, issues: [] };
+}
+
+// Query parameters as schema input: repeated keys become arrays
+function queryInput(url: URL): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(url.searchParams.keys())) {
+    const values = url.searchParams.getAll(key);
+    query[key] = values.length === 1 ? values[0]! : values;
+  }
+  return query;
+}
+
+/**
+ * Middleware validating the request against a route's schemas. Validated
+ * (and coerced) values replace `ctx.params`, `ctx.query` and `ctx.body`.
+ * Invalid params, query or headers fail with 400; an invalid body with 422.
+ */
+export function validateRequest(schema: RouteSchema): Middleware<any, any, any> {
+  return async (ctx, next) => {
+    const issues: ValidationIssue[] = [];
+    const check = async (location: Location, target: StandardSchemaV1 | undefined, input: () => unknown) => {
+      if (!target) return undefined;
+      const result = await runSchema(target, input(), location, location !== 'body');
+      issues.push(...result.issues);
+      return result.value;
+    };
+
+    const params = await check('params', schema.params, () => ctx.params);
+    const query = await check('query', schema.query, () => queryInput(new URL(ctx.req.url)));
+    await check('headers', schema.headers, () => Object.fromEntries(ctx.headers));
+    const body = await check('body', schema.body, () => ctx.body);
+
+    if (issues.length > 0) {
+      const status = issues.some(issue => issue.in !== 'body') ? 400 : 422;
+      throw new ValidationError(issues, status);
+    }
+
+    if (schema.params) ctx.params = params as Record<string, string>;
+    if (schema.query) ctx.query = query as Record<string, string>;
+    if (schema.body) ctx.body = body;
+    return await next();
+  };
+}
+
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return typeof value === 'object' && value !== null && '~standard' in value;
+}
+
+// Schema for a response status: a single schema covers every 2xx response
+function responseSchemaFor(schema: ResponseSchema, status: number): StandardSchemaV1 | undefined {
+  if (isStandardSchema(schema)) return status >= 200 && status < 300 ? schema : undefined;
+  return schema[status];
+}
+
+/**
+ * Middleware checking JSON responses against a route's response schemas.
+ * Statuses without a schema and non-JSON responses pass through. A mismatch
+ * is logged in 'warn' mode and becomes a 500 in 'error' mode.
+ */
+export function validateResponse(schema: ResponseSchema, mode: 'warn' | 'error'): Middleware<any, any, any> {
+  return async (ctx, next) => {
+    const response = await next();
+    const target = responseSchemaFor(schema, response.status);
+    const contentType = response.headers.get('content-type') || '';
+    if (!target || !contentType.includes('application/json')) return response;
+
+    let payload: unknown;
+    try {
+      payload = await response.clone().json();
+    } catch {
+      payload = undefined;
+    }
+
+    const { issues } = await runSchema(target, payload, 'response');
+    if (issues.length === 0) return response;
+
+    const message = `Response ${response.status} from ${ctx.req.method} ${new URL(ctx.req.url).pathname} does not match its schema`;
+    if (mode === 'error') {
+      throw new InternalServerError(message, { details: issues });
+    }
+    console.warn(`⚠️ ${message}:`, issues);
+    return response;
+  };
+}
+
+// Route schema objects are plain objects, unlike middlewares and pipelines
+export function isRouteSchema(value: unknown): value is RouteSchema {
+  return typeof value === 'object' && value !== null && !('execute' in value) && !Array.isArray(value);
+}
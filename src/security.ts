@@ -0,0 +1,269 @@
+// Security response headers and Content-Security-Policy reporting for imphnen.js
+
+import { BadRequestError, PayloadTooLargeError, addErrorHeaders } from './errors.js';
+import { readsRawBody } from './utils.js';
+import type { PipelineMiddleware } from './pipeline.js';
+import type { Context, Handler } from './types.js';
+
+// Directive name to sources, e.g. { 'img-src': ["'self'", 'data:'] }; `true` for valueless directives, `false` to drop one
+export type CSPDirectives = Record<string, readonly string[] | boolean>;
+
+export interface CSPOptions {
+  // Merged over the defaults, directive by directive
+  directives?: CSPDirectives;
+  // Start from an empty policy instead of the defaults (default: true)
+  useDefaults?: boolean;
+  // Report violations without blocking anything
+  reportOnly?: boolean;
+  // Path of the route collecting violation reports, see `cspReportHandler()`
+  reportUri?: string;
+}
+
+export interface HSTSOptions {
+  // Seconds browsers remember to use HTTPS (default: one year)
+  maxAge?: number;
+  // Default: true
+  includeSubDomains?: boolean;
+  preload?: boolean;
+}
+
+/**
+ * Each header can be configured or turned off with `false`. Nesting the
+ * middleware in a route's pipeline overrides these options for that route.
+ */
+export interface SecurityHeadersOptions {
+  contentSecurityPolicy?: CSPOptions | false;
+  strictTransportSecurity?: HSTSOptions | false;
+  // X-Content-Type-Options: nosniff
+  contentTypeOptions?: boolean;
+  // X-Frame-Options
+  frameOptions?: 'DENY' | 'SAMEORIGIN' | false;
+  referrerPolicy?: string | string[] | false;
+  // Feature name to allowlist, e.g. { camera: [], geolocation: ['self'] }
+  permissionsPolicy?: Record<string, readonly string[]> | false;
+  crossOriginOpenerPolicy?: 'same-origin' | 'same-origin-allow-popups' | 'unsafe-none' | false;
+  crossOriginEmbedderPolicy?: 'require-corp' | 'credentialless' | 'unsafe-none' | false;
+  crossOriginResourcePolicy?: 'same-origin' | 'same-site' | 'cross-origin' | false;
+}
+
+// A violation report, from either the `report-uri` or the Reporting API format
+export interface CSPReport {
+  documentURL: string;
+  blockedURL?: string;
+  effectiveDirective: string;
+  originalPolicy: string;
+  disposition: 'enforce' | 'report';
+  sourceFile?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  sample?: string;
+  statusCode?: number;
+  referrer?: string;
+}
+
+const DEFAULT_DIRECTIVES: CSPDirectives = {
+  'default-src': ["'self'"],
+  'base-uri': ["'self'"],
+  'font-src': ["'self'", 'https:', 'data:'],
+  'form-action': ["'self'"],
+  'frame-ancestors': ["'self'"],
+  'img-src': ["'self'", 'data:'],
+  'object-src': ["'none'"],
+  'script-src': ["'self'"],
+  'script-src-attr': ["'none'"],
+  'style-src': ["'self'", 'https:', "'unsafe-inline'"],
+  'upgrade-insecure-requests': true
+};
+
+const DEFAULTS: SecurityHeadersOptions = {
+  contentSecurityPolicy: {},
+  strictTransportSecurity: {},
+  contentTypeOptions: true,
+  frameOptions: 'SAMEORIGIN',
+  referrerPolicy: 'no-referrer',
+  permissionsPolicy: { camera: [], microphone: [], geolocation: [], payment: [] },
+  crossOriginOpenerPolicy: 'same-origin',
+  crossOriginEmbedderPolicy: false,
+  crossOriginResourcePolicy: 'same-origin'
+};
+
+// Reporting API endpoint name used by `report-to`
+const REPORT_GROUP = 'csp-endpoint';
+const MAX_REPORT_SIZE = 64 * 1024;
+
+// Per-request options of the outermost middleware, which nested ones override
+const ACTIVE = Symbol('securityHeaders');
+
+function mergeOptions(base: SecurityHeadersOptions, override: SecurityHeadersOptions): SecurityHeadersOptions {
+  const merged = { ...base, ...override };
+  const { contentSecurityPolicy: baseCSP } = base;
+  const { contentSecurityPolicy: csp } = override;
+  if (baseCSP && csp && (csp.useDefaults ?? true)) {
+    merged.contentSecurityPolicy = { ...baseCSP, ...csp, directives: { ...baseCSP.directives, ...csp.directives } };
+  }
+  return merged;
+}
+
+function contentSecurityPolicy(options: CSPOptions, nonce: string): string {
+  const directives: CSPDirectives = { ...(options.useDefaults ?? true ? DEFAULT_DIRECTIVES : {}), ...options.directives };
+  if (options.reportUri) {
+    directives['report-uri'] = [options.reportUri];
+    directives['report-to'] = [REPORT_GROUP];
+  }
+
+  return Object.entries(directives).flatMap(([name, value]) => {
+    if (value === false) return [];
+    if (value === true) return [name];
+    // A nonce turns off 'unsafe-inline', so only add it where inline code is not already allowed
+    const sources = (name === 'script-src' || name === 'style-src') && !value.includes("'unsafe-inline'")
+      ? [...value, `'nonce-${nonce}'`]
+      : value;
+    return [`${name} ${sources.join(' ')}`];
+  }).join('; ');
+}
+
+function permissionsPolicy(features: Record<string, readonly string[]>): string {
+  return Object.entries(features)
+    .map(([feature, allowlist]) =>
+      `${feature}=(${allowlist.map(origin => origin === 'self' || origin === '*' ? origin : `"${origin}"`).join(' ')})`
+    )
+    .join(', ');
+}
+
+function securityHeaders(options: SecurityHeadersOptions, nonce: string): [string, string][] {
+  const headers: [string, string][] = [];
+  const csp = options.contentSecurityPolicy;
+  if (csp) {
+    headers.push([csp.reportOnly ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy', contentSecurityPolicy(csp, nonce)]);
+    if (csp.reportUri) headers.push(['Reporting-Endpoints', `${REPORT_GROUP}="${csp.reportUri}"`]);
+  }
+
+  const hsts = options.strictTransportSecurity;
+  if (hsts) {
+    let value = `max-age=${hsts.maxAge ?? 60 * 60 * 24 * 365}`;
+    if (hsts.includeSubDomains ?? true) value += '; includeSubDomains';
+    if (hsts.preload) value += '; preload';
+    headers.push(['Strict-Transport-Security', value]);
+  }
+
+  if (options.contentTypeOptions) headers.push(['X-Content-Type-Options', 'nosniff']);
+  if (options.frameOptions) headers.push(['X-Frame-Options', options.frameOptions]);
+  if (options.referrerPolicy) {
+    headers.push(['Referrer-Policy', [options.referrerPolicy].flat().join(', ')]);
+  }
+  if (options.permissionsPolicy) headers.push(['Permissions-Policy', permissionsPolicy(options.permissionsPolicy)]);
+  if (options.crossOriginOpenerPolicy) headers.push(['Cross-Origin-Opener-Policy', options.crossOriginOpenerPolicy]);
+  if (options.crossOriginEmbedderPolicy) headers.push(['Cross-Origin-Embedder-Policy', options.crossOriginEmbedderPolicy]);
+  if (options.crossOriginResourcePolicy) headers.push(['Cross-Origin-Resource-Policy', options.crossOriginResourcePolicy]);
+  return headers;
+}
+
+/**
+ * Sets security headers on every response: Content-Security-Policy with a
+ * per-request nonce in `ctx.state.cspNonce`, Strict-Transport-Security and
+ * friends. Headers a handler sets itself are left alone.
+ */
+export function createSecurityHeadersMiddleware(
+  options: SecurityHeadersOptions = {}
+): PipelineMiddleware<any, any, any, {}, { cspNonce: string }> {
+  const configured = mergeOptions(DEFAULTS, options);
+
+  return async (ctx, next) => {
+    const state = ctx.state as { [ACTIVE]?: { options: SecurityHeadersOptions } };
+    const outer = state[ACTIVE];
+    if (outer) {
+      // Nested in a route's pipeline: adjust the outer middleware's headers for this route
+      outer.options = mergeOptions(outer.options, options);
+      return await next();
+    }
+
+    const active = { options: configured };
+    const nonce = Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString('base64');
+    state[ACTIVE] = active;
+    (ctx.state as any).cspNonce = nonce;
+
+    let response: Response;
+    try {
+      response = await next();
+    } catch (error) {
+      // Thrown errors become responses in the app's error handling, which adds the headers
+      addErrorHeaders(ctx.req, Object.fromEntries(securityHeaders(active.options, nonce)));
+      throw error;
+    }
+
+    // Fetched responses, e.g. from proxies, have immutable headers
+    const secured = new Response(response.body, response);
+    for (const [name, value] of securityHeaders(active.options, nonce)) {
+      if (!secured.headers.has(name)) secured.headers.set(name, value);
+    }
+    return secured;
+  };
+}
+
+function normalizeReport(raw: Record<string, any>): CSPReport {
+  return {
+    documentURL: raw.documentURL ?? raw['document-uri'],
+    blockedURL: raw.blockedURL ?? raw['blocked-uri'],
+    effectiveDirective: raw.effectiveDirective ?? raw['effective-directive'] ?? raw['violated-directive'],
+    originalPolicy: raw.originalPolicy ?? raw['original-policy'],
+    disposition: raw.disposition ?? 'enforce',
+    sourceFile: raw.sourceFile ?? raw['source-file'],
+    lineNumber: raw.lineNumber ?? raw['line-number'],
+    columnNumber: raw.columnNumber ?? raw['column-number'],
+    sample: raw.sample ?? raw['script-sample'],
+    statusCode: raw.statusCode ?? raw['status-code'],
+    referrer: raw.referrer
+  };
+}
+
+// The request body as text, read no further than MAX_REPORT_SIZE, since chunked bodies have no Content-Length
+async function readReport(request: Request): Promise<string> {
+  if (!request.body) return '';
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    size += read.value.byteLength;
+    if (size > MAX_REPORT_SIZE) {
+      await reader.cancel();
+      throw new PayloadTooLargeError('Report too large');
+    }
+    chunks.push(read.value);
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+/**
+ * Handler for the route named by the CSP `reportUri` option. Accepts both
+ * the `application/csp-report` and the Reporting API format and passes
+ * each violation to `onReport`, which logs it by default.
+ */
+export function cspReportHandler(
+  onReport: (report: CSPReport, ctx: Context) => void | Promise<void> = (report) => {
+    console.warn(`CSP violation: ${report.effectiveDirective} blocked ${report.blockedURL ?? 'inline code'} on ${report.documentURL}`);
+  }
+): Handler {
+  // The body is read here rather than by the app, so the size limit applies whatever the content type
+  return readsRawBody<Handler>(async (ctx) => {
+    if (Number(ctx.headers.get('content-length') ?? 0) > MAX_REPORT_SIZE) {
+      throw new PayloadTooLargeError('Report too large');
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(await readReport(ctx.req));
+    } catch (error) {
+      if (error instanceof PayloadTooLargeError) throw error;
+      throw new BadRequestError('Invalid CSP report', { cause: error });
+    }
+
+    const reports: Record<string, any>[] = Array.isArray(payload)
+      ? payload.filter(entry => entry?.type === 'csp-violation' && entry.body).map(entry => entry.body)
+      : payload?.['csp-report'] ? [payload['csp-report']] : [];
+    for (const report of reports) {
+      await onReport(normalizeReport(report), ctx);
+    }
+
+    return new Response(null, { status: 204 });
+  });
+}
@@ -0,0 +1,99 @@
+// Running server handle with graceful shutdown for imphnen.js
+
+import type { ServerHandle, StopOptions } from './types.js';
+
+type BunServer = ReturnType<typeof Bun.serve>;
+
+// Close code sent to WebSocket clients when the server shuts down
+export const GOING_AWAY = 1001;
+
+/**
+ * Counts in-flight HTTP requests and open WebSockets so shutdown can wait
+ * for active work before closing the listener.
+ */
+export class ConnectionTracker {
+  private active = 0;
+  private idleWaiters: (() => void)[] = [];
+  readonly sockets = new Set<{ close(code?: number, reason?: string): void }>();
+  closing = false;
+
+  get pendingRequests(): number {
+    return this.active;
+  }
+
+  async track(run: () => Response | undefined | Promise<Response | undefined>): Promise<Response | undefined> {
+    this.active++;
+    try {
+      return await run();
+    } finally {
+      this.active--;
+      if (this.active === 0) {
+        this.idleWaiters.splice(0).forEach(resolve => resolve());
+      }
+    }
+  }
+
+  // Resolves true once no requests are in flight, false if the timeout wins
+  idle(timeoutMs: number): Promise<boolean> {
+    if (this.active === 0) return Promise.resolve(true);
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(false), timeoutMs);
+      this.idleWaiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+}
+
+function withTimeout(promise: Promise<unknown>, ms: number): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<void>(resolve => { timer = setTimeout(resolve, Math.max(ms, 0)); });
+  return Promise.race([promise.then(() => {}), timeout]).finally(() => clearTimeout(timer));
+}
+
+export function createServerHandle(server: BunServer, tracker: ConnectionTracker): ServerHandle {
+  let stopping: Promise<void> | null = null;
+
+  return {
+    server,
+    port: server.port ?? 0,
+    hostname: server.hostname ?? 'localhost',
+    url: server.url,
+
+    get pendingRequests() {
+      return tracker.pendingRequests;
+    },
+
+    get pendingWebSockets() {
+      return tracker.sockets.size;
+    },
+
+    stop(options: StopOptions = {}) {
+      stopping ??= (async () => {
+        const { graceful = true, timeoutMs = 10000 } = options;
+        // Refuse new requests while draining
+        tracker.closing = true;
+
+        for (const socket of tracker.sockets) {
+          socket.close(GOING_AWAY, 'Server shutting down');
+        }
+
+        if (graceful) {
+          const deadline = Date.now() + timeoutMs;
+          const drained = await tracker.idle(timeoutMs);
+          if (drained) {
+            // Handlers are done, but responses may still be streaming out
+            await withTimeout(server.stop(false), deadline - Date.now());
+          } else {
+            console.warn(`⚠️ Shutdown timeout: closing ${tracker.pendingRequests} in-flight request(s)`);
+          }
+        }
+
+        await server.stop(true);
+      })();
+      return stopping;
+    }
+  };
+}
@@ -0,0 +1,289 @@
+// Sessions for imphnen.js pipelines, with pluggable stores
+
+import type { CookieOptions, Cookies } from './cookies.js';
+import type { PipelineMiddleware } from './pipeline.js';
+
+export type SessionData = Record<string, unknown>;
+
+/**
+ * Server-side storage for session data, keyed by session id. Adapters for
+ * Redis, SQL and the like implement this interface. `ttl` is in seconds;
+ * the store should forget a session once it has passed. Data is plain JSON.
+ */
+export interface SessionStore {
+  get(id: string): SessionData | undefined | Promise<SessionData | undefined>;
+  set(id: string, data: SessionData, ttl: number): void | Promise<void>;
+  destroy(id: string): void | Promise<void>;
+  // Extend the lifetime without rewriting the data; `set()` is used when missing
+  touch?(id: string, data: SessionData, ttl: number): void | Promise<void>;
+}
+
+/**
+ * Sessions in process memory. Data is lost on restart and not shared
+ * between processes, so this suits development, tests and single-instance
+ * deployments.
+ */
+export class MemoryStore implements SessionStore {
+  private sessions = new Map<string, { data: SessionData; expires: number }>();
+  private lastPrune = Date.now();
+
+  get(id: string): SessionData | undefined {
+    const entry = this.sessions.get(id);
+    if (!entry) return undefined;
+    if (entry.expires <= Date.now()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    return structuredClone(entry.data);
+  }
+
+  set(id: string, data: SessionData, ttl: number): void {
+    this.prune();
+    this.sessions.set(id, { data: structuredClone(data), expires: Date.now() + ttl * 1000 });
+  }
+
+  touch(id: string, _data: SessionData, ttl: number): void {
+    const entry = this.sessions.get(id);
+    if (entry) entry.expires = Date.now() + ttl * 1000;
+  }
+
+  destroy(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  // Number of stored sessions, including expired ones not yet pruned
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  // Drop expired sessions at most once a minute, so abandoned ones do not pile up
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastPrune < 60_000) return;
+    this.lastPrune = now;
+    for (const [id, entry] of this.sessions) {
+      if (entry.expires <= now) this.sessions.delete(id);
+    }
+  }
+}
+
+/**
+ * Keeps the whole session in an encrypted cookie instead of on the server,
+ * so it needs the `cookies.keys` option. Browsers drop cookies over about
+ * 4 KB; larger sessions throw rather than being lost silently.
+ */
+export class CookieStore {
+  constructor(private maxSize = 4096) {}
+
+  async load(cookies: Cookies, name: string): Promise<{ id: string; data: SessionData } | undefined> {
+    const sealed = await cookies.getEncrypted(name);
+    if (sealed === undefined) return undefined;
+
+    try {
+      const payload = JSON.parse(sealed);
+      if (typeof payload?.id !== 'string' || typeof payload.data !== 'object' || payload.exp <= Date.now()) {
+        return undefined;
+      }
+      return { id: payload.id, data: payload.data };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(cookies: Cookies, name: string, id: string, data: SessionData, ttl: number, options: CookieOptions): Promise<void> {
+    const payload = JSON.stringify({ id, data, exp: Date.now() + ttl * 1000 });
+    // base64url of the 12-byte IV, the ciphertext and the 16-byte tag
+    const size = name.length + 1 + Math.ceil((Buffer.byteLength(payload) + 28) * 4 / 3);
+    if (size > this.maxSize) {
+      throw new Error(`Session cookie "${name}" is ${size} bytes, over the ${this.maxSize} byte limit; use a server-side session store`);
+    }
+    await cookies.setEncrypted(name, payload, { ...options, maxAge: ttl });
+  }
+}
+
+export interface SessionOptions {
+  // Where session data lives; defaults to a MemoryStore
+  store?: SessionStore | CookieStore;
+  // Cookie name, 'sid' by default
+  name?: string;
+  // Lifetime in seconds, one day by default
+  maxAge?: number;
+  // Restart the lifetime on every request instead of only when the session changes
+  rolling?: boolean;
+  // Cookie attributes; defaults to `{ path: '/', httpOnly: true, sameSite: 'Lax' }`
+  cookie?: Omit<CookieOptions, 'maxAge' | 'expires'>;
+}
+
+// `ctx.state.session` in pipelines using `BuiltinMiddleware.session()`
+export interface Session<TData extends SessionData = SessionData> {
+  readonly id: string;
+  // True when the request did not come with a valid session
+  readonly isNew: boolean;
+  get<K extends keyof TData & string>(key: K): TData[K] | undefined;
+  // Values are saved when the response is sent; set objects again after changing them
+  set<K extends keyof TData & string>(key: K, value: TData[K]): void;
+  delete(key: keyof TData & string): void;
+  has(key: keyof TData & string): boolean;
+  all(): Partial<TData>;
+  // A message for the next request only, e.g. before a redirect
+  flash(key: string, value: unknown): void;
+  // A message flashed by the previous request
+  getFlash<T = unknown>(key: string): T | undefined;
+  // Move the data to a new id and drop the old one; call after login to prevent session fixation
+  regenerate(): Promise<void>;
+  // Clear the data and expire the cookie
+  destroy(): Promise<void>;
+}
+
+// Flash messages are stored alongside the data under this key
+const FLASH_KEY = '__flash';
+const SESSION_ID = /^[A-Za-z0-9_-]{43}$/;
+
+function createSessionId(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+}
+
+class RequestSession<TData extends SessionData> implements Session<TData> {
+  dirty = false;
+  readonly isNew: boolean;
+  private data: SessionData;
+  private incoming: Record<string, unknown>;
+  private outgoing: Record<string, unknown> = {};
+
+  constructor(
+    public id: string,
+    // Whether the store holds data under `id`
+    public stored: boolean,
+    initial: SessionData,
+    private forget: (id: string) => Promise<void>
+  ) {
+    this.isNew = !stored;
+    const { [FLASH_KEY]: flash, ...data } = initial;
+    this.data = data;
+    this.incoming = (flash as Record<string, unknown> | undefined) ?? {};
+    // Flash messages are consumed by this request whether or not they are read
+    this.dirty = flash !== undefined;
+  }
+
+  get<K extends keyof TData & string>(key: K): TData[K] | undefined {
+    return this.data[key] as TData[K] | undefined;
+  }
+
+  set<K extends keyof TData & string>(key: K, value: TData[K]): void {
+    this.data[key] = value;
+    this.dirty = true;
+  }
+
+  delete(key: keyof TData & string): void {
+    if (key in this.data) {
+      delete this.data[key];
+      this.dirty = true;
+    }
+  }
+
+  has(key: keyof TData & string): boolean {
+    return key in this.data;
+  }
+
+  all(): Partial<TData> {
+    return { ...this.data } as Partial<TData>;
+  }
+
+  flash(key: string, value: unknown): void {
+    this.outgoing[key] = value;
+    this.dirty = true;
+  }
+
+  getFlash<T = unknown>(key: string): T | undefined {
+    return this.incoming[key] as T | undefined;
+  }
+
+  async regenerate(): Promise<void> {
+    if (this.stored) await this.forget(this.id);
+    this.id = createSessionId();
+    this.stored = false;
+    this.dirty = true;
+  }
+
+  async destroy(): Promise<void> {
+    this.data = {};
+    this.outgoing = {};
+    await this.regenerate();
+  }
+
+  // The data to persist, or null when nothing is left to keep
+  snapshot(): SessionData | null {
+    const snapshot: SessionData = { ...this.data };
+    if (Object.keys(this.outgoing).length > 0) snapshot[FLASH_KEY] = this.outgoing;
+    return Object.keys(snapshot).length > 0 ? snapshot : null;
+  }
+}
+
+/**
+ * Loads the session named by the request cookie before the rest of the
+ * pipeline runs and saves it afterwards. Ids sent by the client are only
+ * used when the store knows them, so a session is never started under an
+ * id chosen by someone else.
+ */
+export function createSessionMiddleware<TData extends SessionData = SessionData>(
+  options: SessionOptions = {}
+): PipelineMiddleware<any, any, any, {}, { session: Session<TData> }> {
+  const store = options.store ?? new MemoryStore();
+  const name = options.name ?? 'sid';
+  const maxAge = options.maxAge ?? 60 * 60 * 24;
+  const cookie: CookieOptions = { path: '/', httpOnly: true, sameSite: 'Lax', ...options.cookie };
+  const { path, domain, secure, sameSite, partitioned } = cookie;
+
+  const forget = async (id: string) => {
+    if (!(store instanceof CookieStore)) await store.destroy(id);
+  };
+
+  const load = async (cookies: Cookies): Promise<{ id: string; data: SessionData } | undefined> => {
+    if (store instanceof CookieStore) return await store.load(cookies, name);
+
+    const id = cookies.get(name);
+    if (!id || !SESSION_ID.test(id)) return undefined;
+    const data = await store.get(id);
+    return data ? { id, data } : undefined;
+  };
+
+  const save = async (cookies: Cookies, id: string, data: SessionData, touch: boolean) => {
+    if (store instanceof CookieStore) {
+      await store.save(cookies, name, id, data, maxAge, cookie);
+      return;
+    }
+    if (touch && store.touch) {
+      await store.touch(id, data, maxAge);
+    } else {
+      await store.set(id, data, maxAge);
+    }
+    cookies.set(name, id, { ...cookie, maxAge });
+  };
+
+  return async (ctx, next) => {
+    const hadCookie = ctx.cookies.get(name) !== undefined;
+    const loaded = await load(ctx.cookies);
+    const session = new RequestSession<TData>(
+      loaded?.id ?? createSessionId(),
+      loaded !== undefined,
+      loaded?.data ?? {},
+      forget
+    );
+    (ctx.state as any).session = session;
+
+    const response = await next();
+
+    const data = session.snapshot();
+    if (!data) {
+      // Nothing left to keep: drop the stored session and the cookie
+      if (session.stored) await forget(session.id);
+      if (hadCookie) ctx.cookies.delete(name, { path, domain, secure, sameSite, partitioned });
+    } else if (session.dirty) {
+      await save(ctx.cookies, session.id, data, false);
+    } else if (options.rolling) {
+      await save(ctx.cookies, session.id, data, true);
+    }
+
+    return response;
+  };
+}
@@ -0,0 +1,320 @@
+// In-process test helpers for imphnen.js: request builder, response wrapper,
+// cookie jar and in-memory WebSocket
+
+import type { WebSocketContext, WebSocketData } from './types.js';
+import { createWebSocketContext, runWebSocketEvent } from './context.js';
+
+type QueryValue = string | number | boolean;
+type FormValue = string | Blob;
+
+export interface InjectOptions {
+  method?: string;
+  path: string;
+  query?: Record<string, QueryValue | QueryValue[] | undefined>;
+  headers?: Record<string, string>;
+  // Sent as `application/json`
+  json?: unknown;
+  // Sent as urlencoded, or multipart when it holds Blobs or `files` is set
+  form?: Record<string, FormValue | FormValue[]>;
+  files?: Record<string, Blob | Blob[]>;
+  // Raw body, used as-is
+  body?: RequestInit['body'];
+  cookies?: Record<string, string>;
+  // Sends the jar's cookies and stores the response's Set-Cookie headers
+  jar?: CookieJar;
+  // Address of the connecting client, as the server would see it (`ctx.ip`)
+  ip?: string;
+}
+
+export type RequestOptions = Omit<InjectOptions, 'path'>;
+
+export type WebSocketInjectOptions = Pick<InjectOptions, 'query' | 'headers' | 'cookies' | 'jar'>;
+
+const ORIGIN = 'http://localhost';
+
+/**
+ * Builds the Request described by `options`, as a client would send it to
+ * a running server.
+ */
+export function buildRequest(options: InjectOptions): Request {
+  const url = new URL(options.path, ORIGIN);
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      url.searchParams.append(key, String(item));
+    }
+  }
+
+  const headers = new Headers(options.headers);
+  const cookies = { ...options.jar?.toJSON(), ...options.cookies };
+  if (Object.keys(cookies).length > 0 && !headers.has('cookie')) {
+    headers.set('cookie', serializeCookies(cookies));
+  }
+
+  let body: RequestInit['body'] = options.body;
+  if (options.json !== undefined) {
+    body = JSON.stringify(options.json);
+    if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+  } else if (options.form || options.files) {
+    body = formBody(options.form ?? {}, options.files ?? {});
+    // URLSearchParams and FormData bodies set their own content type
+  }
+
+  return new Request(url.toString(), {
+    method: options.method ?? (body == null ? 'GET' : 'POST'),
+    headers,
+    body
+  });
+}
+
+function formBody(
+  form: Record<string, FormValue | FormValue[]>,
+  files: Record<string, Blob | Blob[]>
+): URLSearchParams | FormData {
+  const entries = Object.entries(form).flatMap(([key, value]) =>
+    (Array.isArray(value) ? value : [value]).map(item => [key, item] as const)
+  );
+
+  const hasBlobs = entries.some(([, value]) => typeof value !== 'string');
+  if (!hasBlobs && Object.keys(files).length === 0) {
+    return new URLSearchParams(entries as [string, string][]);
+  }
+
+  const data = new FormData();
+  for (const [key, value] of entries) data.append(key, value);
+  for (const [key, value] of Object.entries(files)) {
+    for (const file of Array.isArray(value) ? value : [value]) data.append(key, file);
+  }
+  return data;
+}
+
+function serializeCookies(cookies: Record<string, string>): string {
+  return Object.entries(cookies)
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join('; ');
+}
+
+interface SetCookie {
+  name: string;
+  value: string;
+  expired: boolean;
+}
+
+function parseSetCookie(header: string): SetCookie | null {
+  const [pair = '', ...attributes] = header.split(';');
+  const index = pair.indexOf('=');
+  if (index <= 0) return null;
+
+  const name = pair.slice(0, index).trim();
+  let value = pair.slice(index + 1).trim();
+  try {
+    value = decodeURIComponent(value);
+  } catch {
+    // Keep the raw value when it is not percent-encoded
+  }
+
+  let expired = false;
+  for (const attribute of attributes) {
+    const [key = '', attrValue = ''] = attribute.split('=').map(part => part.trim());
+    if (key.toLowerCase() === 'max-age' && Number(attrValue) <= 0) expired = true;
+    if (key.toLowerCase() === 'expires' && Date.parse(attrValue) <= Date.now()) expired = true;
+  }
+
+  return { name, value, expired };
+}
+
+function setCookies(headers: Headers): SetCookie[] {
+  return headers.getSetCookie()
+    .map(parseSetCookie)
+    .filter((cookie): cookie is SetCookie => cookie !== null);
+}
+
+/**
+ * Cookie store shared across in-process requests. It keeps one value per
+ * name and ignores Domain and Path, since every request goes to the same app.
+ */
+export class CookieJar {
+  private cookies = new Map<string, string>();
+
+  get(name: string): string | undefined {
+    return this.cookies.get(name);
+  }
+
+  set(name: string, value: string): this {
+    this.cookies.set(name, value);
+    return this;
+  }
+
+  delete(name: string): boolean {
+    return this.cookies.delete(name);
+  }
+
+  clear(): void {
+    this.cookies.clear();
+  }
+
+  // Apply a response's Set-Cookie headers; expired cookies are removed
+  store(response: Response): void {
+    for (const cookie of setCookies(response.headers)) {
+      if (cookie.expired) this.cookies.delete(cookie.name);
+      else this.cookies.set(cookie.name, cookie.value);
+    }
+  }
+
+  toJSON(): Record<string, string> {
+    return Object.fromEntries(this.cookies);
+  }
+}
+
+/**
+ * Response wrapper returned by `app.inject()` and `app.request()`. The body
+ * is buffered once, so `text()` and `json()` can both be called, and the
+ * `expect*` helpers chain for quick assertions.
+ */
+export class TestResponse {
+  private bodyText: Promise<string> | null = null;
+
+  constructor(readonly raw: Response) {}
+
+  get status(): number {
+    return this.raw.status;
+  }
+
+  get ok(): boolean {
+    return this.raw.ok;
+  }
+
+  get headers(): Headers {
+    return this.raw.headers;
+  }
+
+  // Cookies set by this response, by name
+  get cookies(): Record<string, string> {
+    return Object.fromEntries(setCookies(this.raw.headers).map(cookie => [cookie.name, cookie.value]));
+  }
+
+  text(): Promise<string> {
+    this.bodyText ??= this.raw.text();
+    return this.bodyText;
+  }
+
+  async json(): Promise<any> {
+    return JSON.parse(await this.text());
+  }
+
+  expectStatus(status: number): this {
+    if (this.status !== status) {
+      throw new Error(`Expected status ${status}, received ${this.status}`);
+    }
+    return this;
+  }
+
+  // Without `expected`, only checks that the header is present
+  expectHeader(name: string, expected?: string | RegExp): this {
+    const actual = this.headers.get(name);
+    if (actual === null) {
+      throw new Error(`Expected header "${name}" to be set`);
+    }
+    if (expected !== undefined) {
+      const matches = typeof expected === 'string' ? actual === expected : expected.test(actual);
+      if (!matches) {
+        throw new Error(`Expected header "${name}" to match ${String(expected)}, received "${actual}"`);
+      }
+    }
+    return this;
+  }
+}
+
+const OPEN = 1;
+const CLOSED = 3;
+
+interface MemorySocket {
+  data: WebSocketData;
+  readyState: number;
+  send(message: string | ArrayBuffer | Uint8Array): number;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Client end of an in-memory WebSocket connected to a route's handlers.
+ * `send()` and `close()` resolve once the matching handler has run; messages
+ * the handler sends back are collected in `messages`.
+ */
+export class TestWebSocket {
+  readonly messages: (string | Buffer)[] = [];
+  closeCode?: number;
+  closeReason?: string;
+
+  private cursor = 0;
+  private waiters: (() => void)[] = [];
+  private readonly ctx: WebSocketContext<any>;
+  private readonly socket: MemorySocket;
+
+  private constructor(private data: WebSocketData) {
+    // Server end handed to the route handlers as `ctx.ws`
+    this.socket = {
+      data,
+      readyState: OPEN,
+      send: (message: string | ArrayBuffer | Uint8Array) => {
+        this.receive(typeof message === 'string' ? message : Buffer.from(message as Uint8Array));
+        return 1;
+      },
+      close: (code = 1000, reason = '') => {
+        void this.finish(code, reason);
+      }
+    };
+    this.ctx = createWebSocketContext(this.socket, data);
+  }
+
+  // Connect and run the route's open handler
+  static async open(data: WebSocketData): Promise<TestWebSocket> {
+    const socket = new TestWebSocket(data);
+    const { handler } = socket.data.route;
+    await runWebSocketEvent(handler, socket.ctx, () => handler.open?.(socket.ctx));
+    return socket;
+  }
+
+  get closed(): boolean {
+    return this.socket.readyState === CLOSED;
+  }
+
+  async send(message: string | Buffer): Promise<void> {
+    if (this.closed) throw new Error('WebSocket is closed');
+
+    const { handler } = this.data.route;
+    await runWebSocketEvent(handler, this.ctx, () => handler.message?.(this.ctx, message));
+  }
+
+  close(code = 1000, reason = ''): Promise<void> {
+    return this.finish(code, reason);
+  }
+
+  // Next message sent by the server that has not been read yet
+  async nextMessage(timeoutMs = 1000): Promise<string | Buffer> {
+    if (this.cursor >= this.messages.length) {
+      const arrived = await new Promise<boolean>(resolve => {
+        const timer = setTimeout(() => resolve(false), timeoutMs);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve(true);
+        });
+      });
+      if (!arrived) throw new Error(`No WebSocket message within ${timeoutMs}ms`);
+    }
+    return this.messages[this.cursor++]!;
+  }
+
+  private receive(message: string | Buffer): void {
+    this.messages.push(message);
+    this.waiters.splice(0).forEach(wake => wake());
+  }
+
+  private async finish(code: number, reason: string): Promise<void> {
+    if (this.closed) return;
+    this.socket.readyState = CLOSED;
+    this.closeCode = code;
+    this.closeReason = reason;
+    const { handler } = this.data.route;
+    await runWebSocketEvent(handler, this.ctx, () => handler.close?.(this.ctx, code, reason));
+  }
+}
@@ -1,19 +1,36 @@
 // Core type definitions for imphnen.js framework
 
+import type { RouteSchema } from './schema.js';
+import type { Cookies, CookieConfig } from './cookies.js';
+import type { Requirement } from './guards.js';
+import type { CorsOptions } from './cors.js';
+
 export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
 
+// Params contributed by a single `:name`, `:name?` or `:name*` segment,
+// with any `(regex)` constraint stripped from the name
+type ParamSegment<S extends string> =
+  S extends `${infer Name}(${infer _Constraint})${infer Suffix}`
+    ? ParamSegment<`${Name}${Suffix}`>
+    : S extends `${infer Name}*`
+    ? { [K in Name]: string }
+    : S extends `${infer Name}?`
+    ? { [K in Name]?: string }
+    : { [K in S]: string };
+
 // Enhanced route parameter parsing with better type inference
 export type RouteParams<T extends string> = 
   T extends `${infer _Start}:${infer Param}/${infer Rest}`
-    ? { [K in Param]: string } & RouteParams<`/${Rest}`>
-    : T extends `${infer _Start}:${infer Param}?/${infer Rest}`
-    ? { [K in Param]?: string } & RouteParams<`/${Rest}`>
+    ? ParamSegment<Param> & RouteParams<`/${Rest}`>
     : T extends `${infer _Start}:${infer Param}`
-    ? { [K in Param]: string }
-    : T extends `${infer _Start}:${infer Param}?`
-    ? { [K in Param]?: string }
+    ? ParamSegment<Param>
+    : T extends `${infer _Start}/*`
+    ? { '*': string }
     : {};
 
+// Route params in the Record<string, string> shape handlers are typed against
+export type PathParams<T extends string> = { [K in keyof RouteParams<T>]: string };
+
 // Fallback route params type for complex patterns
 export type AnyRouteParams = Record<string, string>;
 
@@ -40,6 +57,15 @@ export interface WebSocketRoute {
   handler: WebSocketHandler<any>;
 }
 
+// Data attached to an upgraded socket, used to build its WebSocketContext
+export interface WebSocketData {
+  route: WebSocketRoute;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: Headers;
+  url: URL;
+}
+
 // File upload types
 export interface UploadedFile {
   name: string;
@@ -98,10 +124,29 @@ export interface ServerSentEventOptions {
 }
 
 // Enhanced context with streaming support
+// Response whose JSON payload type is known at compile time
+export type TypedResponse<T = unknown, TStatus extends number = number> = Response & {
+  readonly '~payload'?: T;
+  readonly '~status'?: TStatus;
+};
+
+// `ctx.json()` for a route: any payload, or only the declared response types
+export type JsonResponder<TResponse> = unknown extends TResponse
+  ? <T, TStatus extends number = number>(data: T, init?: ResponseInit & { status?: TStatus }) => TypedResponse<T, TStatus>
+  : {
+      <TStatus extends keyof TResponse & number>(
+        data: TResponse[TStatus],
+        init: ResponseInit & { status: TStatus }
+      ): TypedResponse<TResponse[TStatus], TStatus>;
+      // Without a status the response is a 200, or whatever `ctx.set.status()` chose
+      (data: TResponse[keyof TResponse], init?: ResponseInit & { status?: undefined }): TypedResponse<TResponse[keyof TResponse]>;
+    };
+
 export type Context<
-  TParams extends Record<string, string> = {},
-  TQuery extends Record<string, string> = {},
-  TBody = unknown
+  TParams extends Record<string, any> = {},
+  TQuery extends Record<string, any> = {},
+  TBody = unknown,
+  TResponse = unknown
 > = {
   req: Request;
   params: TParams;
@@ -110,12 +155,18 @@ export type Context<
   headers: Headers;
   // Enhanced file handling
   files?: UploadedFile[];
+  // Request cookies; cookies set here are sent with the response
+  cookies: Cookies;
+  // Client address; read from X-Forwarded-For only when `proxy.trustProxy` is set
+  ip?: string;
+  // State added by pipelines run as middleware, e.g. `user` from an auth pipeline
+  state: Record<string, any>;
   // Response helpers
   set: {
     headers: (headers: Record<string, string>) => void;
     status: (status: number) => void;
   };
-  json: <T>(data: T, init?: ResponseInit) => Response;
+  json: JsonResponder<TResponse>;
   text: (text: string, init?: ResponseInit) => Response;
   html: (html: string, init?: ResponseInit) => Response;
   redirect: (url: string, status?: number) => Response;
@@ -139,20 +190,53 @@ export type Context<
 };
 
 export type Handler<
-  TParams extends Record<string, string> = {},
-  TQuery extends Record<string, string> = {},
-  TBody = unknown
-> = (ctx: Context<TParams, TQuery, TBody>) => Response | Promise<Response>;
+  TParams extends Record<string, any> = {},
+  TQuery extends Record<string, any> = {},
+  TBody = unknown,
+  TResponse = unknown
+> = (ctx: Context<TParams, TQuery, TBody, TResponse>) => Response | Promise<Response>;
 
 export type Middleware<
-  TParams extends Record<string, string> = {},
-  TQuery extends Record<string, string> = {},
-  TBody = unknown
+  TParams extends Record<string, any> = {},
+  TQuery extends Record<string, any> = {},
+  TBody = unknown,
+  TResponse = unknown
 > = (
-  ctx: Context<TParams, TQuery, TBody>,
+  ctx: Context<TParams, TQuery, TBody, TResponse>,
   next: () => Promise<Response>
 ) => Response | Promise<Response>;
 
+// Central error handler registered with `app.onError()`
+export type ErrorHandler = (
+  error: unknown,
+  ctx: Context<any, any, any>
+) => Response | Promise<Response>;
+
+// Lifecycle hooks, in the order they fire for a request
+
+// Before routing: rewrite the URL in place or return a Response to short-circuit
+export type OnRequestHook = (
+  request: Request,
+  url: URL
+) => void | Response | Promise<void | Response>;
+
+// After body parsing, before middleware and handler: return a Response to skip the handler
+export type BeforeHandleHook = (
+  ctx: Context<any, any, any>
+) => void | Response | Promise<void | Response>;
+
+// After the handler: return a Response to replace the one produced
+export type AfterHandleHook = (
+  ctx: Context<any, any, any>,
+  response: Response
+) => void | Response | Promise<void | Response>;
+
+// After the response is sent, including error responses
+export type OnResponseHook = (
+  request: Request,
+  response: Response
+) => void | Promise<void>;
+
 // Combined middleware type for chaining
 export type CombinedMiddleware<
   TParams extends Record<string, string> = {},
@@ -160,22 +244,50 @@ export type CombinedMiddleware<
   TBody = unknown
 > = Middleware<TParams, TQuery, TBody>[];
 
+// A registered route as reported by `app.listRoutes()`
+export interface RouteInfo {
+  method: HTTPMethod;
+  path: string;
+  // Guards every request to the route must pass, including global ones
+  requirements: Requirement[];
+}
+
 export interface RouteDefinition {
   method: HTTPMethod;
   path: string;
   handler: Handler<any>;
   middlewares: Middleware<any>[];
+  // Request schemas declared at registration
+  schema?: RouteSchema;
+}
+
+export interface StopOptions {
+  // Wait for in-flight requests before closing connections (default: true)
+  graceful?: boolean;
+  // Longest time to wait for in-flight requests (default: 10000)
+  timeoutMs?: number;
+}
+
+// Handle to a running server, resolved by `app.listen()`
+export interface ServerHandle {
+  server: ReturnType<typeof Bun.serve>;
+  port: number;
+  hostname: string;
+  url: URL;
+  readonly pendingRequests: number;
+  readonly pendingWebSockets: number;
+  stop(options?: StopOptions): Promise<void>;
 }
 
 export interface ImphnenOptions {
   port?: number;
   hostname?: string;
   development?: boolean;
-  cors?: boolean | {
-    origin?: string | string[];
-    methods?: HTTPMethod[];
-    headers?: string[];
-  };
+  // Check JSON responses against route response schemas in development:
+  // 'warn' logs mismatches, 'error' turns them into a 500
+  responseValidation?: 'warn' | 'error';
+  // CORS for every response, see `CorsOptions`
+  cors?: boolean | CorsOptions;
   // File upload options
   uploads?: {
     maxFileSize?: number; // in bytes
@@ -185,7 +297,8 @@ export interface ImphnenOptions {
   };
   // Proxy options
   proxy?: {
-    trustProxy?: boolean;
+    // `true` trusts one proxy; a number trusts that many in a chain
+    trustProxy?: boolean | number;
     timeout?: number;
   };
   // WebSocket options
@@ -195,4 +308,6 @@ export interface ImphnenOptions {
     backpressureLimit?: number;
     compression?: boolean;
   };
+  // Keys for signed and encrypted cookies, and default cookie attributes
+  cookies?: CookieConfig;
 } 
\ No newline at end of file
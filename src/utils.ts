@@ -1,41 +1,14 @@
 // Utility functions for imphnen.js framework
 import type { UploadedFile, ProxyOptions, CombinedMiddleware, Middleware, ImphnenOptions } from './types.js';
+import { Router } from './router.js';
+import { BadRequestError } from './errors.js';
 
-// Enhanced route parameter parsing with optional parameters support
+// Route parameter parsing with optional and catch-all parameter support
 export function parseURLParams<T extends Record<string, string>>(
   pattern: string,
   pathname: string
 ): T {
-  const patternParts = pattern.split('/');
-  const pathParts = pathname.split('/');
-  const params: Record<string, string> = {};
-
-  // Handle different lengths for optional parameters
-  const minLength = Math.min(patternParts.length, pathParts.length);
-  const maxLength = Math.max(patternParts.length, pathParts.length);
-
-  for (let i = 0; i < maxLength; i++) {
-    const patternPart = patternParts[i];
-    const pathPart = pathParts[i];
-
-    if (!patternPart) continue;
-
-    if (patternPart.startsWith(':')) {
-      const paramName = patternPart.slice(1);
-      const isOptional = paramName.endsWith('?');
-      const cleanParamName = isOptional ? paramName.slice(0, -1) : paramName;
-      
-      if (pathPart) {
-        params[cleanParamName] = decodeURIComponent(pathPart);
-      } else if (!isOptional) {
-        return {} as T; // Required param missing
-      }
-    } else if (patternPart !== pathPart && i < minLength) {
-      return {} as T;
-    }
-  }
-
-  return params as T;
+  return (matchPattern(pattern, pathname) ?? {}) as T;
 }
 
 export function parseQuery<T extends Record<string, string>>(url: URL): T {
@@ -49,32 +22,26 @@ export function parseQuery<T extends Record<string, string>>(url: URL): T {
 }
 
 export function matchRoute(pattern: string, pathname: string): boolean {
-  const patternParts = pattern.split('/');
-  const pathParts = pathname.split('/');
+  return matchPattern(pattern, pathname) !== null;
+}
 
-  // Handle optional parameters
-  const minPatternLength = patternParts.filter(part => 
-    !part.startsWith(':') || !part.endsWith('?')
-  ).length;
-  
-  if (pathParts.length < minPatternLength) {
-    return false;
-  }
+// Match a single pattern using the same rules as the compiled router
+function matchPattern(pattern: string, pathname: string): Record<string, string> | null {
+  const router = new Router<true>();
+  router.add('GET', pattern, true);
+  return router.find('GET', pathname)?.params ?? null;
+}
 
-  if (pathParts.length > patternParts.length) {
-    return false;
-  }
+// Handlers that read the request body themselves, so it is left unparsed for them
+const rawBodyHandlers = new WeakSet<Function>();
 
-  return patternParts.every((part, i) => {
-    const pathPart = pathParts[i];
-    
-    if (part.startsWith(':')) {
-      const isOptional = part.endsWith('?');
-      return pathPart !== undefined || isOptional;
-    }
-    
-    return part === pathPart;
-  });
+export function readsRawBody<T extends Function>(handler: T): T {
+  rawBodyHandlers.add(handler);
+  return handler;
+}
+
+export function parsesBody(handler: Function): boolean {
+  return !rawBodyHandlers.has(handler);
 }
 
 // Enhanced body parsing with file upload support
@@ -130,7 +97,7 @@ export async function parseBody(request: Request, options?: ImphnenOptions['uplo
         files
       };
     } catch (error) {
-      throw new Error(`File upload error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new BadRequestError(`File upload error: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
@@ -308,6 +275,21 @@ export class MiddlewareChain<
   }
 }
 
+// Drop the body of a response to a HEAD request while keeping its status and headers.
+// The body is cancelled unread, so open streams neither hang nor get buffered.
+export async function stripBody(response: Response): Promise<Response> {
+  if (!response.body) {
+    return response;
+  }
+
+  await response.body.cancel();
+  return new Response(null, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
+
 export function createResponse(
   data: unknown,
   init?: ResponseInit
@@ -337,17 +319,26 @@ export function createResponse(
     if (!headers['content-type']) {
       headers['content-type'] = 'text/plain; charset=utf-8';
     }
-    return new Response(data, { ...init, headers });
+    return bufferedResponse(data, init, headers);
   }
 
   if (typeof data === 'object' && data !== null) {
     if (!headers['content-type']) {
       headers['content-type'] = 'application/json; charset=utf-8';
     }
-    return new Response(JSON.stringify(data), { ...init, headers });
+    return bufferedResponse(JSON.stringify(data), init, headers);
   }
 
-  return new Response(String(data), { ...init, headers });
+  return bufferedResponse(String(data), init, headers);
+}
+
+// A text body with its Content-Length, which HEAD responses keep once the body is stripped
+function bufferedResponse(body: string, init: ResponseInit | undefined, headers: Record<string, string>): Response {
+  const bodiless = init?.status === 204 || init?.status === 304;
+  if (!bodiless && !Object.keys(headers).some(name => name.toLowerCase() === 'content-length')) {
+    headers['content-length'] = String(Buffer.byteLength(body));
+  }
+  return new Response(body, { ...init, headers });
 }
 
 // File serving utility
@@ -0,0 +1,102 @@
+// Integration tests for Basic, API key and token authentication
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, BuiltinMiddleware, timingSafeEqual } from '../../src/index.js';
+
+const basic = (username: string, password: string) =>
+  `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+describe('BuiltinMiddleware.basicAuth()', () => {
+  test('accepts configured users and challenges everyone else', async () => {
+    const app = createApp({ development: false });
+    const admin = app.pipeline().use(BuiltinMiddleware.basicAuth({ realm: 'Admin', users: { ada: 'pa:ss wörd' } }));
+    app.route('GET', '/admin', admin, (ctx) => ctx.json({ user: ctx.state.user.username }));
+
+    const ok = await app.request('/admin', { headers: { authorization: basic('ada', 'pa:ss wörd') } });
+    expect(await ok.json()).toEqual({ user: 'ada' });
+
+    for (const authorization of [undefined, basic('ada', 'wrong'), basic('eve', 'pa:ss wörd'), 'Basic !!!']) {
+      const res = await app.request('/admin', { headers: authorization ? { authorization } : {} });
+      expect(res.status).toBe(401);
+      expect(res.headers.get('www-authenticate')).toBe('Basic realm="Admin", charset="UTF-8"');
+    }
+  });
+
+  test('maps credentials to a typed user with an async verifier', async () => {
+    const app = createApp();
+    const admin = app.pipeline().use(BuiltinMiddleware.basicAuth({
+      verify: async (username, password) => password === 'secret' && { name: username.toUpperCase(), admin: true }
+    }));
+    app.route('GET', '/admin', admin, (ctx) => ctx.json({ name: ctx.state.user.name, admin: ctx.state.user.admin }));
+
+    const res = await app.request('/admin', { headers: { authorization: basic('ada', 'secret') } });
+    expect(await res.json()).toEqual({ name: 'ADA', admin: true });
+  });
+});
+
+describe('BuiltinMiddleware.apiKey()', () => {
+  const partners: Record<string, { partner: string }> = { k1: { partner: 'acme' } };
+
+  test('reads the key from the default header', async () => {
+    const app = createApp({ development: false });
+    const pipeline = app.pipeline().use(BuiltinMiddleware.apiKey({ verify: (key) => partners[key] }));
+    app.route('GET', '/data', pipeline, (ctx) => ctx.json({ partner: ctx.state.user.partner }));
+
+    expect(await (await app.request('/data', { headers: { 'x-api-key': 'k1' } })).json()).toEqual({ partner: 'acme' });
+    expect(await (await app.request('/data', { headers: { 'x-api-key': 'nope' } })).json()).toEqual({ error: 'Invalid API key', status: 401 });
+    expect(await (await app.request('/data')).json()).toEqual({ error: 'API key required', status: 401 });
+  });
+
+  test('falls back from header to query to cookie', async () => {
+    const app = createApp();
+    const seen: string[] = [];
+    const pipeline = app.pipeline().use(BuiltinMiddleware.apiKey({
+      header: 'x-partner-key',
+      query: 'api_key',
+      cookie: 'partner_key',
+      verify: async (key) => {
+        seen.push(key);
+        return partners[key];
+      }
+    }));
+    app.route('GET', '/data', pipeline, (ctx) => ctx.text(ctx.state.user.partner));
+
+    await app.request('/data', { headers: { 'x-partner-key': 'k1' } });
+    await app.request('/data?api_key=k1');
+    await app.request('/data', { cookies: { partner_key: 'k1' } });
+    // The default header is not read once another source is configured
+    const res = await app.request('/data', { headers: { 'x-api-key': 'k1' } });
+
+    expect(seen).toEqual(['k1', 'k1', 'k1']);
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('BuiltinMiddleware.tokenAuth()', () => {
+  test('verifies opaque bearer tokens with a callback', async () => {
+    const app = createApp({ development: false });
+    const tokens = new Map([['opaque-1', { id: 'u1', scopes: ['read'] }]]);
+    const pipeline = app.pipeline().use(BuiltinMiddleware.tokenAuth({ verify: async (token) => tokens.get(token) }));
+    app.route('GET', '/me', pipeline, (ctx) => ctx.json({ id: ctx.state.user.id, scopes: ctx.state.user.scopes }));
+
+    const ok = await app.request('/me', { headers: { authorization: 'Bearer opaque-1' } });
+    expect(await ok.json()).toEqual({ id: 'u1', scopes: ['read'] });
+
+    const missing = await app.request('/me');
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    const invalid = await app.request('/me', { headers: { authorization: 'Bearer opaque-2' } });
+    expect(invalid.status).toBe(401);
+    expect(invalid.headers.get('www-authenticate')).toBe('Bearer error="invalid_token"');
+  });
+});
+
+describe('timingSafeEqual()', () => {
+  test('compares strings of any length', () => {
+    expect(timingSafeEqual('secret', 'secret')).toBe(true);
+    expect(timingSafeEqual('secret', 'secreT')).toBe(false);
+    expect(timingSafeEqual('secret', 'secret-longer')).toBe(false);
+    expect(timingSafeEqual('', 'secret')).toBe(false);
+    expect(timingSafeEqual('x', '')).toBe(false);
+    expect(timingSafeEqual('', '')).toBe(true);
+  });
+});
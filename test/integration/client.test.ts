@@ -0,0 +1,105 @@
+// Integration tests for the typed RPC client
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, createClient, t } from '../../src/index.js';
+import type { Context } from '../../src/index.js';
+
+const User = t.object({ id: t.integer(), name: t.string() });
+
+const users = createApp()
+  .get('/users/:id', {
+    params: t.object({ id: t.integer() }),
+    response: { 200: User, 404: t.object({ error: t.string() }) }
+  }, (ctx) => ctx.params.id === 0
+    ? ctx.json({ error: 'Not found' }, { status: 404 })
+    : ctx.json({ id: ctx.params.id, name: 'Ada' }))
+  .post('/users', {
+    body: t.object({ name: t.string() }),
+    query: t.object({ notify: t.boolean().optional() })
+  }, (ctx) => ctx.json({ name: ctx.body.name, notify: ctx.query.notify ?? false }, { status: 201 }));
+
+const app = createApp()
+  .get('/health', (ctx: Context) => ctx.json({ ok: true }))
+  .get('/files/:path*', (ctx: Context<{ path: string }>) => ctx.text(ctx.params.path))
+  .get('/raw/*', (ctx: Context<{ '*': string }>) => ctx.text(ctx.params['*']))
+  .get('/posts/:slug?', (ctx: Context<{ slug?: string }>) => ctx.json({ slug: ctx.params.slug ?? null }))
+  .mount('/api', users);
+
+const client = createClient<typeof app>('http://localhost', { fetch: app.handler });
+
+describe('createClient()', () => {
+  test('infers params, body and responses from schema routes', async () => {
+    const res = await client.get('/api/users/:id', { params: { id: 7 } });
+    if (res.status === 200) {
+      const name: string = res.data.name;
+      expect(name).toBe('Ada');
+    }
+    expect(res.data).toEqual({ id: 7, name: 'Ada' });
+
+    const missing = await client.get('/api/users/:id', { params: { id: 0 } });
+    expect(missing.status).toBe(404);
+    if (missing.status === 404) {
+      expect(missing.data.error).toBe('Not found');
+    }
+
+    const created = await client.post('/api/users', { json: { name: 'Grace' }, query: { notify: true } });
+    expect(created.status).toBe(201);
+    expect(created.data).toEqual({ name: 'Grace', notify: true });
+  });
+
+  test('infers responses from the handler and fills path patterns', async () => {
+    const health = await client.get('/health');
+    const ok: boolean = health.data.ok;
+    expect(ok).toBe(true);
+
+    expect((await client.get('/files/:path*', { params: { path: 'a b/c.txt' } })).data).toBe('a b/c.txt');
+    expect((await client.get('/raw/*', { params: { '*': 'a?b/c#d.txt' } })).data).toBe('a?b/c#d.txt');
+    expect((await client.get('/posts/:slug?')).data).toEqual({ slug: null });
+    expect((await client.get('/posts/:slug?', { params: { slug: 'hello' } })).data).toEqual({ slug: 'hello' });
+  });
+
+  test('rejects unknown routes and wrong inputs at compile time', () => {
+    // Only type-checked, never sent
+    const calls = () => [
+      // @ts-expect-error no such route
+      client.get('/nope'),
+      // @ts-expect-error POST /health is not registered
+      client.post('/health'),
+      // @ts-expect-error params are required
+      client.get('/api/users/:id'),
+      // @ts-expect-error body must match the schema
+      client.post('/api/users', { json: { name: 1 } })
+    ];
+    expect(calls).toBeFunction();
+  });
+
+  test('knows routes registered through group callbacks', async () => {
+    const grouped = createApp()
+      .group('/v1/', (v1) => v1
+        .get('/orgs/:orgId', (ctx) => ctx.json({ org: ctx.params.orgId }))
+        .group('/admin', (admin) => admin
+          .post('/reindex', { body: t.object({ full: t.boolean() }) }, (ctx) => ctx.json({ full: ctx.body.full }, { status: 202 }))));
+    const groupedClient = createClient<typeof grouped>('http://localhost', { fetch: grouped.handler });
+
+    const org = await groupedClient.get('/v1/orgs/:orgId', { params: { orgId: 'acme' } });
+    const name: string = org.data.org;
+    expect(name).toBe('acme');
+
+    const reindex = await groupedClient.post('/v1/admin/reindex', { json: { full: true } });
+    expect(reindex.data).toEqual({ full: true });
+
+    // @ts-expect-error the body must match the schema
+    const wrong = () => groupedClient.post('/v1/admin/reindex', { json: { full: 'yes' } });
+    expect(wrong).toBeFunction();
+  });
+
+  test('sends default headers with every request', async () => {
+    const echo = createApp().get('/whoami', (ctx: Context) => ctx.json({ auth: ctx.headers.get('authorization') }));
+    const authed = createClient<typeof echo>('http://localhost/', {
+      fetch: echo.handler,
+      headers: { authorization: 'Bearer token' }
+    });
+
+    expect((await authed.get('/whoami')).data).toEqual({ auth: 'Bearer token' });
+  });
+});
@@ -0,0 +1,119 @@
+// Integration tests for ctx.cookies and signed/encrypted cookies
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, CookieJar, serializeCookie } from '../../src/index.js';
+import type { Context } from '../../src/index.js';
+
+describe('serializeCookie()', () => {
+  test('writes every attribute', () => {
+    expect(serializeCookie('id', 'a b', {
+      path: '/',
+      domain: 'example.com',
+      maxAge: 60,
+      expires: new Date(Date.UTC(2030, 0, 1)),
+      sameSite: 'None',
+      secure: true,
+      httpOnly: true,
+      partitioned: true
+    })).toBe('id=a%20b; Domain=example.com; Path=/; Max-Age=60; Expires=Tue, 01 Jan 2030 00:00:00 GMT; SameSite=None; Secure; HttpOnly; Partitioned');
+  });
+
+  test('rejects cookies browsers would drop', () => {
+    expect(() => serializeCookie('bad name', 'x')).toThrow('Invalid cookie name "bad name"');
+    expect(() => serializeCookie('id', 'x', { sameSite: 'None' })).toThrow('must be Secure');
+    expect(() => serializeCookie('id', 'x', { path: '/a;b' })).toThrow('Invalid cookie path');
+  });
+});
+
+describe('ctx.cookies', () => {
+  test('reads request cookies and sends one Set-Cookie header per cookie', async () => {
+    const app = createApp({ cookies: { defaults: { path: '/', httpOnly: true } } });
+    app.get('/', (ctx: Context) => {
+      ctx.cookies.set('theme', ctx.cookies.get('theme') === 'dark' ? 'light' : 'dark');
+      ctx.cookies.set('lang', 'en', { maxAge: 3600 });
+      ctx.cookies.delete('legacy');
+      ctx.set.headers({ 'set-cookie': 'raw=1' });
+      return ctx.json(ctx.cookies.all());
+    });
+
+    const res = await app.request('/', { cookies: { theme: 'dark', legacy: 'x' } });
+    expect(await res.json()).toEqual({ theme: 'light', lang: 'en' });
+    expect(res.headers.getSetCookie()).toEqual([
+      'raw=1',
+      'theme=light; Path=/; HttpOnly',
+      'lang=en; Path=/; Max-Age=3600; HttpOnly',
+      'legacy=; Path=/; Max-Age=0; Expires=Thu, 01 Jan 1970 00:00:00 GMT; HttpOnly'
+    ]);
+  });
+
+  test('applies cookies to responses built without ctx helpers and to errors', async () => {
+    const app = createApp({ development: false });
+    app.get('/redirect', (ctx: Context) => {
+      ctx.cookies.set('a', '1');
+      return Response.redirect('http://localhost/next', 302);
+    });
+    app.get('/fail', (ctx: Context) => {
+      ctx.cookies.delete('session');
+      throw new Error('boom');
+    });
+
+    const redirect = await app.request('/redirect');
+    expect(redirect.status).toBe(302);
+    expect(redirect.cookies).toEqual({ a: '1' });
+
+    const fail = await app.request('/fail');
+    expect(fail.status).toBe(500);
+    expect(fail.headers.getSetCookie()).toHaveLength(1);
+  });
+
+  test('signed cookies reject tampered values and survive key rotation', async () => {
+    const routes = (app: ReturnType<typeof createApp>) => app
+      .post('/login', async (ctx: Context) => {
+        await ctx.cookies.setSigned('user', 'ada');
+        return ctx.text('ok');
+      })
+      .get('/me', async (ctx: Context) => ctx.json({ user: await ctx.cookies.getSigned('user') ?? null }));
+
+    const oldApp = routes(createApp({ cookies: { keys: ['old-secret'] } }));
+    const newApp = routes(createApp({ cookies: { keys: ['new-secret', 'old-secret'] } }));
+    const otherApp = routes(createApp({ cookies: { keys: ['unrelated'] } }));
+
+    const jar = new CookieJar();
+    await oldApp.request('/login', { method: 'POST', jar });
+    const signed = jar.get('user')!;
+    expect(signed.startsWith('ada.')).toBe(true);
+
+    expect(await (await newApp.request('/me', { jar })).json()).toEqual({ user: 'ada' });
+    expect(await (await otherApp.request('/me', { jar })).json()).toEqual({ user: null });
+    expect(await (await newApp.request('/me', { cookies: { user: signed.replace('ada', 'eve') } })).json()).toEqual({ user: null });
+  });
+
+  test('encrypted cookies hide their value and are bound to their name', async () => {
+    const app = createApp({ cookies: { keys: ['secret'] } });
+    app.post('/save', async (ctx: Context) => {
+      await ctx.cookies.setEncrypted('note', 'top secret');
+      return ctx.text('ok');
+    });
+    app.get('/read/:name', async (ctx: Context<{ name: string }>) =>
+      ctx.json({ value: await ctx.cookies.getEncrypted(ctx.params.name) ?? null }));
+
+    const jar = new CookieJar();
+    await app.request('/save', { method: 'POST', jar });
+    const sealed = jar.get('note')!;
+    expect(sealed).not.toContain('secret');
+
+    expect(await (await app.request('/read/note', { jar })).json()).toEqual({ value: 'top secret' });
+    // The same ciphertext under another name does not decrypt
+    expect(await (await app.request('/read/other', { cookies: { other: sealed } })).json()).toEqual({ value: null });
+  });
+
+  test('signed cookies without configured keys fail loudly', async () => {
+    const app = createApp({ development: false });
+    app.get('/', async (ctx: Context) => {
+      await ctx.cookies.setSigned('a', 'b');
+      return ctx.text('ok');
+    });
+
+    expect((await app.request('/')).status).toBe(500);
+  });
+});
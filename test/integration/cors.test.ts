@@ -0,0 +1,110 @@
+// Integration tests for CORS through the app option and the middleware
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, BuiltinMiddleware, NotFoundError } from '../../src/index.js';
+import type { Context } from '../../src/index.js';
+
+const preflight = (origin: string, headers: Record<string, string> = {}) => ({
+  method: 'OPTIONS',
+  headers: { origin, 'access-control-request-method': 'PUT', ...headers }
+});
+
+describe('cors app option', () => {
+  const app = createApp({
+    development: false,
+    cors: {
+      origin: ['https://app.example.com', /^https:\/\/[a-z0-9-]+\.preview\.example\.com$/],
+      credentials: true,
+      exposeHeaders: ['X-Request-Id'],
+      maxAge: 600,
+      privateNetwork: true
+    }
+  });
+  app.get('/items', (ctx: Context) => ctx.json([]));
+  app.get('/items/:id', () => {
+    throw new NotFoundError('No such item');
+  });
+
+  test('answers preflights from allowed origins', async () => {
+    const res = await app.request('/items', preflight('https://app.example.com', {
+      'access-control-request-headers': 'content-type, x-token',
+      'access-control-request-private-network': 'true'
+    }));
+    expect(res.status).toBe(204);
+    expect(Object.fromEntries(res.headers)).toEqual({
+      'access-control-allow-origin': 'https://app.example.com',
+      'access-control-allow-credentials': 'true',
+      'access-control-allow-methods': 'GET, HEAD, PUT, PATCH, POST, DELETE',
+      'access-control-allow-headers': 'content-type, x-token',
+      'access-control-max-age': '600',
+      'access-control-allow-private-network': 'true',
+      'vary': 'Origin, Access-Control-Request-Headers'
+    });
+
+    const pattern = await app.request('/items', preflight('https://pr42.preview.example.com'));
+    expect(pattern.headers.get('access-control-allow-origin')).toBe('https://pr42.preview.example.com');
+
+    const denied = await app.request('/items', preflight('https://evil.example'));
+    expect(denied.headers.get('access-control-allow-origin')).toBeNull();
+    expect(denied.headers.get('access-control-allow-methods')).toBeNull();
+  });
+
+  test('adds headers to responses, errors and 404s', async () => {
+    const headers = { origin: 'https://app.example.com' };
+    for (const [path, status] of [['/items', 200], ['/items/1', 404], ['/missing', 404]] as const) {
+      const res = await app.request(path, { headers });
+      expect(res.status).toBe(status);
+      expect(res.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+      expect(res.headers.get('access-control-allow-credentials')).toBe('true');
+      expect(res.headers.get('access-control-expose-headers')).toBe('X-Request-Id');
+      expect(res.headers.get('vary')).toBe('Origin');
+    }
+
+    const sameOrigin = await app.request('/items');
+    expect(sameOrigin.headers.get('access-control-allow-origin')).toBeNull();
+    expect(sameOrigin.headers.get('vary')).toBe('Origin');
+  });
+
+  test('allows any origin by default and checks origins with a function', async () => {
+    const open = createApp({ cors: true });
+    open.get('/', (ctx: Context) => ctx.text('ok'));
+    const res = await open.request('/', { headers: { origin: 'https://anywhere.example' } });
+    expect(res.headers.get('access-control-allow-origin')).toBe('*');
+    expect(res.headers.get('vary')).toBeNull();
+    // Plain OPTIONS requests are not preflights
+    expect((await open.request('/', { method: 'OPTIONS' })).headers.get('allow')).toBe('GET, HEAD, OPTIONS');
+
+    const checked = createApp({ cors: { origin: async (origin) => origin.endsWith('.example.org') } });
+    checked.get('/', (ctx: Context) => ctx.text('ok'));
+    const allowed = await checked.request('/', { headers: { origin: 'https://a.example.org' } });
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://a.example.org');
+    const denied = await checked.request('/', { headers: { origin: 'https://a.example.com' } });
+    expect(denied.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
+
+describe('BuiltinMiddleware.cors()', () => {
+  test('handles preflights and responses through the global pipeline', async () => {
+    const app = createApp({ development: false });
+    app.use(app.pipeline().use(BuiltinMiddleware.cors({ origin: 'https://app.example.com', headers: ['Content-Type'] })));
+    const authed = app.pipeline()
+      .use(BuiltinMiddleware.tokenAuth({ verify: (token) => ({ id: token }) }))
+      .use(BuiltinMiddleware.cors({ origin: 'https://app.example.com' }));
+    app.route('PUT', '/me', authed, (ctx) => ctx.json({ id: ctx.state.user.id }));
+
+    const pre = await app.request('/me', preflight('https://app.example.com'));
+    expect(pre.status).toBe(204);
+    expect(pre.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    expect(pre.headers.get('access-control-allow-headers')).toBe('Content-Type');
+
+    const headers = { origin: 'https://app.example.com', authorization: 'Bearer u1' };
+    const ok = await app.request('/me', { method: 'PUT', headers });
+    expect(await ok.json()).toEqual({ id: 'u1' });
+    expect(ok.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    expect(ok.headers.get('vary')).toBe('Origin');
+
+    const unauthorized = await app.request('/me', { method: 'PUT', headers: { origin: 'https://app.example.com' } });
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+  });
+});
@@ -0,0 +1,111 @@
+// Integration tests for the CSRF middleware
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, BuiltinMiddleware, CookieJar } from '../../src/index.js';
+import type { Context, CSRFOptions } from '../../src/index.js';
+
+function formApp(options: CSRFOptions = {}) {
+  const app = createApp({ development: false, cookies: { keys: ['test-secret'] } });
+  const pipeline = app.pipeline()
+    .use(BuiltinMiddleware.session())
+    .use(BuiltinMiddleware.csrf(options));
+
+  app.route('GET', '/form', pipeline, (ctx) =>
+    ctx.html(`<form method="post"><input name="_csrf" value="${ctx.state.csrfToken}"></form>`)
+  );
+  app.route('GET', '/ping', pipeline, (ctx) => ctx.text('pong'));
+  app.route('POST', '/transfer', pipeline, (ctx) => ctx.text('sent'));
+  app.route('POST', '/webhooks/:provider', pipeline, (ctx) => ctx.text('received'));
+  return app;
+}
+
+async function formToken(app: ReturnType<typeof formApp>, jar: CookieJar): Promise<string> {
+  const html = await (await app.request('/form', { jar })).text();
+  return /value="([^"]+)"/.exec(html)![1]!;
+}
+
+describe('BuiltinMiddleware.csrf()', () => {
+  test('accepts forms carrying the token and rejects the rest', async () => {
+    const app = formApp();
+    const jar = new CookieJar();
+    const token = await formToken(app, jar);
+
+    expect((await app.request('/transfer', { jar, form: { _csrf: token } })).status).toBe(200);
+    const receipt = new File(['%PDF'], 'receipt.pdf', { type: 'application/pdf' });
+    expect((await app.request('/transfer', { jar, form: { _csrf: token }, files: { receipt } })).status).toBe(200);
+
+    const missing = await app.request('/transfer', { jar, form: { amount: '10' } });
+    expect(missing.status).toBe(403);
+    expect(await missing.json()).toEqual({ error: 'CSRF token missing', status: 403 });
+
+    const forged = await app.request('/transfer', { form: { _csrf: token } });
+    expect(await forged.json()).toEqual({ error: 'Invalid CSRF token', status: 403 });
+  });
+
+  test('lets scripts echo the double-submit cookie in a header', async () => {
+    const app = formApp();
+    const jar = new CookieJar();
+    // The cookie is issued on the first request, before any form is rendered
+    await app.request('/ping', { jar });
+    const token = jar.get('_csrf')!;
+
+    const res = await app.request('/transfer', { method: 'POST', jar, headers: { 'x-csrf-token': token } });
+    expect(res.status).toBe(200);
+  });
+
+  test('blocks requests browsers report as cross-site', async () => {
+    const app = formApp({ origins: ['https://app.example.com'] });
+    const jar = new CookieJar();
+    const token = await formToken(app, jar);
+    const post = (headers: Record<string, string>) =>
+      app.request('/transfer', { jar, headers, form: { _csrf: token } });
+
+    expect((await post({ origin: 'https://evil.example' })).status).toBe(403);
+    expect((await post({ origin: 'null' })).status).toBe(403);
+    expect((await post({ referer: 'https://evil.example/page' })).status).toBe(403);
+    expect(await (await post({ 'sec-fetch-site': 'cross-site' })).json())
+      .toEqual({ error: 'Cross-site request blocked', status: 403 });
+
+    expect((await post({ origin: 'http://localhost', 'sec-fetch-site': 'same-origin' })).status).toBe(200);
+    expect((await post({ origin: 'https://app.example.com', 'sec-fetch-site': 'same-site' })).status).toBe(200);
+  });
+
+  test('keeps the token in the session once a form asks for it', async () => {
+    const app = formApp({ strategy: 'session' });
+    const jar = new CookieJar();
+
+    // No session is started for requests that never render a form
+    await app.request('/ping', { jar });
+    expect(jar.get('sid')).toBeUndefined();
+
+    const token = await formToken(app, jar);
+    expect(jar.get('sid')).toBeDefined();
+    expect(jar.get('_csrf')).toBeUndefined();
+    expect((await app.request('/transfer', { jar, form: { _csrf: token } })).status).toBe(200);
+    expect(await formToken(app, jar)).toBe(token);
+  });
+
+  test('keeps the token in a signed HttpOnly cookie', async () => {
+    const app = formApp({ strategy: 'cookie' });
+    const jar = new CookieJar();
+    const res = await app.request('/form', { jar });
+    expect(res.headers.get('set-cookie')).toMatch(/^_csrf=.+; Path=\/; SameSite=Lax; HttpOnly$/);
+    const token = /value="([^"]+)"/.exec(await res.text())![1]!;
+
+    expect((await app.request('/transfer', { jar, form: { _csrf: token } })).status).toBe(200);
+    // An unsigned cookie planted by an attacker is ignored
+    const planted = await app.request('/transfer', { cookies: { _csrf: token }, form: { _csrf: token } });
+    expect(planted.status).toBe(403);
+  });
+
+  test('skips exempt routes and guards routes through the global pipeline', async () => {
+    const app = formApp({ exempt: ['/webhooks/*'] });
+    expect((await app.request('/webhooks/stripe', { method: 'POST', json: { id: 'evt_1' } })).status).toBe(200);
+    expect((await app.request('/transfer', { method: 'POST' })).status).toBe(403);
+
+    const global = createApp();
+    global.use(global.pipeline().use(BuiltinMiddleware.csrf()));
+    global.post('/comments', (ctx: Context) => ctx.text('posted'));
+    expect((await global.request('/comments', { form: { text: 'hi' } })).status).toBe(403);
+  });
+});
@@ -0,0 +1,110 @@
+// Integration tests for route groups
+
+import { describe, expect, test } from 'bun:test';
+import { createApp } from '../../src/index.js';
+import type { Middleware } from '../../src/index.js';
+
+const tag = (name: string): Middleware<any> => async (ctx, next) => {
+  const response = await next();
+  response.headers.append('x-trail', name);
+  return response;
+};
+
+describe('app.group', () => {
+  test('prefixes paths and infers params from the joined path', async () => {
+    const app = createApp();
+    app.group('/orgs/:orgId', (group) => {
+      group.get('/users/:id', (ctx) => ctx.json({ org: ctx.params.orgId, user: ctx.params.id }));
+      group.get('/', (ctx) => ctx.json({ org: ctx.params.orgId }));
+    });
+
+    const user = await app.handler(new Request('http://localhost/orgs/acme/users/7'));
+    expect(await user.json()).toEqual({ org: 'acme', user: '7' });
+
+    const org = await app.handler(new Request('http://localhost/orgs/acme'));
+    expect(await org.json()).toEqual({ org: 'acme' });
+  });
+
+  test('runs group middlewares before route middlewares', async () => {
+    const app = createApp();
+    const api = app.group('/api/v1', { middleware: tag('group') });
+    api.get('/ping', tag('route'), (ctx) => ctx.text('pong'));
+
+    const response = await app.handler(new Request('http://localhost/api/v1/ping'));
+    expect(await response.text()).toBe('pong');
+    expect(response.headers.get('x-trail')).toBe('route, group');
+  });
+
+  test('prepends group middlewares to pipeline routes', async () => {
+    const app = createApp();
+    const pipeline = app.pipeline().use<{ user: string }>(async (ctx, next) => {
+      (ctx.state as any).user = 'alice';
+      return await next();
+    });
+
+    app.group('/api', { middleware: tag('group') }, (group) => {
+      group.post('/items', pipeline, (ctx) => ctx.json({ user: ctx.state.user }));
+    });
+
+    const response = await app.handler(new Request('http://localhost/api/items', { method: 'POST' }));
+    expect(await response.json()).toEqual({ user: 'alice' });
+    expect(response.headers.get('x-trail')).toBe('group');
+  });
+
+  test('supports nested groups', async () => {
+    const app = createApp();
+    app.group('/api', { middleware: tag('outer') }, (api) => {
+      api.group('/v2', { middleware: tag('inner') }, (v2) => {
+        v2.delete('/items/:id', (ctx) => ctx.json({ deleted: ctx.params.id }));
+      });
+    });
+
+    const response = await app.handler(new Request('http://localhost/api/v2/items/3', { method: 'DELETE' }));
+    expect(await response.json()).toEqual({ deleted: '3' });
+    expect(response.headers.get('x-trail')).toBe('inner, outer');
+  });
+
+  test('takes middlewares of any arity from the options', async () => {
+    const app = createApp();
+    const seen: string[] = [];
+    const logged: Middleware<any> = (ctx, ...rest) => {
+      seen.push(new URL(ctx.req.url).pathname);
+      return rest[0]!();
+    };
+
+    // Joined like the runtime path, so the trailing slash does not double
+    app.group('/api/', { middleware: [logged, tag('group')] }, (api) => {
+      api.get('/items/:id', (ctx) => ctx.json({ id: ctx.params.id }));
+    });
+
+    const response = await app.handler(new Request('http://localhost/api/items/5'));
+    expect(await response.json()).toEqual({ id: '5' });
+    expect(response.headers.get('x-trail')).toBe('group');
+    expect(seen).toEqual(['/api/items/5']);
+  });
+
+  test('takes middlewares as arguments, with or without a callback', async () => {
+    const app = createApp();
+    const pipeline = app.pipeline().use(async (ctx, next) => {
+      const response = await next();
+      response.headers.append('x-trail', 'pipeline');
+      return response;
+    });
+    app.group('/inline/:section', tag('a'), pipeline, (api) => {
+      api.get('/ping', (ctx) => ctx.text(`pong ${ctx.params.section}`));
+    });
+    const later = app.group('/later', tag('b'), tag('c'));
+    later.get('/ping', (ctx) => ctx.text('pong'));
+
+    const inline = await app.handler(new Request('http://localhost/inline/x/ping'));
+    expect(await inline.text()).toBe('pong x');
+    expect(inline.headers.get('x-trail')).toBe('pipeline, a');
+    expect((await app.handler(new Request('http://localhost/later/ping'))).headers.get('x-trail')).toBe('c, b');
+  });
+
+  test('rejects a middleware without next taken for the callback', () => {
+    const app = createApp();
+    const terminal: Middleware<any> = async (ctx) => ctx.text('never');
+    expect(() => app.group('/api', tag('a'), terminal as any)).toThrow(TypeError);
+  });
+});
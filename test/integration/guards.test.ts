@@ -0,0 +1,139 @@
+// Integration tests for authorization guards
+
+import { describe, expect, test } from 'bun:test';
+import {
+  createApp,
+  createGuards,
+  describeRequirement,
+  guard,
+  requireAll,
+  requireAny,
+  requirePermission,
+  requireRole,
+  BuiltinMiddleware
+} from '../../src/index.js';
+import type { Context } from '../../src/index.js';
+
+interface User {
+  id: string;
+  roles?: string[];
+  scope?: string;
+}
+
+const users: Record<string, User> = {
+  admin: { id: 'u1', roles: ['admin'], scope: 'orders:*' },
+  clerk: { id: 'u2', roles: ['staff'], scope: 'orders:read' }
+};
+
+// Bearer tokens naming one of the users above
+const authenticate = () => BuiltinMiddleware.tokenAuth({ verify: (token) => users[token] });
+const as = (token: string) => ({ headers: { authorization: `Bearer ${token}` } });
+
+describe('guards', () => {
+  test('allow users with the role and keep the typed user in state', async () => {
+    const app = createApp({ development: false });
+    const admins = app.pipeline().use(authenticate()).use(requireRole('admin'));
+    app.route('GET', '/admin', admins, (ctx) => ctx.json({ id: ctx.state.user.id }));
+
+    expect(await (await app.request('/admin', as('admin'))).json()).toEqual({ id: 'u1' });
+
+    const forbidden = await app.request('/admin', as('clerk'));
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.json()).toEqual({ error: 'Forbidden', status: 403, details: { required: 'role:admin' } });
+
+    expect((await app.request('/admin')).status).toBe(401);
+  });
+
+  test('see the user a global pipeline added on plain routes', async () => {
+    const app = createApp({ development: false });
+    app.use(app.pipeline().use(authenticate()));
+    app.get('/admin', requireRole('admin'), (ctx: Context) => ctx.text(ctx.state.user.id));
+
+    expect(await (await app.request('/admin', as('admin'))).text()).toBe('u1');
+    expect((await app.request('/admin', as('clerk'))).status).toBe(403);
+    expect((await app.request('/admin')).status).toBe(401);
+  });
+
+  test('see the user a group pipeline added on plain and pipeline routes', async () => {
+    const app = createApp({ development: false });
+    app.group('/admin', { middleware: [app.pipeline().use(authenticate()), requireRole('admin')] }, (admin) => {
+      admin.get('/plain', (ctx: Context) => ctx.text('plain'));
+      admin.route('GET', '/piped', app.pipeline(), (ctx) => ctx.text('piped'));
+    });
+
+    for (const path of ['/admin/plain', '/admin/piped']) {
+      expect((await app.request(path, as('admin'))).status).toBe(200);
+      expect((await app.request(path, as('clerk'))).status).toBe(403);
+      expect((await app.request(path)).status).toBe(401);
+    }
+  });
+
+  test('match permissions with wildcards and combine guards', async () => {
+    const app = createApp({ development: false });
+    const writers = app.pipeline().use(authenticate()).use(requireAny(
+      requirePermission('orders:write'),
+      requireAll(requireRole('staff'), guard('weekday', () => true))
+    ));
+    const strict = app.pipeline().use(authenticate()).use(requireAll(requireRole('staff'), requirePermission('orders:write')));
+    app.route('POST', '/orders', writers, (ctx) => ctx.text('created'));
+    app.route('DELETE', '/orders', strict, (ctx) => ctx.text('deleted'));
+
+    expect((await app.request('/orders', { method: 'POST', ...as('admin') })).status).toBe(200);
+    expect((await app.request('/orders', { method: 'POST', ...as('clerk') })).status).toBe(200);
+    expect((await app.request('/orders', { method: 'DELETE', ...as('admin') })).status).toBe(403);
+    expect((await app.request('/orders', { method: 'DELETE', ...as('clerk') })).status).toBe(403);
+  });
+
+  test('read roles and permissions from a typed user', async () => {
+    const { requireRole: requireGroup } = createGuards<{ groups: string[] }>({ roles: (user) => user.groups });
+    const app = createApp();
+    const pipeline = app.pipeline()
+      .use(BuiltinMiddleware.tokenAuth({ verify: (token) => ({ groups: token.split(',') }) }))
+      .use(requireGroup('ops'));
+    app.route('GET', '/deploy', pipeline, (ctx) => ctx.json(ctx.state.user.groups));
+
+    expect((await app.request('/deploy', as('dev,ops'))).status).toBe(200);
+    expect((await app.request('/deploy', as('dev'))).status).toBe(403);
+  });
+
+  test('describe nested requirements', () => {
+    const g = requireAll(requireRole('admin'), requireAny(requirePermission('a'), requirePermission('b')), guard('owner', () => true));
+    expect(describeRequirement(g.requirement)).toBe('role:admin and (permission:a or permission:b) and owner');
+  });
+});
+
+describe('protected route listings', () => {
+  const app = createApp();
+  const admins = app.pipeline().use(authenticate()).use(requireRole('admin'));
+  app.get('/health', (ctx: Context) => ctx.text('ok'));
+  app.group('/admin', { middleware: admins }, (admin) => {
+    admin.get('/stats', (ctx: Context) => ctx.json({}));
+    admin.route('POST', '/orders', app.pipeline().use(requirePermission('orders:write')), (ctx) => ctx.text('ok'));
+  });
+
+  test('listRoutes() reports the guards of each route', () => {
+    expect(app.listRoutes().map(route => [route.method, route.path, route.requirements.map(describeRequirement)])).toEqual([
+      ['POST', '/admin/orders', ['role:admin', 'permission:orders:write']],
+      ['GET', '/health', []],
+      ['GET', '/admin/stats', ['role:admin']]
+    ]);
+  });
+
+  test('group guards apply to traditional routes', async () => {
+    expect((await app.request('/admin/stats', as('clerk'))).status).toBe(403);
+    expect((await app.request('/admin/stats', as('admin'))).status).toBe(200);
+  });
+
+  test('the OpenAPI document marks protected operations', () => {
+    const doc = app.openapi({ info: { title: 'Test', version: '1' } });
+    expect(doc.paths['/admin/orders']?.post).toEqual({
+      'x-requires': 'role:admin and permission:orders:write',
+      responses: {
+        '200': { description: 'OK' },
+        '401': { description: 'Unauthorized' },
+        '403': { description: 'Forbidden' }
+      }
+    });
+    expect(doc.paths['/health']?.get).toEqual({ responses: { '200': { description: 'OK' } } });
+  });
+});
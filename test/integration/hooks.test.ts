@@ -0,0 +1,126 @@
+// Integration tests for lifecycle hooks
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, lifecycle, NotFoundError } from '../../src/index.js';
+import type { Context } from '../../src/index.js';
+
+// onResponse hooks fire after the response is built
+const flush = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('lifecycle hooks', () => {
+  test('fire in order around the handler', async () => {
+    const app = createApp();
+    const events: string[] = [];
+
+    app.onRequest(() => { events.push('onRequest'); });
+    app.beforeHandle((ctx) => { events.push(`beforeHandle ${JSON.stringify(ctx.body)}`); });
+    app.afterHandle((ctx, response) => { events.push(`afterHandle ${response.status}`); });
+    app.onResponse((request, response) => { events.push(`onResponse ${response.status}`); });
+    app.post('/items', (ctx: Context) => {
+      events.push('handler');
+      return ctx.json({ ok: true }, { status: 201 });
+    });
+
+    await app.handler(new Request('http://localhost/items', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ name: 'a' })
+    }));
+    await flush();
+
+    expect(events).toEqual([
+      'onRequest',
+      'beforeHandle {"name":"a"}',
+      'handler',
+      'afterHandle 201',
+      'onResponse 201'
+    ]);
+  });
+
+  test('onRequest can rewrite the URL or short-circuit', async () => {
+    const app = createApp();
+    app.onRequest((request, url) => {
+      if (url.pathname.endsWith('/') && url.pathname !== '/') {
+        url.pathname = url.pathname.slice(0, -1);
+      }
+    });
+    app.onRequest((request) => {
+      if (request.headers.get('x-maintenance')) {
+        return new Response('Down for maintenance', { status: 503 });
+      }
+    });
+    app.get('/docs', (ctx: Context) => ctx.text(new URL(ctx.req.url).pathname));
+
+    expect(await (await app.handler(new Request('http://localhost/docs/'))).text()).toBe('/docs');
+
+    const blocked = await app.handler(new Request('http://localhost/docs', { headers: { 'x-maintenance': '1' } }));
+    expect(blocked.status).toBe(503);
+  });
+
+  test('beforeHandle short-circuits and afterHandle transforms', async () => {
+    const app = createApp();
+    app.beforeHandle((ctx) => {
+      if (ctx.query.cached) return ctx.text('cached');
+    });
+    app.afterHandle((ctx, response) => {
+      const headers = new Headers(response.headers);
+      headers.set('x-wrapped', 'true');
+      return new Response(response.body, { status: response.status, headers });
+    });
+    app.get('/data', (ctx: Context) => ctx.text('fresh'));
+
+    const fresh = await app.handler(new Request('http://localhost/data'));
+    expect(await fresh.text()).toBe('fresh');
+    expect(fresh.headers.get('x-wrapped')).toBe('true');
+
+    const cached = await app.handler(new Request('http://localhost/data?cached=1'));
+    expect(await cached.text()).toBe('cached');
+  });
+
+  test('onResponse fires for error responses', async () => {
+    const app = createApp({ development: false });
+    const statuses: number[] = [];
+    app.onResponse((request, response) => { statuses.push(response.status); });
+    app.get('/missing', () => {
+      throw new NotFoundError();
+    });
+
+    await app.handler(new Request('http://localhost/missing'));
+    await flush();
+
+    expect(statuses).toEqual([404]);
+  });
+
+  test('route and group hooks run as middleware', async () => {
+    const app = createApp();
+    const events: string[] = [];
+
+    app.group('/api', { middleware: lifecycle({ beforeHandle: () => { events.push('group'); } }) }, (api) => {
+      api.get('/ping', lifecycle({
+        beforeHandle: () => { events.push('route'); },
+        onResponse: (request, response) => { events.push(`done ${response.status}`); }
+      }), (ctx) => ctx.text('pong'));
+    });
+
+    await app.handler(new Request('http://localhost/api/ping'));
+    await flush();
+
+    expect(events).toEqual(['group', 'route', 'done 200']);
+  });
+
+  test('route onResponse hooks get the error response the client receives', async () => {
+    const app = createApp({ development: false });
+    const seen: unknown[] = [];
+    app.get('/missing', lifecycle({
+      onResponse: async (request, response) => { seen.push(response.status, await response.clone().json()); }
+    }), () => {
+      throw new NotFoundError('No such page');
+    });
+
+    const response = await app.handler(new Request('http://localhost/missing'));
+    await flush();
+
+    expect(response.status).toBe(404);
+    expect(seen).toEqual([404, { error: 'No such page', status: 404 }]);
+  });
+});
@@ -0,0 +1,172 @@
+// Integration tests for JWT signing, verification and BuiltinMiddleware.auth
+
+import { describe, expect, test } from 'bun:test';
+import {
+  createApp,
+  createLocalJWKS,
+  createRemoteJWKS,
+  decodeJWT,
+  signJWT,
+  verifyJWT,
+  BuiltinMiddleware,
+  JWTError
+} from '../../src/index.js';
+import type { JWK, JWTAlgorithm, JWTVerifyOptions } from '../../src/index.js';
+
+const secret = 'a-long-random-secret-for-tests';
+
+async function rejection(token: string, options: JWTVerifyOptions): Promise<string> {
+  try {
+    await verifyJWT(token, options);
+  } catch (error) {
+    if (error instanceof JWTError) return error.code;
+    throw error;
+  }
+  throw new Error('Token was accepted');
+}
+
+async function keyPair(algorithm: Exclude<JWTAlgorithm, 'HS256'>) {
+  const params = {
+    RS256: { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+    EdDSA: { name: 'Ed25519' }
+  }[algorithm];
+  const pair = await crypto.subtle.generateKey(params, true, ['sign', 'verify']) as CryptoKeyPair;
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey) as JWK;
+  const spki = Buffer.from(await crypto.subtle.exportKey('spki', pair.publicKey)).toString('base64');
+  return { privateKey: pair.privateKey, jwk, pem: `-----BEGIN PUBLIC KEY-----\n${spki}\n-----END PUBLIC KEY-----\n` };
+}
+
+describe('signJWT() and verifyJWT()', () => {
+  test('round-trips HS256 tokens and rejects tampering', async () => {
+    const token = await signJWT({ role: 'admin' }, secret, { subject: 'u1', issuer: 'imphnen', audience: 'api', expiresIn: 60 });
+
+    const { header, payload } = decodeJWT(token);
+    expect(header).toEqual({ alg: 'HS256', typ: 'JWT' });
+    expect(payload.exp! - payload.iat!).toBe(60);
+
+    expect(await verifyJWT(token, { key: secret, issuer: 'imphnen', audience: ['web', 'api'] })).toMatchObject({ sub: 'u1', role: 'admin' });
+
+    const [h, p, s] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...payload, role: 'root' })).toString('base64url');
+    expect(await rejection(`${h}.${forged}.${s}`, { key: secret })).toBe('invalid_signature');
+    expect(await rejection(token, { key: 'another-secret' })).toBe('invalid_signature');
+    expect(await rejection(`${h}.${p}`, { key: secret })).toBe('malformed');
+  });
+
+  for (const algorithm of ['RS256', 'ES256', 'EdDSA'] as const) {
+    test(`verifies ${algorithm} tokens with JWK and PEM public keys`, async () => {
+      const { privateKey, jwk, pem } = await keyPair(algorithm);
+      const token = await signJWT({ sub: 'u1' }, privateKey, { algorithm });
+
+      expect((await verifyJWT(token, { key: jwk })).sub).toBe('u1');
+      expect((await verifyJWT(token, { key: pem })).sub).toBe('u1');
+      expect(await rejection(token, { key: jwk, algorithms: ['HS256'] })).toBe('unsupported_algorithm');
+    });
+  }
+
+  test('never uses a public key as an HMAC secret', async () => {
+    const { pem } = await keyPair('RS256');
+    // Signed with the public key text, as in the classic algorithm confusion attack
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+    const body = Buffer.from(JSON.stringify({ sub: 'attacker' })).toString('base64url');
+    const hmac = await crypto.subtle.importKey('raw', new TextEncoder().encode(pem), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = Buffer.from(await crypto.subtle.sign('HMAC', hmac, new TextEncoder().encode(`${header}.${body}`))).toString('base64url');
+
+    expect(await rejection(`${header}.${body}.${signature}`, { key: pem })).toBe('unsupported_algorithm');
+    expect(await rejection(`${Buffer.from('{"alg":"none"}').toString('base64url')}.${body}.`, { key: secret })).toBe('unsupported_algorithm');
+  });
+
+  test('checks expiry, not-before, issuer and audience with clock tolerance', async () => {
+    const expired = await signJWT({ exp: Math.floor(Date.now() / 1000) - 10 }, secret);
+    expect(await rejection(expired, { key: secret })).toBe('expired');
+    expect(await verifyJWT(expired, { key: secret, clockTolerance: 30 })).toBeDefined();
+
+    const early = await signJWT({}, secret, { notBefore: 10 });
+    expect(await rejection(early, { key: secret })).toBe('not_yet_valid');
+    expect(await verifyJWT(early, { key: secret, clockTolerance: 30 })).toBeDefined();
+
+    const token = await signJWT({}, secret, { issuer: 'a', audience: ['x', 'y'] });
+    expect(await rejection(token, { key: secret, issuer: 'b' })).toBe('invalid_issuer');
+    expect(await rejection(token, { key: secret, audience: 'z' })).toBe('invalid_audience');
+    expect(await verifyJWT(token, { key: secret, issuer: ['a', 'b'], audience: 'y' })).toBeDefined();
+  });
+});
+
+describe('JWKS', () => {
+  test('picks keys by kid from a local set', async () => {
+    const first = await keyPair('ES256');
+    const second = await keyPair('ES256');
+    const key = createLocalJWKS({ keys: [{ ...first.jwk, kid: 'one' }, { ...second.jwk, kid: 'two' }] });
+
+    const token = await signJWT({ sub: 'u1' }, second.privateKey, { algorithm: 'ES256', keyId: 'two' });
+    expect((await verifyJWT(token, { key })).sub).toBe('u1');
+
+    const unknown = await signJWT({}, second.privateKey, { algorithm: 'ES256', keyId: 'three' });
+    expect(await rejection(unknown, { key })).toBe('no_matching_key');
+  });
+
+  test('caches a remote set and refetches it for unknown kids', async () => {
+    const old = await keyPair('EdDSA');
+    const rotated = await keyPair('EdDSA');
+    let keys = [{ ...old.jwk, kid: 'old' }];
+    let fetches = 0;
+    const key = createRemoteJWKS('https://issuer.test/.well-known/jwks.json', {
+      cooldown: 0,
+      fetch: () => {
+        fetches++;
+        return Response.json({ keys });
+      }
+    });
+
+    const oldToken = await signJWT({}, old.privateKey, { algorithm: 'EdDSA', keyId: 'old' });
+    await verifyJWT(oldToken, { key });
+    await verifyJWT(oldToken, { key });
+    expect(fetches).toBe(1);
+
+    keys = [...keys, { ...rotated.jwk, kid: 'new' }];
+    const newToken = await signJWT({}, rotated.privateKey, { algorithm: 'EdDSA', keyId: 'new' });
+    await verifyJWT(newToken, { key });
+    expect(fetches).toBe(2);
+  });
+
+  test('rejects keys on the wrong curve or with a bad point as JWTErrors', async () => {
+    const { privateKey, jwk } = await keyPair('ES256');
+    const token = await signJWT({ sub: 'u1' }, privateKey, { algorithm: 'ES256', keyId: 'k' });
+
+    const p384 = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-384' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    const wrongCurve = { ...await crypto.subtle.exportKey('jwk', p384.publicKey) as JWK, kid: 'k' };
+    expect(await rejection(token, { key: createLocalJWKS({ keys: [wrongCurve] }) })).toBe('no_matching_key');
+    expect(await rejection(token, { key: wrongCurve })).toBe('unsupported_algorithm');
+
+    const badPoint = { ...jwk, kid: 'k', x: 'AAAA' };
+    expect(await rejection(token, { key: createLocalJWKS({ keys: [badPoint] }) })).toBe('invalid_key');
+  });
+});
+
+describe('BuiltinMiddleware.auth()', () => {
+  const app = createApp({ development: false });
+  const pipeline = app.pipeline().use(BuiltinMiddleware.auth({
+    key: secret,
+    issuer: 'imphnen',
+    user: (claims) => ({ id: claims.sub!, admin: claims.role === 'admin' })
+  }));
+  app.route('GET', '/me', pipeline, (ctx) => ctx.json({ id: ctx.state.user.id, admin: ctx.state.user.admin }));
+
+  test('adds the mapped user to state', async () => {
+    const token = await signJWT({ role: 'admin' }, secret, { subject: 'u1', issuer: 'imphnen' });
+    const res = await app.request('/me', { headers: { authorization: `Bearer ${token}` } });
+    expect(await res.json()).toEqual({ id: 'u1', admin: true });
+  });
+
+  test('rejects missing and invalid tokens with WWW-Authenticate', async () => {
+    const missing = await app.request('/me');
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const token = await signJWT({}, secret, { subject: 'u1', issuer: 'someone-else' });
+    const invalid = await app.request('/me', { headers: { authorization: `Bearer ${token}` } });
+    expect(invalid.status).toBe(401);
+    expect(invalid.headers.get('www-authenticate')).toBe('Bearer error="invalid_token", error_description="Token issuer is not accepted"');
+  });
+});
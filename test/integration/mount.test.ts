@@ -0,0 +1,125 @@
+// Integration tests for mounted sub-applications
+
+import { describe, expect, test } from 'bun:test';
+import { createApp } from '../../src/index.js';
+import type { Context, Middleware } from '../../src/index.js';
+
+describe('app.mount', () => {
+  test('delegates requests under the prefix with the prefix stripped', async () => {
+    const admin = createApp();
+    admin.get('/', (ctx: Context) => ctx.text('dashboard'));
+    admin.get('/users/:id', (ctx: Context<{ id: string }>) => ctx.json({
+      id: ctx.params.id,
+      path: new URL(ctx.req.url).pathname
+    }));
+
+    const app = createApp();
+    app.mount('/admin', admin);
+
+    const dashboard = await app.handler(new Request('http://localhost/admin'));
+    expect(await dashboard.text()).toBe('dashboard');
+
+    const user = await app.handler(new Request('http://localhost/admin/users/5?x=1'));
+    expect(await user.json()).toEqual({ id: '5', path: '/users/5' });
+
+    expect((await app.handler(new Request('http://localhost/administrator'))).status).toBe(404);
+  });
+
+  test("runs the child app's global middlewares and passes bodies through", async () => {
+    const child = createApp();
+    const childHeader: Middleware = async (ctx, next) => {
+      const response = await next();
+      response.headers.set('x-child', 'yes');
+      return response;
+    };
+    child.use(childHeader);
+    child.post('/echo', (ctx: Context) => ctx.json({ received: ctx.body }));
+
+    const app = createApp();
+    app.mount('/child', child);
+
+    const response = await app.handler(new Request('http://localhost/child/echo', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ hello: 'world' })
+    }));
+
+    expect(response.headers.get('x-child')).toBe('yes');
+    expect(await response.json()).toEqual({ received: { hello: 'world' } });
+  });
+
+  test("runs the child app's global pipeline", async () => {
+    const child = createApp();
+    child.use(child.pipeline().use(async (ctx, next) => {
+      const response = await next();
+      response.headers.set('x-pipeline', 'yes');
+      return response;
+    }));
+    child.get('/plain', (ctx: Context) => ctx.text('plain'));
+    child.route('GET', '/piped', child.pipeline(), (ctx) => ctx.text('piped'));
+
+    const app = createApp();
+    app.mount('/child', child);
+
+    for (const path of ['/child/plain', '/child/piped']) {
+      const response = await app.handler(new Request(`http://localhost${path}`));
+      expect(response.headers.get('x-pipeline')).toBe('yes');
+    }
+  });
+
+  test("lets the parent's own routes under the prefix win", async () => {
+    const child = createApp();
+    child.get('/status', (ctx: Context) => ctx.text('child'));
+
+    const app = createApp();
+    app.mount('/svc', child);
+    app.get('/svc/status', (ctx: Context) => ctx.text('parent'));
+
+    expect(await (await app.handler(new Request('http://localhost/svc/status'))).text()).toBe('parent');
+  });
+
+  test("runs the parent's global middlewares and pipeline before the mount", async () => {
+    const admin = createApp();
+    admin.get('/secret', (ctx: Context) => ctx.text('secret'));
+    admin.post('/echo', (ctx: Context) => ctx.json({ received: ctx.body }));
+
+    const app = createApp();
+    const events: string[] = [];
+    const requireAuth: Middleware = async (ctx, next) => {
+      if (ctx.headers.get('authorization') !== 'Bearer ok') return ctx.json({ error: 'Unauthorized' }, { status: 401 });
+      return await next();
+    };
+    app.use(requireAuth);
+    app.use(app.pipeline().use(async (ctx, next) => {
+      events.push(`pipeline ${new URL(ctx.req.url).pathname}`);
+      return await next();
+    }));
+    app.beforeHandle(() => { events.push('beforeHandle'); });
+    app.mount('/admin', admin);
+
+    const denied = await app.handler(new Request('http://localhost/admin/secret'));
+    expect(denied.status).toBe(401);
+    expect(events).toEqual(['beforeHandle']);
+    events.length = 0;
+
+    const allowed = await app.handler(new Request('http://localhost/admin/secret', { headers: { authorization: 'Bearer ok' } }));
+    expect(await allowed.text()).toBe('secret');
+    expect(events).toEqual(['beforeHandle', 'pipeline /admin/secret']);
+
+    // The body still reaches the mounted app unread
+    const echo = await app.handler(new Request('http://localhost/admin/echo', {
+      method: 'POST',
+      headers: { authorization: 'Bearer ok', 'content-type': 'application/json' },
+      body: JSON.stringify({ a: 1 })
+    }));
+    expect(await echo.json()).toEqual({ received: { a: 1 } });
+  });
+
+  test('mounts plain fetch handlers', async () => {
+    const app = createApp();
+    app.mount('/legacy', (request) => new Response(`legacy ${new URL(request.url).pathname}`));
+
+    const response = await app.handler(new Request('http://localhost/legacy/a/b'));
+    expect(await response.text()).toBe('legacy /a/b');
+  });
+});
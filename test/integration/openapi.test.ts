@@ -0,0 +1,139 @@
+// Integration tests for OpenAPI document generation
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, t, toJSONSchema } from '../../src/index.js';
+import type { Context, StandardSchemaV1 } from '../../src/index.js';
+
+const info = { title: 'Test API', version: '1.0.0' };
+
+describe('app.openapi()', () => {
+  test('documents params, query, body, responses and route details', () => {
+    const app = createApp();
+    const User = t.object({ id: t.integer(), name: t.string({ minLength: 1 }), email: t.string({ format: 'email' }).nullable() });
+
+    app.post('/users/:id/posts', {
+      params: t.object({ id: t.integer() }),
+      query: t.object({ draft: t.boolean().optional() }),
+      body: t.object({ title: t.string(), tags: t.array(t.enum(['a', 'b'])) }),
+      response: { 201: User, 404: t.object({ error: t.string() }) },
+      detail: { summary: 'Create a post', tags: ['posts'], security: [{ bearerAuth: [] }] }
+    }, (ctx) => ctx.json({ id: 1, name: 'Ada', email: null }, { status: 201 }));
+
+    const doc = app.openapi({
+      info,
+      components: { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } } }
+    });
+
+    expect(doc.openapi).toBe('3.1.0');
+    expect(doc.components?.securitySchemes).toHaveProperty('bearerAuth');
+    expect(doc.paths['/users/{id}/posts']?.post).toEqual({
+      summary: 'Create a post',
+      tags: ['posts'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+        { name: 'draft', in: 'query', required: false, schema: { type: 'boolean' } }
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { title: { type: 'string' }, tags: { type: 'array', items: { enum: ['a', 'b'] } } },
+              required: ['title', 'tags'],
+              additionalProperties: false
+            }
+          }
+        }
+      },
+      responses: {
+        '201': {
+          description: 'Created',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  name: { type: 'string', minLength: 1 },
+                  email: { anyOf: [{ type: 'string', format: 'email' }, { type: 'null' }] }
+                },
+                required: ['id', 'name', 'email'],
+                additionalProperties: false
+              }
+            }
+          }
+        },
+        '404': {
+          description: 'Not Found',
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { error: { type: 'string' } }, required: ['error'], additionalProperties: false }
+            }
+          }
+        }
+      }
+    });
+  });
+
+  test('expands optional and constrained params, groups and mounts', () => {
+    const app = createApp();
+    app.get('/posts/:slug?', (ctx: Context) => ctx.text('post'));
+    app.get('/files/:id(\\d+)', (ctx: Context) => ctx.text('file'));
+    app.group('/api', (api) => {
+      api.delete('/items/:id', { detail: { operationId: 'deleteItem' } }, (ctx) => ctx.text('gone'));
+    });
+    app.get('/internal', { detail: { hide: true } }, (ctx) => ctx.text('hidden'));
+
+    const admin = createApp();
+    admin.get('/stats', (ctx: Context) => ctx.json({}));
+    app.mount('/admin', admin);
+
+    const doc = app.openapi({ info });
+    expect(Object.keys(doc.paths).sort()).toEqual([
+      '/admin/stats',
+      '/api/items/{id}',
+      '/files/{id}',
+      '/posts',
+      '/posts/{slug}'
+    ]);
+    expect(doc.paths['/files/{id}']?.get?.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string', pattern: '^(?:\\d+)$' } }
+    ]);
+    expect(doc.paths['/api/items/{id}']?.delete?.operationId).toBe('deleteItem');
+    expect(doc.paths['/posts']?.get).toEqual({ responses: { '200': { description: 'OK' } } });
+  });
+
+  test('uses the JSON Schema of foreign validators when they expose one', () => {
+    const foreign = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value: unknown) => ({ value }),
+        jsonSchema: { output: () => ({ type: 'string', format: 'uuid' }) }
+      }
+    } as StandardSchemaV1<unknown, string>;
+    const opaque: StandardSchemaV1 = { '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) } };
+
+    expect(toJSONSchema(foreign)).toEqual({ type: 'string', format: 'uuid' });
+    expect(toJSONSchema(opaque)).toEqual({});
+  });
+});
+
+describe('app.docs()', () => {
+  test('serves the document and a docs page', async () => {
+    const app = createApp();
+    app.docs({ info });
+    app.get('/health', { detail: { summary: 'Health check' } }, (ctx) => ctx.text('ok'));
+
+    const spec = await app.request('/openapi.json');
+    const doc = await spec.json();
+    expect(doc.info).toEqual(info);
+    expect(Object.keys(doc.paths)).toEqual(['/health']);
+
+    const page = await app.request('/docs');
+    expect(page.headers.get('content-type')).toContain('text/html');
+    expect(await page.text()).toContain('fetch("/openapi.json")');
+  });
+});
@@ -0,0 +1,258 @@
+// Integration tests for the rate limiter, its algorithms and stores
+
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { createApp, createRateLimiter, BuiltinMiddleware, MemoryRateLimitStore, RedisRateLimitStore } from '../../src/index.js';
+import type { Context, RateLimitOptions, RedisCommander } from '../../src/index.js';
+
+const START = new Date('2026-01-01T00:00:00Z').getTime();
+
+afterEach(() => {
+  setSystemTime();
+});
+
+function limitedApp(options: RateLimitOptions, config: Parameters<typeof createApp>[0] = {}) {
+  const app = createApp({ development: false, ...config });
+  app.use(app.pipeline().use(BuiltinMiddleware.rateLimit(options)));
+  app.get('/', (ctx: Context) => ctx.text('ok'));
+  return app;
+}
+
+// Speaks the few Redis commands the store needs, like a server would. The store's
+// scripts are run by JavaScript ports, told apart by the commands they call.
+function redisStandIn(): RedisCommander & { commands: string[][] } {
+  const values = new Map<string, { value: string; expires?: number }>();
+  const live = (key: string) => {
+    const entry = values.get(key);
+    if (entry?.expires !== undefined && entry.expires <= Date.now()) values.delete(key);
+    return values.get(key);
+  };
+  const commands: string[][] = [];
+
+  const scripts = {
+    increment(key: string, amount: string, ttl: string) {
+      const entry = live(key) ?? { value: '0' };
+      entry.value = String(Number(entry.value) + Number(amount));
+      if (entry.value === amount) entry.expires = Date.now() + Number(ttl);
+      values.set(key, entry);
+      return Number(entry.value);
+    },
+    take(key: string, capacity: string, rate: string, cost: string, now: string, ttl: string) {
+      const state = live(key);
+      let tokens = Number(capacity);
+      if (state) {
+        const { tokens: stored, updated } = JSON.parse(state.value) as { tokens: number; updated: number };
+        tokens = Math.min(tokens, stored + Math.max(0, Number(now) - updated) * Number(rate));
+      }
+      const allowed = tokens >= Number(cost);
+      if (allowed) tokens -= Number(cost);
+      values.set(key, { value: JSON.stringify({ tokens, updated: Number(now) }), expires: Date.now() + Number(ttl) });
+      return [allowed ? 1 : 0, String(tokens)];
+    }
+  };
+
+  return {
+    commands,
+    async send(command, args) {
+      commands.push([command, ...args]);
+      const [key = ''] = args;
+      switch (command) {
+        case 'EVAL': {
+          const [script = '', , scriptKey = '', ...argv] = args;
+          if (script.includes("'INCRBY'")) return scripts.increment(scriptKey, argv[0]!, argv[1]!);
+          if (script.includes("'HMGET'")) return scripts.take(scriptKey, ...argv as [string, string, string, string, string]);
+          throw new Error('ERR unknown script');
+        }
+        case 'GET':
+          return live(key)?.value ?? null;
+        case 'SCAN': {
+          // One batch; the pattern is an escaped prefix followed by *
+          const prefix = args[2]!.slice(0, -1).replace(/\\(.)/g, '$1');
+          return ['0', [...values.keys()].filter(name => name.startsWith(prefix) && live(name))];
+        }
+        case 'DEL':
+          return args.filter(name => values.delete(name)).length;
+        default:
+          throw new Error(`ERR unknown command '${command}'`);
+      }
+    }
+  };
+}
+
+describe('BuiltinMiddleware.rateLimit()', () => {
+  test('sends RateLimit headers and rejects with 429 and Retry-After', async () => {
+    setSystemTime(START + 15_000);
+    const app = limitedApp({ windowMs: 60_000, maxRequests: 2 });
+
+    const first = await app.request('/', { ip: '10.0.0.1' });
+    expect(first.status).toBe(200);
+    expect(Object.fromEntries([...first.headers].filter(([name]) => name.startsWith('ratelimit')))).toEqual({
+      'ratelimit-limit': '2',
+      'ratelimit-remaining': '1',
+      'ratelimit-reset': '45',
+      'ratelimit-policy': '2;w=60'
+    });
+    await app.request('/', { ip: '10.0.0.1' });
+
+    const rejected = await app.request('/', { ip: '10.0.0.1' });
+    expect(rejected.status).toBe(429);
+    expect(rejected.headers.get('retry-after')).toBe('45');
+    expect(rejected.headers.get('ratelimit-remaining')).toBe('0');
+    expect(await rejected.json()).toEqual({ error: 'Too many requests', status: 429, details: { retryAfter: 45 } });
+
+    // Other clients have their own quota, and a new window starts afresh
+    expect((await app.request('/', { ip: '10.0.0.2' })).status).toBe(200);
+    setSystemTime(START + 60_000);
+    expect((await app.request('/', { ip: '10.0.0.1' })).status).toBe(200);
+  });
+
+  test('only trusts X-Forwarded-For behind a trusted proxy', async () => {
+    const spoofed = limitedApp({ windowMs: 60_000, maxRequests: 1 });
+    expect((await spoofed.request('/', { ip: '10.0.0.1', headers: { 'x-forwarded-for': '1.1.1.1' } })).status).toBe(200);
+    expect((await spoofed.request('/', { ip: '10.0.0.1', headers: { 'x-forwarded-for': '2.2.2.2' } })).status).toBe(429);
+
+    // The proxy appends the address it saw; entries before it come from the client
+    const proxied = limitedApp({ windowMs: 60_000, maxRequests: 1 }, { proxy: { trustProxy: true } });
+    const via = (forwarded: string) => proxied.request('/', { ip: '10.0.0.1', headers: { 'x-forwarded-for': forwarded } });
+    expect((await via('1.1.1.1')).status).toBe(200);
+    expect((await via('2.2.2.2')).status).toBe(200);
+    expect((await via('1.1.1.1')).status).toBe(429);
+    expect((await via('9.9.9.9, 1.1.1.1')).status).toBe(429);
+
+    // Behind a CDN and a load balancer, the CDN's entry is the client
+    const chained = limitedApp({ windowMs: 60_000, maxRequests: 1 }, { proxy: { trustProxy: 2 } });
+    const throughChain = (forwarded: string) => chained.request('/', { ip: '10.0.0.1', headers: { 'x-forwarded-for': forwarded } });
+    expect((await throughChain('1.1.1.1, 172.16.0.1')).status).toBe(200);
+    expect((await throughChain('8.8.8.8, 1.1.1.1, 172.16.0.1')).status).toBe(429);
+  });
+
+  test('uses custom keys, costs and skips', async () => {
+    const app = limitedApp({
+      windowMs: 60_000,
+      maxRequests: 10,
+      keyGenerator: (ctx) => ctx.headers.get('x-api-key') ?? 'anonymous',
+      cost: (ctx) => ctx.query.bulk ? 5 : 1,
+      skip: (ctx) => ctx.headers.get('x-api-key') === 'internal',
+      headers: false
+    });
+    app.get('/export', (ctx: Context) => ctx.text('ok'));
+
+    const bulk = await app.request('/?bulk=1', { headers: { 'x-api-key': 'a' } });
+    expect(bulk.headers.get('ratelimit-limit')).toBeNull();
+    await app.request('/?bulk=1', { headers: { 'x-api-key': 'a' } });
+    const rejected = await app.request('/', { headers: { 'x-api-key': 'a' } });
+    expect(rejected.status).toBe(429);
+    expect(rejected.headers.get('retry-after')).not.toBeNull();
+    expect(rejected.headers.get('ratelimit-remaining')).toBeNull();
+
+    expect((await app.request('/', { headers: { 'x-api-key': 'b' } })).status).toBe(200);
+    for (let i = 0; i < 12; i++) {
+      expect((await app.request('/', { headers: { 'x-api-key': 'internal' } })).status).toBe(200);
+    }
+  });
+});
+
+describe('algorithms', () => {
+  test('sliding windows weigh in the previous window', async () => {
+    setSystemTime(START);
+    const limiter = createRateLimiter({ windowMs: 60_000, maxRequests: 10, algorithm: 'sliding-window' });
+    for (let i = 0; i < 10; i++) await limiter.check('k');
+
+    // A quarter into the next window, 75% of the previous count still applies
+    setSystemTime(START + 75_000);
+    const info = await limiter.check('k');
+    expect(info).toMatchObject({ allowed: true, remaining: 1 });
+    await limiter.check('k');
+    expect(await limiter.check('k')).toMatchObject({ allowed: false, remaining: 0, retryAfter: 3 });
+
+    // A fixed window would have allowed all ten again
+    const fixed = createRateLimiter({ windowMs: 60_000, maxRequests: 10 });
+    setSystemTime(START);
+    for (let i = 0; i < 10; i++) await fixed.check('k');
+    setSystemTime(START + 75_000);
+    expect(await fixed.check('k')).toMatchObject({ allowed: true, remaining: 9 });
+  });
+
+  test('token buckets allow bursts and refill steadily', async () => {
+    setSystemTime(START);
+    const limiter = createRateLimiter({ windowMs: 10_000, maxRequests: 5, algorithm: 'token-bucket' });
+    for (let i = 0; i < 5; i++) expect((await limiter.check('k')).allowed).toBe(true);
+    expect(await limiter.check('k')).toMatchObject({ allowed: false, remaining: 0, retryAfter: 2, reset: 10 });
+
+    // One token per two seconds
+    setSystemTime(START + 4_000);
+    expect(await limiter.check('k')).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await limiter.check('k', 3)).toMatchObject({ allowed: false, remaining: 1, retryAfter: 4 });
+
+    await limiter.reset('k');
+    expect(await limiter.check('k')).toMatchObject({ allowed: true, remaining: 4 });
+  });
+});
+
+describe('stores', () => {
+  test('the memory store evicts the least recently used keys', async () => {
+    const store = new MemoryRateLimitStore(2);
+    store.increment('a', 1, 60_000);
+    store.increment('b', 1, 60_000);
+    store.increment('a', 1, 60_000);
+    store.increment('c', 1, 60_000);
+    expect(store.size).toBe(2);
+    expect(store.get('a')).toBe(2);
+    expect(store.get('b')).toBeUndefined();
+
+    const limiter = createRateLimiter({ windowMs: 60_000, maxRequests: 1, store: new MemoryRateLimitStore(1) });
+    await limiter.check('first');
+    await limiter.check('second');
+    // The first key was evicted, so its quota starts over
+    expect((await limiter.check('first')).allowed).toBe(true);
+  });
+
+  test('the Redis store shares counters between app instances', async () => {
+    setSystemTime(START + 30_000);
+    const redis = redisStandIn();
+    const store = new RedisRateLimitStore(redis);
+    const options = { windowMs: 60_000, maxRequests: 3, algorithm: 'sliding-window', store } as const;
+    const instances = [limitedApp(options), limitedApp(options)];
+
+    for (const app of [...instances, instances[0]!]) {
+      expect((await app.request('/', { ip: '10.0.0.1' })).status).toBe(200);
+    }
+    expect((await instances[1]!.request('/', { ip: '10.0.0.1' })).status).toBe(429);
+
+    // Incrementing and setting the expiry is one atomic script
+    const window = Math.floor((START + 30_000) / 60_000);
+    expect(redis.commands.slice(0, 2)).toEqual([
+      ['EVAL', expect.any(String), '1', `rl:10.0.0.1:${window}`, '1', '120000'],
+      ['GET', `rl:10.0.0.1:${window - 1}`]
+    ]);
+
+    // Counters expire on the server
+    setSystemTime(START + 200_000);
+    expect((await instances[1]!.request('/', { ip: '10.0.0.1' })).status).toBe(200);
+  });
+
+  test('the Redis store keeps token buckets and resets keys', async () => {
+    setSystemTime(START);
+    const redis = redisStandIn();
+    const limiter = createRateLimiter({
+      windowMs: 10_000,
+      maxRequests: 5,
+      algorithm: 'token-bucket',
+      store: new RedisRateLimitStore(redis)
+    });
+    for (let i = 0; i < 5; i++) expect((await limiter.check('k')).allowed).toBe(true);
+    expect(await limiter.check('k')).toMatchObject({ allowed: false, remaining: 0, retryAfter: 2 });
+    expect(redis.commands[0]).toEqual(['EVAL', expect.any(String), '1', 'rl:k:bucket', '5', '0.0005', '1', String(START), '10000']);
+
+    setSystemTime(START + 4_000);
+    expect(await limiter.check('k')).toMatchObject({ allowed: true, remaining: 1 });
+    await limiter.check('other');
+
+    await limiter.reset('k');
+    expect(redis.commands.filter(([command]) => command === 'SCAN' || command === 'DEL').slice(0, 2)).toEqual([
+      ['SCAN', '0', 'MATCH', 'rl:k:*', 'COUNT', '100'],
+      ['DEL', 'rl:k:bucket']
+    ]);
+    expect(await limiter.check('k')).toMatchObject({ allowed: true, remaining: 4 });
+    expect(await limiter.check('other')).toMatchObject({ allowed: true, remaining: 3 });
+  });
+});
@@ -0,0 +1,212 @@
+// Integration tests for security headers and CSP reports
+
+import { describe, expect, spyOn, test } from 'bun:test';
+import { createApp, BuiltinMiddleware, cspReportHandler, UnauthorizedError } from '../../src/index.js';
+import type { Context, CSPReport } from '../../src/index.js';
+
+describe('BuiltinMiddleware.securityHeaders()', () => {
+  test('sets the default headers with a per-request script nonce', async () => {
+    const app = createApp();
+    const pipeline = app.pipeline().use(BuiltinMiddleware.securityHeaders());
+    app.route('GET', '/', pipeline, (ctx) => ctx.html(`<script nonce="${ctx.state.cspNonce}">boot()</script>`));
+
+    const res = await app.request('/');
+    const nonce = /nonce="([^"]+)"/.exec(await res.text())![1]!;
+    expect(res.headers.get('content-security-policy')).toBe(
+      "default-src 'self'; base-uri 'self'; font-src 'self' https: data:; form-action 'self'; " +
+      "frame-ancestors 'self'; img-src 'self' data:; object-src 'none'; " +
+      `script-src 'self' 'nonce-${nonce}'; script-src-attr 'none'; style-src 'self' https: 'unsafe-inline'; ` +
+      'upgrade-insecure-requests'
+    );
+    expect(Object.fromEntries([...res.headers].filter(([name]) => !['content-security-policy', 'content-type', 'content-length'].includes(name)))).toEqual({
+      'strict-transport-security': 'max-age=31536000; includeSubDomains',
+      'x-content-type-options': 'nosniff',
+      'x-frame-options': 'SAMEORIGIN',
+      'referrer-policy': 'no-referrer',
+      'permissions-policy': 'camera=(), microphone=(), geolocation=(), payment=()',
+      'cross-origin-opener-policy': 'same-origin',
+      'cross-origin-resource-policy': 'same-origin'
+    });
+
+    const second = await app.request('/');
+    expect(second.headers.get('content-security-policy')).not.toContain(nonce);
+  });
+
+  test('configures, disables and keeps headers', async () => {
+    const app = createApp();
+    app.use(app.pipeline().use(BuiltinMiddleware.securityHeaders({
+      contentSecurityPolicy: { directives: { 'img-src': ["'self'", 'https://cdn.example.com'], 'upgrade-insecure-requests': false } },
+      strictTransportSecurity: { maxAge: 600, includeSubDomains: false, preload: true },
+      frameOptions: false,
+      permissionsPolicy: { geolocation: ['self', 'https://maps.example.com'] },
+      crossOriginEmbedderPolicy: 'require-corp'
+    })));
+    app.get('/', (ctx: Context) => {
+      ctx.set.headers({ 'Referrer-Policy': 'same-origin' });
+      return ctx.text('ok');
+    });
+
+    const res = await app.request('/');
+    expect(res.headers.get('content-security-policy')).toContain("img-src 'self' https://cdn.example.com;");
+    expect(res.headers.get('content-security-policy')).not.toContain('upgrade-insecure-requests');
+    expect(res.headers.get('strict-transport-security')).toBe('max-age=600; preload');
+    expect(res.headers.get('x-frame-options')).toBeNull();
+    expect(res.headers.get('permissions-policy')).toBe('geolocation=(self "https://maps.example.com")');
+    expect(res.headers.get('cross-origin-embedder-policy')).toBe('require-corp');
+    expect(res.headers.get('referrer-policy')).toBe('same-origin');
+  });
+
+  test('lets a route override the global options', async () => {
+    const app = createApp();
+    app.use(app.pipeline().use(BuiltinMiddleware.securityHeaders()));
+    const embeddable = app.pipeline().use(BuiltinMiddleware.securityHeaders({
+      frameOptions: false,
+      contentSecurityPolicy: { directives: { 'frame-ancestors': ['https://partner.example.com'] } },
+      crossOriginResourcePolicy: 'cross-origin'
+    }));
+    app.route('GET', '/widget', embeddable, (ctx) => ctx.html('<p>widget</p>'));
+    app.route('GET', '/', app.pipeline(), (ctx) => ctx.html('<p>home</p>'));
+
+    const widget = await app.request('/widget');
+    expect(widget.headers.get('x-frame-options')).toBeNull();
+    expect(widget.headers.get('content-security-policy')).toContain('frame-ancestors https://partner.example.com;');
+    expect(widget.headers.get('content-security-policy')).toContain("default-src 'self';");
+    expect(widget.headers.get('cross-origin-resource-policy')).toBe('cross-origin');
+
+    const home = await app.request('/');
+    expect(home.headers.get('x-frame-options')).toBe('SAMEORIGIN');
+    expect(home.headers.get('content-security-policy')).toContain("frame-ancestors 'self';");
+  });
+
+  test('sets the headers on error responses too', async () => {
+    const app = createApp({ development: false });
+    app.use(app.pipeline().use(BuiltinMiddleware.securityHeaders()));
+    app.get('/private', () => {
+      throw new UnauthorizedError('Sign in first', { headers: { 'Referrer-Policy': 'same-origin' } });
+    });
+    app.get('/broken', () => {
+      throw new Error('boom');
+    });
+
+    const denied = await app.request('/private');
+    expect(denied.status).toBe(401);
+    expect(denied.headers.get('content-security-policy')).toStartWith("default-src 'self';");
+    expect(denied.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(denied.headers.get('referrer-policy')).toBe('same-origin');
+
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const broken = await app.request('/broken');
+      expect(broken.status).toBe(500);
+      expect(broken.headers.get('x-frame-options')).toBe('SAMEORIGIN');
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  test('leaves thrown errors as they are for the error handler', async () => {
+    class DomainError extends Error {}
+    const app = createApp({ development: true });
+    app.use(app.pipeline().use(BuiltinMiddleware.securityHeaders()));
+    const seen: unknown[] = [];
+    app.onError((error, ctx) => {
+      seen.push(error);
+      return error instanceof DomainError ? ctx.json({ error: error.message }, { status: 409 }) : new Response(null, { status: 500 });
+    });
+    app.get('/conflict', () => {
+      throw new DomainError('Already exists');
+    });
+
+    const res = await app.request('/conflict');
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'Already exists' });
+    expect(res.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(seen[0]).toBeInstanceOf(DomainError);
+  });
+
+  test('lets the docs page run under the default policy', async () => {
+    const app = createApp();
+    app.use(app.pipeline().use(BuiltinMiddleware.securityHeaders()));
+    app.docs({ info: { title: 'API', version: '1.0.0' } });
+
+    const res = await app.request('/docs');
+    const nonce = /'nonce-([^']+)'/.exec(res.headers.get('content-security-policy')!)![1]!;
+    expect(res.headers.get('content-security-policy')).toContain(`script-src 'nonce-${nonce}';`);
+    expect(await res.text()).toContain(`<script nonce="${nonce}">`);
+    expect(res.headers.get('x-frame-options')).toBe('SAMEORIGIN');
+  });
+});
+
+describe('CSP reports', () => {
+  test('report-only policies point browsers at the report route', async () => {
+    const reports: CSPReport[] = [];
+    const app = createApp();
+    app.use(app.pipeline().use(BuiltinMiddleware.securityHeaders({
+      contentSecurityPolicy: { reportOnly: true, reportUri: '/csp-report' }
+    })));
+    app.get('/', (ctx: Context) => ctx.text('ok'));
+    app.post('/csp-report', cspReportHandler((report) => {
+      reports.push(report);
+    }));
+
+    const res = await app.request('/');
+    expect(res.headers.get('content-security-policy')).toBeNull();
+    expect(res.headers.get('content-security-policy-report-only')).toEndWith('; report-uri /csp-report; report-to csp-endpoint');
+    expect(res.headers.get('reporting-endpoints')).toBe('csp-endpoint="/csp-report"');
+
+    const legacy = await app.request('/csp-report', {
+      method: 'POST',
+      headers: { 'content-type': 'application/csp-report' },
+      body: JSON.stringify({ 'csp-report': {
+        'document-uri': 'https://example.com/',
+        'blocked-uri': 'inline',
+        'violated-directive': 'script-src',
+        'original-policy': "script-src 'self'",
+        disposition: 'report',
+        'line-number': 3
+      } })
+    });
+    expect(legacy.status).toBe(204);
+
+    await app.request('/csp-report', {
+      method: 'POST',
+      headers: { 'content-type': 'application/reports+json' },
+      body: JSON.stringify([
+        { type: 'csp-violation', body: { documentURL: 'https://example.com/a', blockedURL: 'https://evil.example/x.js', effectiveDirective: 'script-src-elem', originalPolicy: "script-src 'self'", disposition: 'enforce' } },
+        { type: 'deprecation', body: { id: 'x' } }
+      ])
+    });
+
+    expect(reports.map(report => [report.documentURL, report.blockedURL, report.effectiveDirective, report.disposition])).toEqual([
+      ['https://example.com/', 'inline', 'script-src', 'report'],
+      ['https://example.com/a', 'https://evil.example/x.js', 'script-src-elem', 'enforce']
+    ]);
+    expect(reports[0]!.lineNumber).toBe(3);
+  });
+
+  test('rejects reports over 64 KiB, with or without Content-Length', async () => {
+    const app = createApp({ development: false });
+    app.post('/csp-report', cspReportHandler(() => {}));
+    const chunk = new TextEncoder().encode(' '.repeat(1024));
+
+    // Plain JSON as well, which the app would otherwise parse in full before the handler runs
+    for (const type of ['application/csp-report', 'application/json']) {
+      let sent = 0;
+      // A chunked body, which has no Content-Length to check up front
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent++ < 1024) controller.enqueue(chunk);
+          else controller.close();
+        }
+      });
+
+      const res = await app.request('/csp-report', {
+        method: 'POST',
+        headers: { 'content-type': type },
+        body
+      });
+      expect(res.status).toBe(413);
+      expect(sent).toBeLessThan(1024);
+    }
+  });
+});
@@ -0,0 +1,79 @@
+// Integration tests for the server handle returned by listen()
+
+import { describe, expect, test } from 'bun:test';
+import { createApp } from '../../src/index.js';
+import type { Context } from '../../src/index.js';
+
+const quiet = () => createApp({ hostname: '127.0.0.1' });
+
+describe('listen()', () => {
+  test('resolves to a handle on an OS-assigned port', async () => {
+    const app = quiet();
+    app.get('/ping', (ctx: Context) => ctx.text('pong'));
+
+    const server = await app.listen(0);
+    try {
+      expect(server.port).toBeGreaterThan(0);
+      const response = await fetch(new URL('/ping', server.url));
+      expect(await response.text()).toBe('pong');
+      expect(server.pendingRequests).toBe(0);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('graceful stop waits for in-flight requests', async () => {
+    const app = quiet();
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    app.get('/slow', async (ctx: Context) => {
+      await gate;
+      return ctx.text('done');
+    });
+
+    const server = await app.listen(0);
+    const pending = fetch(new URL('/slow', server.url));
+    while (server.pendingRequests === 0) await Bun.sleep(1);
+
+    const stopped = server.stop({ timeoutMs: 1000 });
+    release();
+
+    const response = await pending;
+    expect(await response.text()).toBe('done');
+    await stopped;
+    expect(server.pendingRequests).toBe(0);
+  });
+
+  test('closes open WebSockets with 1001', async () => {
+    const app = quiet();
+    app.ws('/ws', {});
+
+    const server = await app.listen(0);
+    const socket = new WebSocket(`ws://127.0.0.1:${server.port}/ws`);
+    await new Promise(resolve => socket.addEventListener('open', resolve));
+    while (server.pendingWebSockets === 0) await Bun.sleep(1);
+
+    const closed = new Promise<number>(resolve => socket.addEventListener('close', event => resolve(event.code)));
+    await server.stop();
+    expect(await closed).toBe(1001);
+  });
+
+  test('passes errors thrown by WebSocket handlers to the error handler', async () => {
+    const app = quiet();
+    app.ws('/ws', {
+      message: () => { throw new Error('bad frame'); },
+      error: (ctx, error) => { ctx.ws.send(`error: ${error.message}`); }
+    });
+
+    const server = await app.listen(0);
+    try {
+      const socket = new WebSocket(`ws://127.0.0.1:${server.port}/ws`);
+      await new Promise(resolve => socket.addEventListener('open', resolve));
+      const reply = new Promise(resolve => socket.addEventListener('message', event => resolve(event.data)));
+      socket.send('hello');
+      expect(await reply).toBe('error: bad frame');
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,145 @@
+// Integration tests for the session middleware and its stores
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, BuiltinMiddleware, CookieJar, CookieStore, MemoryStore } from '../../src/index.js';
+import type { SessionData, SessionOptions, SessionStore } from '../../src/index.js';
+
+function sessionApp(options: SessionOptions = {}, appOptions = {}) {
+  const app = createApp(appOptions);
+  const pipeline = app.pipeline().use(BuiltinMiddleware.session<{ user: string; visits: number }>(options));
+
+  app.route('POST', '/login', pipeline, async (ctx) => {
+    await ctx.state.session.regenerate();
+    ctx.state.session.set('user', 'ada');
+    ctx.state.session.flash('notice', 'Welcome back');
+    return ctx.text('ok');
+  });
+  app.route('GET', '/me', pipeline, (ctx) => ctx.json({
+    user: ctx.state.session.get('user') ?? null,
+    notice: ctx.state.session.getFlash<string>('notice') ?? null,
+    isNew: ctx.state.session.isNew
+  }));
+  app.route('POST', '/visit', pipeline, (ctx) => {
+    ctx.state.session.set('visits', (ctx.state.session.get('visits') ?? 0) + 1);
+    return ctx.json({ id: ctx.state.session.id });
+  });
+  app.route('POST', '/logout', pipeline, async (ctx) => {
+    await ctx.state.session.destroy();
+    return ctx.text('bye');
+  });
+  return app;
+}
+
+// A store that records every call, as a Redis or SQL adapter would receive them
+class RecordingStore implements SessionStore {
+  calls: string[] = [];
+  sessions = new Map<string, SessionData>();
+
+  async get(id: string) {
+    return this.sessions.get(id);
+  }
+
+  async set(id: string, data: SessionData, ttl: number) {
+    this.calls.push(`set ${ttl}`);
+    this.sessions.set(id, JSON.parse(JSON.stringify(data)));
+  }
+
+  async touch(_id: string, _data: SessionData, ttl: number) {
+    this.calls.push(`touch ${ttl}`);
+  }
+
+  async destroy(id: string) {
+    this.calls.push('destroy');
+    this.sessions.delete(id);
+  }
+}
+
+describe('BuiltinMiddleware.session()', () => {
+  test('keeps data between requests and shows flash messages once', async () => {
+    const app = sessionApp();
+    const jar = new CookieJar();
+
+    expect(await (await app.request('/me', { jar })).json()).toEqual({ user: null, notice: null, isNew: true });
+    // An empty session is not stored and sets no cookie
+    expect(jar.get('sid')).toBeUndefined();
+
+    const login = await app.request('/login', { method: 'POST', jar });
+    expect(login.headers.getSetCookie()[0]).toMatch(/^sid=[\w-]{43}; Path=\/; Max-Age=86400; SameSite=Lax; HttpOnly$/);
+
+    expect(await (await app.request('/me', { jar })).json()).toEqual({ user: 'ada', notice: 'Welcome back', isNew: false });
+    expect(await (await app.request('/me', { jar })).json()).toEqual({ user: 'ada', notice: null, isNew: false });
+  });
+
+  test('regenerates the id on login and ignores ids the store does not know', async () => {
+    const store = new MemoryStore();
+    const app = sessionApp({ store });
+    const jar = new CookieJar();
+
+    await app.request('/visit', { method: 'POST', jar });
+    const before = jar.get('sid')!;
+    await app.request('/login', { method: 'POST', jar });
+    const after = jar.get('sid')!;
+
+    expect(after).not.toBe(before);
+    expect(store.size).toBe(1);
+    expect(await (await app.request('/me', { cookies: { sid: before } })).json()).toMatchObject({ user: null, isNew: true });
+
+    // A fixed id planted by an attacker is replaced, not adopted
+    const planted = 'a'.repeat(43);
+    const res = await app.request('/visit', { method: 'POST', cookies: { sid: planted } });
+    expect((await res.json()).id).not.toBe(planted);
+  });
+
+  test('destroy() removes the session and expires the cookie', async () => {
+    const store = new MemoryStore();
+    const app = sessionApp({ store });
+    const jar = new CookieJar();
+
+    await app.request('/login', { method: 'POST', jar });
+    const logout = await app.request('/logout', { method: 'POST', jar });
+
+    expect(logout.headers.getSetCookie()[0]).toContain('sid=; Path=/; Max-Age=0');
+    expect(store.size).toBe(0);
+    expect(jar.get('sid')).toBeUndefined();
+  });
+
+  test('rolling sessions extend their lifetime on every request', async () => {
+    const store = new RecordingStore();
+    const fixed = sessionApp({ store, maxAge: 60 });
+    const rolling = sessionApp({ store, maxAge: 60, rolling: true });
+    const jar = new CookieJar();
+
+    await fixed.request('/visit', { method: 'POST', jar });
+    const read = await fixed.request('/me', { jar });
+    expect(read.headers.getSetCookie()).toEqual([]);
+
+    const rolled = await rolling.request('/me', { jar });
+    expect(rolled.headers.getSetCookie()[0]).toContain('Max-Age=60');
+    expect(store.calls).toEqual(['set 60', 'touch 60']);
+  });
+
+  test('stores the session in an encrypted cookie with CookieStore', async () => {
+    const app = sessionApp({ store: new CookieStore() }, { cookies: { keys: ['secret'] } });
+    const jar = new CookieJar();
+
+    await app.request('/login', { method: 'POST', jar });
+    expect(jar.get('sid')).not.toContain('ada');
+    expect(await (await app.request('/me', { jar })).json()).toEqual({ user: 'ada', notice: 'Welcome back', isNew: false });
+
+    const tampered = jar.get('sid')!.slice(0, -4) + 'AAAA';
+    expect(await (await app.request('/me', { cookies: { sid: tampered } })).json()).toMatchObject({ user: null, isNew: true });
+  });
+
+  test('refuses sessions too large for a cookie', async () => {
+    const app = createApp({ development: false, cookies: { keys: ['secret'] } });
+    const pipeline = app.pipeline().use(BuiltinMiddleware.session({ store: new CookieStore(512) }));
+    app.route('POST', '/big', pipeline, (ctx) => {
+      ctx.state.session.set('blob', 'x'.repeat(1000));
+      return ctx.text('ok');
+    });
+
+    const res = await app.request('/big', { method: 'POST' });
+    expect(res.status).toBe(500);
+    expect(res.headers.getSetCookie()).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+// Integration tests for the in-process test client
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, CookieJar } from '../../src/index.js';
+import type { Context } from '../../src/index.js';
+
+describe('app.request()', () => {
+  test('builds query strings, headers and cookies', async () => {
+    const app = createApp();
+    app.get('/inspect', (ctx: Context) => ctx.json({
+      query: ctx.query,
+      tags: new URL(ctx.req.url).searchParams.getAll('tag'),
+      agent: ctx.headers.get('x-agent'),
+      cookie: ctx.headers.get('cookie')
+    }));
+
+    const res = await app.request('/inspect', {
+      query: { page: 2, tag: ['a', 'b'] },
+      headers: { 'x-agent': 'test' },
+      cookies: { theme: 'dark mode' }
+    });
+
+    expect(await res.json()).toEqual({
+      query: { page: '2', tag: 'b' },
+      tags: ['a', 'b'],
+      agent: 'test',
+      cookie: 'theme=dark%20mode'
+    });
+  });
+
+  test('sends urlencoded forms and multipart files', async () => {
+    const app = createApp();
+    app.post('/form', (ctx: Context) => ctx.json({ body: ctx.body }));
+    app.post('/upload', (ctx: Context) => ctx.json({
+      fields: (ctx.body as { fields: Record<string, string> }).fields,
+      files: ctx.files?.map(file => file.name)
+    }));
+
+    const form = await app.request('/form', { form: { name: 'Ada' } });
+    expect(await form.json()).toEqual({ body: { name: 'Ada' } });
+
+    const upload = await app.request('/upload', {
+      form: { name: 'Ada' },
+      files: { resume: new File(['%PDF'], 'cv.pdf', { type: 'application/pdf' }) }
+    });
+    expect(await upload.json()).toEqual({ fields: { name: 'Ada' }, files: ['cv.pdf'] });
+  });
+
+  test('expect helpers throw on mismatch and chain on success', async () => {
+    const app = createApp();
+    app.get('/', (ctx: Context) => ctx.text('ok', { headers: { 'x-id': '1' } }));
+
+    const res = await app.request('/');
+    expect(res.expectStatus(200).expectHeader('x-id', '1')).toBe(res);
+    expect(() => res.expectStatus(201)).toThrow('Expected status 201, received 200');
+    expect(() => res.expectHeader('x-missing')).toThrow('Expected header "x-missing" to be set');
+    expect(await res.text()).toBe('ok');
+    expect(await res.text()).toBe('ok');
+  });
+
+  test('a cookie jar carries cookies between requests', async () => {
+    const app = createApp();
+    app.post('/login', () => new Response(null, {
+      status: 204,
+      headers: { 'set-cookie': 'session=abc; Path=/; HttpOnly' }
+    }));
+    app.post('/logout', () => new Response(null, {
+      status: 204,
+      headers: { 'set-cookie': 'session=; Max-Age=0' }
+    }));
+    app.get('/me', (ctx: Context) => ctx.text(ctx.headers.get('cookie') ?? 'anonymous'));
+
+    const jar = new CookieJar();
+    const login = await app.request('/login', { method: 'POST', jar });
+    expect(login.cookies).toEqual({ session: 'abc' });
+    expect(await (await app.request('/me', { jar })).text()).toBe('session=abc');
+
+    await app.request('/logout', { method: 'POST', jar });
+    expect(jar.get('session')).toBeUndefined();
+    expect(await (await app.request('/me', { jar })).text()).toBe('anonymous');
+  });
+});
+
+describe('app.injectWebSocket()', () => {
+  test('runs open, message and close handlers in memory', async () => {
+    const app = createApp();
+    const events: string[] = [];
+    app.ws('/chat/:room', {
+      open: (ctx) => { ctx.ws.send(`joined ${ctx.params.room}`); },
+      message: (ctx, message) => { ctx.ws.send(`${ctx.query.name}: ${message}`); },
+      close: (_ctx, code) => { events.push(`close ${code}`); }
+    });
+
+    const socket = await app.injectWebSocket('/chat/general', { query: { name: 'ada' } });
+    expect(await socket.nextMessage()).toBe('joined general');
+
+    await socket.send('hi');
+    expect(await socket.nextMessage()).toBe('ada: hi');
+    expect(socket.messages).toEqual(['joined general', 'ada: hi']);
+
+    await socket.close(1000, 'bye');
+    expect(socket.closed).toBe(true);
+    expect(events).toEqual(['close 1000']);
+  });
+
+  test('records a close initiated by the handler', async () => {
+    const app = createApp();
+    app.ws('/kick', { message: (ctx) => { ctx.ws.close(4000, 'kicked'); } });
+
+    const socket = await app.injectWebSocket('/kick');
+    await socket.send('anything');
+    expect(socket.closed).toBe(true);
+    expect(socket.closeCode).toBe(4000);
+    await expect(socket.send('again')).rejects.toThrow('WebSocket is closed');
+  });
+
+  test('throws when no WebSocket route matches', async () => {
+    const app = createApp();
+    await expect(app.injectWebSocket('/nope')).rejects.toThrow('No WebSocket route matches /nope');
+  });
+
+  test('handles thrown errors like the server does', async () => {
+    const app = createApp();
+    app.ws('/strict', {
+      message: () => { throw new Error('bad frame'); },
+      error: (ctx, error) => { ctx.ws.send(`error: ${error.message}`); }
+    });
+    app.ws('/loose', {
+      message: () => { throw new Error('ignored'); }
+    });
+
+    const strict = await app.injectWebSocket('/strict');
+    await strict.send('hello');
+    expect(await strict.nextMessage()).toBe('error: bad frame');
+
+    // Without an error handler the error is logged, not thrown at the sender
+    const originalError = console.error;
+    const logged: unknown[] = [];
+    console.error = (...args: unknown[]) => { logged.push(...args); };
+    const loose = await app.injectWebSocket('/loose');
+    await loose.send('hello');
+    console.error = originalError;
+    expect(logged).toContainEqual(new Error('ignored'));
+  });
+});
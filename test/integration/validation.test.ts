@@ -0,0 +1,181 @@
+// Integration tests for route-level request validation
+
+import { describe, expect, spyOn, test } from 'bun:test';
+import { createApp, t, BuiltinMiddleware, UnauthorizedError } from '../../src/index.js';
+import type { StandardSchemaV1, Middleware } from '../../src/index.js';
+
+describe('route schemas', () => {
+  test('validates and types params, query and body', async () => {
+    const app = createApp();
+    app.post('/users/:id/posts', {
+      params: t.object({ id: t.integer() }),
+      query: t.object({ draft: t.boolean().optional() }),
+      body: t.object({ title: t.string({ minLength: 1 }) })
+    }, (ctx) => {
+      const id: number = ctx.params.id;
+      const title: string = ctx.body.title;
+      return ctx.json({ id, title, draft: ctx.query.draft ?? false }, { status: 201 });
+    });
+
+    const res = await app.request('/users/7/posts', {
+      query: { draft: 'true' },
+      json: { title: 'Hello', ignored: 1 }
+    });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ id: 7, title: 'Hello', draft: true });
+  });
+
+  test('responds 422 with per-field issues for an invalid body', async () => {
+    const app = createApp({ development: false });
+    app.post('/items', {
+      body: t.object({ name: t.string(), items: t.array(t.object({ qty: t.integer({ minimum: 1 }) })) })
+    }, (ctx) => ctx.json(ctx.body));
+
+    const res = await app.request('/items', { json: { items: [{ qty: 0 }] } });
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({
+      error: 'Validation failed',
+      status: 422,
+      details: [
+        { in: 'body', path: 'name', message: 'Expected string, received undefined' },
+        { in: 'body', path: 'items.0.qty', message: 'Must be greater than or equal to 1' }
+      ]
+    });
+  });
+
+  test('responds 400 for invalid query or headers', async () => {
+    const app = createApp();
+    app.get('/search', {
+      query: t.object({ page: t.integer({ minimum: 1 }) }),
+      headers: t.object({ 'x-api-version': t.enum(['1', '2']) })
+    }, (ctx) => ctx.json({ page: ctx.query.page }));
+
+    const res = await app.request('/search', { query: { page: 'abc' } });
+    expect(res.status).toBe(400);
+    const body = await res.json() as { details: { in: string; path: string }[] };
+    expect(body.details.map(issue => `${issue.in}:${issue.path}`)).toEqual(['query:page', 'headers:x-api-version']);
+
+    const ok = await app.request('/search', { query: { page: 3 }, headers: { 'x-api-version': '2' } });
+    expect(await ok.json()).toEqual({ page: 3 });
+  });
+
+  test('accepts any Standard Schema validator', async () => {
+    // Minimal third-party style validator
+    const evenNumber: StandardSchemaV1<unknown, number> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => typeof value === 'number' && value % 2 === 0
+          ? { value }
+          : { issues: [{ message: 'Must be even', path: [] }] }
+      }
+    };
+
+    const app = createApp();
+    app.put('/even', { body: evenNumber }, (ctx) => ctx.json({ half: ctx.body / 2 }));
+
+    expect(await (await app.request('/even', { method: 'PUT', json: 4 })).json()).toEqual({ half: 2 });
+    const res = await app.request('/even', { method: 'PUT', json: 3 });
+    expect(res.status).toBe(422);
+    expect(((await res.json()) as { details: unknown[] }).details).toEqual([{ in: 'body', path: '', message: 'Must be even' }]);
+  });
+
+  test('runs after global and group middleware', async () => {
+    const app = createApp();
+    const requireAuth: Middleware = async (ctx, next) => {
+      if (!ctx.headers.get('authorization')) throw new UnauthorizedError();
+      return await next();
+    };
+
+    app.group('/api', { middleware: requireAuth }, (api) => {
+      api.post('/things', { body: t.object({ name: t.string() }) }, (ctx) => ctx.json({ name: ctx.body.name }));
+    });
+
+    expect((await app.request('/api/things', { json: {} })).status).toBe(401);
+    expect((await app.request('/api/things', { json: {}, headers: { authorization: 'x' } })).status).toBe(422);
+  });
+
+  test('BuiltinMiddleware.validate accepts schemas', async () => {
+    const app = createApp();
+    const pipeline = app.pipeline().use(BuiltinMiddleware.validate({ body: t.object({ n: t.number() }) }));
+    app.route('POST', '/n', pipeline, (ctx) => ctx.json(ctx.state.validatedBody));
+
+    expect(await (await app.request('/n', { json: { n: 1, x: 2 } })).json()).toEqual({ n: 1 });
+    expect((await app.request('/n', { json: { n: '1' } })).status).toBe(422);
+  });
+
+  test('BuiltinMiddleware.validate keeps coerced query and params', async () => {
+    const app = createApp();
+    const pipeline = app.pipeline().use(BuiltinMiddleware.validate({
+      params: t.object({ id: t.integer() }),
+      query: t.object({ draft: t.boolean() })
+    }));
+    app.route('GET', '/posts/:id', pipeline, (ctx) => {
+      const id: number = ctx.state.validatedParams.id;
+      return ctx.json({ id, draft: ctx.state.validatedQuery.draft });
+    });
+
+    expect(await (await app.request('/posts/7?draft=true')).json()).toEqual({ id: 7, draft: true });
+    expect((await app.request('/posts/x?draft=true')).status).toBe(400);
+  });
+});
+
+describe('response schemas', () => {
+  const User = t.object({ id: t.integer(), name: t.string() });
+
+  test('type ctx.json() against the declared responses', async () => {
+    const app = createApp();
+    app.get('/users/:id', {
+      response: { 200: User, 404: t.object({ error: t.string() }) }
+    }, (ctx) => {
+      if (ctx.params.id === '0') return ctx.json({ error: 'missing' }, { status: 404 });
+      // @ts-expect-error name must be a string
+      if (ctx.params.id === '1') return ctx.json({ id: 1, name: 2 });
+      // @ts-expect-error 500 has no declared schema
+      if (ctx.params.id === '2') return ctx.json({ id: 2, name: 'x' }, { status: 500 });
+      return ctx.json({ id: Number(ctx.params.id), name: 'Ada' });
+    });
+
+    expect(await (await app.request('/users/7')).json()).toEqual({ id: 7, name: 'Ada' });
+    expect((await app.request('/users/0')).status).toBe(404);
+  });
+
+  test("'warn' logs responses that do not match in development", async () => {
+    const app = createApp({ development: true, responseValidation: 'warn' });
+    app.get('/me', { response: User }, (ctx) => ctx.json({ id: 'nope', name: 'Ada' } as any));
+
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const res = await app.request('/me');
+      expect(res.status).toBe(200);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(String(warn.mock.calls[0]?.[0])).toContain('Response 200 from GET /me does not match its schema');
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test("'error' turns a mismatch into a 500", async () => {
+    const app = createApp({ development: true, responseValidation: 'error' });
+    app.get('/me', { response: { 200: User } }, (ctx) => ctx.json({ id: 1 } as any));
+    app.get('/ok', { response: { 200: User } }, (ctx) => ctx.json({ id: 1, name: 'Ada' }));
+
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const res = await app.request('/me');
+      expect(res.status).toBe(500);
+      const body = await res.json() as { details: unknown[] };
+      expect(body.details).toEqual([{ in: 'response', path: 'name', message: 'Expected string, received undefined' }]);
+      expect((await app.request('/ok')).status).toBe(200);
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  test('is skipped outside development mode', async () => {
+    const app = createApp({ development: false, responseValidation: 'error' });
+    app.get('/me', { response: User }, (ctx) => ctx.json({} as any));
+
+    expect((await app.request('/me')).status).toBe(200);
+  });
+});
@@ -1,23 +1,9 @@
 // Basic unit tests for imphnen.js framework
 
+import { describe, expect, test } from 'bun:test';
 import { createApp } from '../../src/index.js';
 import type { Context } from '../../src/index.js';
 
-// Test helper function
-async function makeRequest(app: any, method: string, path: string, body?: any) {
-  const request = new Request(`http://localhost:3000${path}`, {
-    method,
-    body: body ? JSON.stringify(body) : undefined,
-    headers: body ? { 'Content-Type': 'application/json' } : {}
-  });
-  
-  // Mock app.fetch if needed - this is a simplified test setup
-  return await app.fetch(request);
-}
-
-// Basic route tests
-console.log('Testing basic routes...');
-
 const app = createApp();
 
 app.get('/test', (ctx: Context) => {
@@ -32,13 +18,27 @@ app.post('/echo', (ctx: Context) => {
   return ctx.json({ received: ctx.body });
 });
 
-// Note: These are simplified tests for demonstration
-// In a real project, use a proper testing framework like Jest, Vitest, or Bun's built-in test runner
+describe('basic routes', () => {
+  test('responds to a static route', async () => {
+    const res = await app.request('/test');
+    res.expectStatus(200).expectHeader('content-type', /application\/json/);
+    expect(await res.json()).toEqual({ message: 'test' });
+  });
+
+  test('extracts route params', async () => {
+    const res = await app.request('/users/42');
+    expect(await res.json()).toEqual({ id: '42' });
+  });
+
+  test('parses a JSON body', async () => {
+    const res = await app.request('/echo', { method: 'POST', json: { hello: 'world' } });
+    expect(await res.json()).toEqual({ received: { hello: 'world' } });
+  });
 
-console.log('✅ Basic test setup complete');
-console.log('💡 To run proper tests, consider using:');
-console.log('   - Bun test runner: bun test');
-console.log('   - Jest: npm test');
-console.log('   - Vitest: vitest');
+  test('returns 404 for unknown routes', async () => {
+    const res = await app.request('/missing');
+    expect(res.status).toBe(404);
+  });
+});
 
-export { app }; 
\ No newline at end of file
+export { app };
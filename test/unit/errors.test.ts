@@ -0,0 +1,144 @@
+// Unit tests for HTTP errors and app.onError
+
+import { describe, expect, test } from 'bun:test';
+import { createApp, ConflictError, HttpError, NotFoundError, UnauthorizedError } from '../../src/index.js';
+import type { Context, Middleware } from '../../src/index.js';
+
+describe('HttpError', () => {
+  test('carries status, message, details and headers', () => {
+    const error = new UnauthorizedError('Token expired', {
+      headers: { 'WWW-Authenticate': 'Bearer' },
+      details: { reason: 'expired' }
+    });
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.name).toBe('UnauthorizedError');
+    expect(error.status).toBe(401);
+    expect(error.toJSON()).toEqual({ error: 'Token expired', status: 401, details: { reason: 'expired' } });
+  });
+
+  test('falls back to the standard status text', () => {
+    expect(new HttpError(404).message).toBe('Not Found');
+  });
+});
+
+describe('Default error handling', () => {
+  test('renders thrown HttpErrors with their status', async () => {
+    const app = createApp({ development: false });
+    app.get('/users/:id', () => {
+      throw new NotFoundError('User not found');
+    });
+
+    const response = await app.handler(new Request('http://localhost/users/1'));
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'User not found', status: 404 });
+  });
+
+  test('hides unexpected errors outside development mode', async () => {
+    const app = createApp({ development: false });
+    app.get('/boom', () => {
+      throw new Error('database exploded');
+    });
+
+    const originalError = console.error;
+    console.error = () => {};
+    const response = await app.handler(new Request('http://localhost/boom'));
+    console.error = originalError;
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Internal Server Error', status: 500 });
+  });
+
+  test('hides stack traces unless development mode is on', async () => {
+    const app = createApp();
+    app.get('/conflict', () => {
+      throw new ConflictError('Already exists');
+    });
+
+    const body = await (await app.handler(new Request('http://localhost/conflict'))).json();
+    expect(body).toEqual({ error: 'Already exists', status: 409 });
+  });
+
+  test('includes stack traces in development mode', async () => {
+    const app = createApp({ development: true });
+    app.get('/conflict', () => {
+      throw new ConflictError('Already exists');
+    });
+
+    const body = await (await app.handler(new Request('http://localhost/conflict'))).json() as { error: string; stack: string };
+    expect(body.error).toBe('Already exists');
+    expect(body.stack).toContain('ConflictError');
+  });
+
+  test('turns upload errors into 400 responses', async () => {
+    const app = createApp({ development: false, uploads: { maxFiles: 1 } });
+    app.post('/upload', (ctx: Context) => ctx.json({ ok: true }));
+
+    const form = new FormData();
+    form.append('a', new File(['a'], 'a.txt', { type: 'text/plain' }));
+    form.append('b', new File(['b'], 'b.txt', { type: 'text/plain' }));
+
+    const response = await app.handler(new Request('http://localhost/upload', { method: 'POST', body: form }));
+    expect(response.status).toBe(400);
+    const body = await response.json() as { error: string };
+    expect(body.error).toContain('File upload error');
+  });
+});
+
+describe('app.onError', () => {
+  test('receives the error and context for traditional and pipeline routes', async () => {
+    const app = createApp();
+    app.onError((error, ctx) => ctx.json({
+      message: error instanceof Error ? error.message : 'unknown',
+      path: new URL(ctx.req.url).pathname
+    }, { status: error instanceof HttpError ? error.status : 500 }));
+
+    app.get('/plain', () => {
+      throw new ConflictError('plain failed');
+    });
+    app.route('GET', '/piped', app.pipeline(), () => {
+      throw new Error('piped failed');
+    });
+
+    const plain = await app.handler(new Request('http://localhost/plain'));
+    expect(plain.status).toBe(409);
+    expect(await plain.json()).toEqual({ message: 'plain failed', path: '/plain' });
+
+    const piped = await app.handler(new Request('http://localhost/piped'));
+    expect(piped.status).toBe(500);
+    expect(await piped.json()).toEqual({ message: 'piped failed', path: '/piped' });
+  });
+});
+
+describe('app.notFound', () => {
+  test('negotiates the default response on Accept', async () => {
+    const app = createApp();
+
+    const text = await app.handler(new Request('http://localhost/missing'));
+    expect(text.status).toBe(404);
+    expect(await text.text()).toBe('Not Found');
+
+    const json = await app.handler(new Request('http://localhost/missing', {
+      headers: { accept: 'application/json' }
+    }));
+    expect(json.status).toBe(404);
+    expect(await json.json()).toEqual({ error: 'Not Found', status: 404 });
+  });
+
+  test('runs custom handlers through global middlewares', async () => {
+    const app = createApp();
+    const seen: string[] = [];
+    const logger: Middleware = async (ctx, next) => {
+      seen.push(new URL(ctx.req.url).pathname);
+      return await next();
+    };
+
+    app.use(logger);
+    app.notFound((ctx) => ctx.json({ missing: new URL(ctx.req.url).pathname }, { status: 404 }));
+
+    const response = await app.handler(new Request('http://localhost/nope'));
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ missing: '/nope' });
+    expect(seen).toEqual(['/nope']);
+  });
+});
@@ -0,0 +1,215 @@
+// Unit tests for the compiled route tree
+
+import { describe, expect, test } from 'bun:test';
+import { Router } from '../../src/router.js';
+import { createApp } from '../../src/index.js';
+import type { Context, RouteParams } from '../../src/index.js';
+import { matchRoute, parseURLParams } from '../../src/utils.js';
+
+describe('Router', () => {
+  test('matches static segments and extracts params', () => {
+    const router = new Router<string>();
+    router.add('GET', '/users', 'list');
+    router.add('GET', '/users/:id', 'show');
+    router.add('GET', '/users/:id/posts/:postId', 'post');
+
+    expect(router.find('GET', '/users')).toEqual({ value: 'list', params: {} });
+    expect(router.find('GET', '/users/42')).toEqual({ value: 'show', params: { id: '42' } });
+    expect(router.find('GET', '/users/42/posts/7')).toEqual({
+      value: 'post',
+      params: { id: '42', postId: '7' }
+    });
+    expect(router.find('GET', '/users/')).toBeNull();
+    expect(router.find('POST', '/users')).toBeNull();
+  });
+
+  test('prefers static over param over wildcard regardless of order', () => {
+    const router = new Router<string>();
+    router.add('GET', '/files/*', 'wildcard');
+    router.add('GET', '/files/:name', 'param');
+    router.add('GET', '/files/readme', 'static');
+
+    expect(router.find('GET', '/files/readme')?.value).toBe('static');
+    expect(router.find('GET', '/files/other')?.value).toBe('param');
+    expect(router.find('GET', '/files/a/b')).toEqual({ value: 'wildcard', params: { '*': 'a/b' } });
+  });
+
+  test('backtracks when the more specific branch has no route', () => {
+    const router = new Router<string>();
+    router.add('GET', '/users/me/settings', 'settings');
+    router.add('GET', '/users/:id/profile', 'profile');
+
+    expect(router.find('GET', '/users/me/profile')).toEqual({ value: 'profile', params: { id: 'me' } });
+  });
+
+  test('expands optional params', () => {
+    const router = new Router<string>();
+    router.add('GET', '/posts/:id?', 'posts');
+
+    expect(router.find('GET', '/posts')).toEqual({ value: 'posts', params: {} });
+    expect(router.find('GET', '/posts/5')).toEqual({ value: 'posts', params: { id: '5' } });
+  });
+
+  test('decodes param values', () => {
+    const router = new Router<string>();
+    router.add('GET', '/tags/:tag', 'tag');
+
+    expect(router.find('GET', '/tags/hello%20world')?.params).toEqual({ tag: 'hello world' });
+  });
+});
+
+describe('Catch-all segments', () => {
+  test('captures multi-segment tails into a named param', () => {
+    const router = new Router<string>();
+    router.add('GET', '/docs/:path*', 'docs');
+
+    expect(router.find('GET', '/docs/guides/intro')).toEqual({
+      value: 'docs',
+      params: { path: 'guides/intro' }
+    });
+    expect(router.find('GET', '/docs')).toBeNull();
+  });
+
+  test('rejects catch-alls that are not the last segment', () => {
+    const router = new Router<string>();
+    expect(() => router.add('GET', '/files/*/meta', 'bad')).toThrow();
+  });
+
+  test('matchRoute and parseURLParams understand catch-alls', () => {
+    expect(matchRoute('/files/*', '/files/a/b.txt')).toBe(true);
+    expect(parseURLParams('/files/*', '/files/a/b.txt')).toEqual({ '*': 'a/b.txt' });
+    expect(parseURLParams('/docs/:path*', '/docs/x/y')).toEqual({ path: 'x/y' });
+    expect(matchRoute('/docs/:path*', '/other')).toBe(false);
+  });
+
+  test('infers catch-all params from the pattern', () => {
+    const named: RouteParams<'/docs/:path*'> = { path: 'guides/intro' };
+    const anonymous: RouteParams<'/orgs/:orgId/files/*'> = { orgId: '1', '*': 'a/b' };
+    expect(named.path).toBe('guides/intro');
+    expect(anonymous['*']).toBe('a/b');
+  });
+});
+
+describe('Constrained params', () => {
+  test('only matches values satisfying the constraint', () => {
+    const router = new Router<string>();
+    router.add('GET', '/users/:id(\\d+)', 'numeric');
+
+    expect(router.find('GET', '/users/42')).toEqual({ value: 'numeric', params: { id: '42' } });
+    expect(router.find('GET', '/users/me')).toBeNull();
+  });
+
+  test('falls through to the next candidate when the constraint fails', () => {
+    const router = new Router<string>();
+    router.add('GET', '/users/:name', 'by-name');
+    router.add('GET', '/users/:id(\\d+)', 'by-id');
+
+    expect(router.find('GET', '/users/42')?.value).toBe('by-id');
+    expect(router.find('GET', '/users/alice')).toEqual({ value: 'by-name', params: { name: 'alice' } });
+  });
+
+  test('supports optional constrained params', () => {
+    expect(parseURLParams('/page/:n(\\d+)?', '/page')).toEqual({});
+    expect(parseURLParams('/page/:n(\\d+)?', '/page/3')).toEqual({ n: '3' });
+    expect(matchRoute('/page/:n(\\d+)?', '/page/x')).toBe(false);
+  });
+
+  test('strips the constraint from the inferred param name', () => {
+    const params: RouteParams<'/users/:id(\\d+)/posts/:slug'> = { id: '1', slug: 'hello' };
+    expect(params.id).toBe('1');
+  });
+});
+
+describe('Imphnen routing', () => {
+  test('dispatches to the most specific route', async () => {
+    const app = createApp();
+    app.get('/users/:id', (ctx: Context<{ id: string }>) => ctx.json({ id: ctx.params.id }));
+    app.get('/users/me', (ctx: Context) => ctx.json({ me: true }));
+
+    const me = await app.handler(new Request('http://localhost/users/me'));
+    expect(await me.json()).toEqual({ me: true });
+
+    const other = await app.handler(new Request('http://localhost/users/7'));
+    expect(await other.json()).toEqual({ id: '7' });
+  });
+
+  test('picks up routes registered after the first request', async () => {
+    const app = createApp();
+    app.get('/a', (ctx: Context) => ctx.text('a'));
+    expect((await app.handler(new Request('http://localhost/b'))).status).toBe(404);
+
+    app.get('/b', (ctx: Context) => ctx.text('b'));
+    expect(await (await app.handler(new Request('http://localhost/b'))).text()).toBe('b');
+  });
+
+  test('responds 405 with an Allow header when only the method differs', async () => {
+    const app = createApp();
+    app.get('/items/:id', (ctx: Context) => ctx.text('item'));
+    app.route('DELETE', '/items/:id', app.pipeline(), (ctx) => ctx.text('deleted'));
+    app.proxy('/upstream', { target: 'http://localhost:9' });
+
+    const response = await app.handler(new Request('http://localhost/items/1', { method: 'PUT' }));
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('DELETE, GET, HEAD, OPTIONS');
+
+    const proxied = await app.handler(new Request('http://localhost/upstream', { method: 'OPTIONS' }));
+    expect(proxied.headers.get('allow')).toBe('GET, POST, PUT, DELETE, PATCH, HEAD, OPTIONS');
+
+    expect((await app.handler(new Request('http://localhost/missing'))).status).toBe(404);
+  });
+
+  test('answers HEAD from the GET route without a body', async () => {
+    const app = createApp();
+    app.get('/report', (ctx: Context) => ctx.json({ rows: [1, 2, 3] }, { headers: { 'x-report': 'yes' } }));
+
+    const response = await app.handler(new Request('http://localhost/report', { method: 'HEAD' }));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-report')).toBe('yes');
+    expect(response.headers.get('content-length')).toBe(String(JSON.stringify({ rows: [1, 2, 3] }).length));
+    expect(await response.text()).toBe('');
+  });
+
+  test('answers HEAD for a streamed GET body without reading it', async () => {
+    const app = createApp();
+    let cancelled = false;
+    // Never closes, so reading it would hang
+    app.get('/feed', () => new Response(new ReadableStream({ cancel: () => { cancelled = true; } }), {
+      headers: { 'content-type': 'application/x-ndjson' }
+    }));
+
+    const response = await app.handler(new Request('http://localhost/feed', { method: 'HEAD' }));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+    expect(await response.text()).toBe('');
+    expect(cancelled).toBe(true);
+  });
+
+  test('answers OPTIONS with the allowed methods', async () => {
+    const app = createApp();
+    app.get('/things', (ctx: Context) => ctx.text('list'));
+    app.post('/things', (ctx: Context) => ctx.text('create'));
+
+    const response = await app.handler(new Request('http://localhost/things', { method: 'OPTIONS' }));
+    expect(response.status).toBe(204);
+    expect(response.headers.get('allow')).toBe('GET, POST, HEAD, OPTIONS');
+  });
+
+  test('lets explicit head, options and all handlers override the defaults', async () => {
+    const app = createApp();
+    app.get('/thing', (ctx: Context) => ctx.text('body'));
+    app.head('/thing', (ctx: Context) => ctx.text('', { headers: { 'x-head': 'explicit' } }));
+    app.options('/thing', (ctx: Context) => ctx.text('', { status: 200, headers: { 'x-options': 'explicit' } }));
+    app.all('/any', (ctx: Context) => ctx.text(ctx.req.method));
+
+    const head = await app.handler(new Request('http://localhost/thing', { method: 'HEAD' }));
+    expect(head.headers.get('x-head')).toBe('explicit');
+
+    const options = await app.handler(new Request('http://localhost/thing', { method: 'OPTIONS' }));
+    expect(options.headers.get('x-options')).toBe('explicit');
+
+    for (const method of ['GET', 'POST', 'PUT', 'DELETE', 'PATCH']) {
+      const response = await app.handler(new Request('http://localhost/any', { method }));
+      expect(await response.text()).toBe(method);
+    }
+  });
+});
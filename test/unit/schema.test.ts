@@ -0,0 +1,68 @@
+// Unit tests for the built-in schema builder
+
+import { describe, expect, test } from 'bun:test';
+import { t } from '../../src/index.js';
+
+describe('schema builder', () => {
+  const User = t.object({
+    name: t.string({ minLength: 1 }),
+    email: t.string({ format: 'email' }),
+    age: t.integer({ minimum: 0 }).optional(),
+    role: t.enum(['admin', 'user']),
+    tags: t.array(t.string(), { maxItems: 2 })
+  });
+
+  test('accepts valid input and strips unknown keys', () => {
+    const result = User.validate({
+      name: 'Ada',
+      email: 'ada@example.com',
+      role: 'admin',
+      tags: ['x'],
+      extra: true
+    });
+    expect(result).toEqual({
+      value: { name: 'Ada', email: 'ada@example.com', role: 'admin', tags: ['x'] }
+    });
+  });
+
+  test('reports every failing field with its path', () => {
+    const result = User.validate({ name: '', email: 'nope', age: 1.5, role: 'root', tags: ['a', 'b', 3] });
+    expect(result.issues?.map(issue => [issue.path?.join('.'), issue.message])).toEqual([
+      ['name', 'Must be at least 1 characters'],
+      ['email', 'Must be a valid email'],
+      ['age', 'Expected integer'],
+      ['role', 'Expected one of "admin", "user"'],
+      ['tags', 'Must contain at most 2 items'],
+      ['tags.2', 'Expected string, received number']
+    ]);
+  });
+
+  test('coerces strings only when asked', () => {
+    const Query = t.object({
+      page: t.integer(),
+      draft: t.boolean(),
+      ids: t.array(t.number()),
+      limit: t.literal(10)
+    });
+    const input = { page: '2', draft: 'false', ids: '7', limit: '10' };
+
+    expect(Query.validate(input, { coerce: true })).toEqual({
+      value: { page: 2, draft: false, ids: [7], limit: 10 }
+    });
+    expect(Query.validate(input).issues).toHaveLength(4);
+  });
+
+  test('supports nullable and union schemas', () => {
+    const Id = t.union([t.integer(), t.string({ format: 'uuid' })]);
+    expect(Id.validate(5)).toEqual({ value: 5 });
+    expect(Id.validate('x').issues?.[0]?.message).toBe('Value does not match any of the allowed types');
+    expect(t.string().nullable().validate(null)).toEqual({ value: null });
+  });
+
+  test('implements the Standard Schema interface', async () => {
+    const schema = t.number({ maximum: 3 });
+    expect(schema['~standard'].version).toBe(1);
+    expect(await schema['~standard'].validate(2)).toEqual({ value: 2 });
+    expect(await schema['~standard'].validate('2')).toHaveProperty('issues');
+  });
+});